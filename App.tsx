@@ -5,7 +5,11 @@ import { Sidebar, Header } from './components/Layout';
 import ShortcutPanel from './components/ShortcutPanel';
 import Dashboard from './pages/Dashboard';
 import Login from './pages/Login';
+import CustomerDisplay from './pages/CustomerDisplay';
 import POS from './pages/POS';
+import Sales from './pages/Sales';
+import Returns from './pages/Returns';
+import Shifts from './pages/Shifts';
 import Inventory from './pages/Inventory';
 import StockEntry from './pages/StockEntry';
 import Expiry from './pages/Expiry';
@@ -68,10 +72,15 @@ const App = () => {
     <HashRouter>
       <Routes>
         <Route path="/login" element={<Login />} />
+        {/* Customer-facing monitor: no sidebar or login, it only mirrors the POS cart */}
+        <Route path="/customer-display" element={<CustomerDisplay />} />
         
         <Route element={<ProtectedLayout />}>
           <Route path="/" element={<Dashboard />} />
           <Route path="/pos" element={<POS />} />
+          <Route path="/sales" element={<Sales />} />
+          <Route path="/returns" element={<Returns />} />
+          <Route path="/shifts" element={<Shifts />} />
           <Route path="/inventory" element={<Inventory />} />
           <Route path="/stock-entry" element={<StockEntry />} />
           <Route path="/expiry" element={<Expiry />} />
@@ -28,6 +28,7 @@ const schema = a.schema({
     
     // --- NEW FIELDS ---
     unit: a.string(),
+    packUnits: a.json(), // [{ unit, factor, price }] packs sold alongside the base unit
     minStock: a.integer(),
     description: a.string(),
     // ------------------
@@ -101,12 +102,15 @@ const schema = a.schema({
     name: a.string(),
     phone: a.string(),
     points: a.integer(),
+    priceListId: a.string(),
     sales: a.hasMany('Sale', 'customerId'),
   }).authorization(allow => [allow.publicApiKey()]),
 
   Sale: a.model({
     invoiceNumber: a.string(),
     totalAmount: a.float(),
+    taxAmount: a.float(),
+    pricesIncludeTax: a.boolean(),
     soldAt: a.datetime(),
     paymentMethod: a.enum(['CASH', 'KBZPAY', 'WAVEPAY']),
     customerId: a.id(),
@@ -119,6 +123,8 @@ const schema = a.schema({
   SaleItem: a.model({
     quantity: a.integer(),
     priceAtSale: a.float(),
+    taxRate: a.float(),
+    taxAmount: a.float(),
     saleId: a.id(),
     sale: a.belongsTo('Sale', 'saleId'),
     productId: a.id(),
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { AlertCircle, ShieldAlert } from 'lucide-react';
+import { Button, Input } from './UI';
+import { useAuthStore } from '../store';
+import { AlertSeverity, DrugAlert, Role, User } from '../types';
+
+export const SEVERITY_STYLES: Record<AlertSeverity, { label: string; className: string }> = {
+  MAJOR: { label: 'Major', className: 'bg-red-50 text-red-700 border-red-200' },
+  MODERATE: { label: 'Moderate', className: 'bg-amber-50 text-amber-800 border-amber-200' },
+  MINOR: { label: 'Minor', className: 'bg-blue-50 text-blue-700 border-blue-200' }
+};
+
+export const DrugAlertItem = ({ alert }: { alert: DrugAlert }) => (
+  <div className={`p-3 rounded-xl border text-xs ${SEVERITY_STYLES[alert.severity].className}`}>
+    <p className="font-bold flex items-center gap-1.5">
+      <ShieldAlert size={14} className="shrink-0" />
+      {SEVERITY_STYLES[alert.severity].label} · {alert.type === 'DUPLICATE' ? 'Duplicate therapy' : 'Interaction'}: {alert.generics.join(' + ')}
+    </p>
+    <p className="mt-1">{alert.message}</p>
+    <p className="mt-1 opacity-70">{alert.productNames.join(', ')}</p>
+  </div>
+);
+
+interface DrugAlertAckModalProps {
+  alerts: DrugAlert[];
+  onCancel: () => void;
+  onAcknowledged: (pharmacist: User) => void;
+}
+
+/**
+ * Drug Alert Acknowledgement
+ * A pharmacist reviews every open alert on the cart before payment; the sale records who did.
+ */
+export const DrugAlertAckModal = ({ alerts, onCancel, onAcknowledged }: DrugAlertAckModalProps) => {
+  const { user, verifyPin } = useAuthStore();
+  const [creds, setCreds] = useState({ login: '', pin: '' });
+  const [error, setError] = useState('');
+
+  const isPharmacist = user?.role === Role.PHARMACIST;
+
+  const handleAcknowledge = () => {
+    if (isPharmacist && user) {
+      onAcknowledged(user);
+      return;
+    }
+    const pharmacist = verifyPin(creds.login, creds.pin, [Role.PHARMACIST]);
+    if (!pharmacist) {
+      setError('Invalid pharmacist credentials.');
+      return;
+    }
+    onAcknowledged(pharmacist);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl p-6 animate-in zoom-in-95 duration-200 max-h-[95vh] overflow-y-auto">
+        <h3 className="text-xl font-bold text-slate-800 mb-1 flex items-center gap-2"><ShieldAlert size={20} className="text-red-600" /> Drug Safety Check</h3>
+        <p className="text-sm text-slate-500 mb-4">Review these warnings with the customer before payment.</p>
+
+        <div className="space-y-2 mb-4">
+          {alerts.map(alert => <DrugAlertItem key={alert.key} alert={alert} />)}
+        </div>
+
+        {!isPharmacist && (
+          <div className="space-y-3">
+            <Input label="Pharmacist ID or Email" value={creds.login} onChange={(e: any) => { setCreds({ ...creds, login: e.target.value }); setError(''); }} autoFocus />
+            <Input label="PIN" type="password" value={creds.pin} onChange={(e: any) => { setCreds({ ...creds, pin: e.target.value }); setError(''); }} />
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+            <AlertCircle size={16} className="shrink-0" /> {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <Button variant="outline" className="flex-1" onClick={onCancel}>Cancel</Button>
+          <Button variant="primary" className="flex-1 bg-red-600 hover:bg-red-700" onClick={handleAcknowledge}>
+            {isPharmacist ? `Acknowledge as ${user?.name}` : 'Acknowledge'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
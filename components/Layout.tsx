@@ -4,7 +4,7 @@ import { NavLink } from 'react-router-dom';
 import { 
   LayoutDashboard, ShoppingCart, Package, Truck, 
   Users, BarChart3, Settings, LogOut, Menu, Bell, Search,
-  ChevronDown, HeartPulse, Building2, Check, X, ScanLine, Calendar, ShoppingBag, PlusCircle, Wrench
+  ChevronDown, HeartPulse, Building2, Check, X, ScanLine, Calendar, ShoppingBag, PlusCircle, Wrench, Receipt, Undo2, Wallet
 } from 'lucide-react';
 import { useAuthStore, useGlobalStore, useBranchStore } from '../store';
 
@@ -76,6 +76,9 @@ export const Sidebar = () => {
         <div className="flex-1 overflow-y-auto py-6 px-4 space-y-1 scrollbar-hide">
           <NavItem to="/" icon={LayoutDashboard} label="Dashboard" subLabel="ခြုံငုံသုံးသပ်ချက်" />
           <NavItem to="/pos" icon={ShoppingCart} label="POS Terminal" subLabel="အရောင်းကောင်တာ" />
+          <NavItem to="/sales" icon={Receipt} label="Sales Journal" subLabel="အရောင်းမှတ်တမ်း" />
+          <NavItem to="/returns" icon={Undo2} label="Returns" subLabel="ပစ္စည်းပြန်လည်လက်ခံ" />
+          <NavItem to="/shifts" icon={Wallet} label="Shifts" subLabel="ငွေကိုင်အလှည့်" />
           
           <div className="py-2">
             <div className="h-[1px] bg-gray-100 mx-2 mb-2" />
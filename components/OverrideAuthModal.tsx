@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Lock, AlertCircle } from 'lucide-react';
+import { Button, Input } from './UI';
+import { useAuthStore } from '../store';
+import { OVERRIDE_LABELS, OVERRIDE_ROLES, OverrideType, User } from '../types';
+
+interface OverrideAuthModalProps {
+  type: OverrideType;
+  message: string;
+  onCancel: () => void;
+  onAuthorized: (approver: User, reason: string) => void;
+}
+
+/**
+ * Override Authorization
+ * The approver enters their own ID and PIN; their role must be allowed for the override type.
+ */
+export const OverrideAuthModal = ({ type, message, onCancel, onAuthorized }: OverrideAuthModalProps) => {
+  const { verifyPin } = useAuthStore();
+  const [creds, setCreds] = useState({ login: '', pin: '' });
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  const allowedRoles = OVERRIDE_ROLES[type];
+  const roleNames = allowedRoles.map(r => r.charAt(0) + r.slice(1).toLowerCase()).join(', ');
+
+  const handleAuthorize = () => {
+    if (!reason.trim()) {
+      setError('A reason is required for every override.');
+      return;
+    }
+    const approver = verifyPin(creds.login.trim(), creds.pin, allowedRoles);
+    if (!approver) {
+      setError(`Invalid PIN, or this user cannot authorize ${OVERRIDE_LABELS[type].toLowerCase()} overrides.`);
+      setCreds({ ...creds, pin: '' });
+      return;
+    }
+    onAuthorized(approver, reason.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4 animate-in fade-in">
+      <div className="bg-white w-full max-w-sm rounded-2xl shadow-2xl p-6 border-t-4 border-red-500">
+        <div className="text-center mb-6">
+          <div className="w-14 h-14 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-3 text-red-600">
+            <Lock size={28} />
+          </div>
+          <h3 className="text-lg font-bold text-slate-900">{OVERRIDE_LABELS[type]} Override</h3>
+          <p className="text-sm text-slate-500 mt-1">{message}</p>
+          <p className="text-xs text-slate-400 mt-1">Authorized by: {roleNames}</p>
+        </div>
+
+        <div className="space-y-3">
+          <Input
+            placeholder="Staff ID or Email"
+            value={creds.login}
+            onChange={(e: any) => { setCreds({ ...creds, login: e.target.value }); setError(''); }}
+            autoFocus
+          />
+          <Input
+            type="password"
+            placeholder="PIN"
+            value={creds.pin}
+            onChange={(e: any) => { setCreds({ ...creds, pin: e.target.value }); setError(''); }}
+            onKeyDown={(e: React.KeyboardEvent) => { if (e.key === 'Enter') handleAuthorize(); }}
+          />
+          <Input
+            placeholder="Reason"
+            value={reason}
+            onChange={(e: any) => { setReason(e.target.value); setError(''); }}
+          />
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+            <AlertCircle size={16} className="shrink-0" /> {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <Button variant="outline" className="flex-1" onClick={onCancel}>Cancel</Button>
+          <Button variant="danger" className="flex-1" onClick={handleAuthorize}>Authorize</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
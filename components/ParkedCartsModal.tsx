@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { PauseCircle, PlayCircle, Trash2, X, User, Clock, AlertCircle } from 'lucide-react';
+import { Button } from './UI';
+import { useCartStore, useParkedCartStore, useAuthStore, usePromotionStore, useSettingsStore } from '../store';
+import { calculateCartTotals } from '../utils/pricing';
+
+interface ParkedCartsModalProps {
+  onClose: () => void;
+}
+
+/**
+ * Park / Recall
+ * Puts the active sale on hold under a name and brings held sales back to the terminal.
+ * A held sale can only be recalled into an empty cart.
+ */
+const ParkedCartsModal = ({ onClose }: ParkedCartsModalProps) => {
+  const { items, customer } = useCartStore();
+  const { parkedCarts, parkCart, recallCart, discardParkedCart } = useParkedCartStore();
+  const { promotions } = usePromotionStore();
+  const { settings } = useSettingsStore();
+  const { user } = useAuthStore();
+
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+
+  const handlePark = () => {
+    const parked = parkCart(name, user?.name || 'Unknown');
+    if (!parked) {
+      setError('The current cart is empty.');
+      return;
+    }
+    onClose();
+  };
+
+  const handleRecall = (id: string) => {
+    if (!recallCart(id)) {
+      setError('Park or clear the current sale before recalling another.');
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="font-bold text-xl text-slate-800 flex items-center gap-2">
+            <PauseCircle size={20} className="text-amber-500" /> Parked Sales
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1 rounded-full hover:bg-slate-200 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {items.length > 0 && (
+            <div className="p-4 bg-amber-50/50 border border-amber-100 rounded-xl space-y-3">
+              <p className="text-sm font-medium text-slate-700">Park current sale ({items.length} lines)</p>
+              <div className="flex gap-2">
+                <input
+                  autoFocus
+                  value={name}
+                  onChange={(e) => { setName(e.target.value); setError(''); }}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handlePark(); }}
+                  placeholder={customer?.name || 'e.g. Lady in blue, waiting for Rx'}
+                  className="flex-1 px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                />
+                <Button variant="primary" onClick={handlePark} className="gap-1.5">
+                  <PauseCircle size={16} /> Park
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+              <AlertCircle size={16} className="shrink-0" /> {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {parkedCarts.map(cart => {
+              const cartTotal = calculateCartTotals(cart.items, cart.cartDiscount, promotions, cart.customer, settings).total;
+              return (
+                <div key={cart.id} className="flex items-center justify-between gap-3 p-3 border border-slate-200 rounded-xl hover:border-blue-200 transition-colors">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-slate-800 truncate">{cart.name}</p>
+                    <div className="flex flex-wrap items-center gap-x-3 text-xs text-slate-500 mt-0.5">
+                      <span className="flex items-center gap-1"><Clock size={10} /> {new Date(cart.parkedAt).toLocaleTimeString()}</span>
+                      {cart.customer && <span className="flex items-center gap-1"><User size={10} /> {cart.customer.name}</span>}
+                      <span>{cart.items.length} lines · {cartTotal.toLocaleString()} Ks</span>
+                    </div>
+                    <p className="text-[10px] text-slate-400 mt-0.5">Parked by {cart.parkedBy}</p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => handleRecall(cart.id)}
+                      disabled={items.length > 0}
+                      className="px-3 py-1.5 text-xs font-bold rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-200 disabled:text-slate-400 flex items-center gap-1"
+                      title={items.length > 0 ? 'Park or clear the current sale first' : 'Recall'}
+                    >
+                      <PlayCircle size={14} /> Recall
+                    </button>
+                    <button
+                      onClick={() => { if (confirm(`Discard parked sale "${cart.name}"?`)) discardParkedCart(cart.id); }}
+                      className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded transition-colors"
+                      title="Discard"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            {parkedCarts.length === 0 && (
+              <p className="text-center text-sm text-slate-400 py-6">No parked sales at this branch.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParkedCartsModal;
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { Banknote, QrCode, Smartphone, CreditCard, Star, Plus, X, AlertCircle } from 'lucide-react';
+import { Button, Input } from './UI';
+import { PaymentMethod, Tender, PAYMENT_METHODS } from '../types';
+
+const METHOD_ICONS: Record<PaymentMethod, any> = {
+  CASH: Banknote,
+  KBZ_PAY: QrCode,
+  WAVE_PAY: Smartphone,
+  CARD: CreditCard,
+  POINTS: Star
+};
+
+// Redeemable balance of the customer on the sale
+interface PointsRedemption {
+  balance: number;
+  pointValue: number; // Ks per point
+  minRedeemPoints: number;
+}
+
+interface PaymentModalProps {
+  total: number;
+  error?: string;
+  loyalty?: PointsRedemption;
+  onCancel: () => void;
+  onComplete: (tenders: Tender[], change: number) => void;
+}
+
+const sumApplied = (tenders: Tender[]) => tenders.reduce((sum, t) => sum + t.amount, 0);
+
+/**
+ * Split Tender Payment
+ * Cash may be over-tendered (change is given back); wallet, card and points tenders are capped at the balance due.
+ * Points are entered as a number of points and applied at their Ks value.
+ */
+const PaymentModal = ({ total, error, loyalty, onCancel, onComplete }: PaymentModalProps) => {
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [method, setMethod] = useState<PaymentMethod>('CASH');
+  const [amountInput, setAmountInput] = useState('');
+  const [reference, setReference] = useState('');
+  const [formError, setFormError] = useState('');
+
+  const methodInfo = PAYMENT_METHODS.find(m => m.code === method)!;
+  const methods = PAYMENT_METHODS.filter(m => m.code !== 'POINTS' || (loyalty && loyalty.balance > 0));
+  const balanceDue = Math.max(0, total - sumApplied(tenders));
+
+  const pointValue = loyalty?.pointValue || 1;
+  const pointsApplied = Math.round(tenders.filter(t => t.method === 'POINTS').reduce((sum, t) => sum + t.amount, 0) / pointValue);
+  const pointsAvailable = Math.max(0, (loyalty?.balance || 0) - pointsApplied);
+  const maxRedeemable = Math.min(pointsAvailable, Math.floor(balanceDue / pointValue));
+
+  // The tender currently being typed, as it would be applied
+  const entered = method === 'POINTS' ? Math.floor(parseFloat(amountInput) || 0) * pointValue : parseFloat(amountInput) || 0;
+  const pendingTender: Tender | null = entered > 0 ? {
+    method,
+    amount: Math.min(entered, balanceDue),
+    tendered: method === 'CASH' ? entered : undefined,
+    reference: reference.trim() || undefined
+  } : null;
+
+  const allTenders = pendingTender ? [...tenders, pendingTender] : tenders;
+  const remaining = Math.max(0, total - sumApplied(allTenders));
+  const change = allTenders
+    .filter(t => t.method === 'CASH')
+    .reduce((sum, t) => sum + ((t.tendered || t.amount) - t.amount), 0);
+
+  const validatePending = (): boolean => {
+    if (!pendingTender) return false;
+    if (method === 'POINTS') {
+      const points = entered / pointValue;
+      if (points > pointsAvailable) {
+        setFormError(`Only ${pointsAvailable.toLocaleString()} points available.`);
+        return false;
+      }
+      if (points < (loyalty?.minRedeemPoints || 0)) {
+        setFormError(`Redeem at least ${loyalty?.minRedeemPoints.toLocaleString()} points.`);
+        return false;
+      }
+    }
+    if (method !== 'CASH' && entered > balanceDue) {
+      setFormError(`${methodInfo.nameEn} cannot exceed the balance due.`);
+      return false;
+    }
+    if (methodInfo.requiresReference && !pendingTender.reference) {
+      setFormError(`Enter the ${methodInfo.nameEn} transaction reference.`);
+      return false;
+    }
+    setFormError('');
+    return true;
+  };
+
+  const selectMethod = (code: PaymentMethod) => {
+    setMethod(code);
+    setReference('');
+    setFormError('');
+    // Non-cash tenders default to the exact balance, points to as many as cover it
+    if (code === 'POINTS') setAmountInput(String(maxRedeemable || ''));
+    else setAmountInput(code === 'CASH' ? '' : String(balanceDue || ''));
+  };
+
+  const handleAddTender = () => {
+    if (!validatePending() || !pendingTender) return;
+    setTenders([...tenders, pendingTender]);
+    setAmountInput('');
+    setReference('');
+  };
+
+  const handleRemoveTender = (idx: number) => {
+    setTenders(tenders.filter((_, i) => i !== idx));
+  };
+
+  const handleComplete = () => {
+    if (pendingTender && !validatePending()) return;
+    if (remaining > 0) {
+      setFormError(`${remaining.toLocaleString()} Ks still due.`);
+      return;
+    }
+    onComplete(allTenders, change);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl p-6 animate-in zoom-in-95 duration-200 scale-100 max-h-[95vh] overflow-y-auto">
+        <h3 className="text-xl font-bold text-slate-800 mb-1">Confirm Payment</h3>
+        <p className="text-sm text-slate-500 mb-6">Total Amount: <span className="font-bold text-slate-900">{total.toLocaleString()} Ks</span></p>
+
+        <div className={`grid ${methods.length > 4 ? 'grid-cols-5' : 'grid-cols-4'} gap-2 mb-5`}>
+          {methods.map(m => {
+            const Icon = METHOD_ICONS[m.code];
+            return (
+              <button
+                key={m.code}
+                onClick={() => selectMethod(m.code)}
+                className={`flex flex-col items-center justify-center gap-1.5 p-3 border-2 rounded-xl transition-all ${
+                  method === m.code
+                    ? 'border-blue-600 bg-blue-50/50 text-blue-700'
+                    : 'border-transparent bg-slate-50 hover:bg-slate-100 text-slate-600'
+                }`}
+              >
+                <Icon size={22} />
+                <span className={`text-xs ${method === m.code ? 'font-bold' : 'font-medium'}`}>{m.nameEn}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Applied Tenders */}
+        {tenders.length > 0 && (
+          <div className="mb-4 space-y-2">
+            {tenders.map((t, idx) => (
+              <div key={idx} className="flex items-center justify-between text-sm px-3 py-2 bg-slate-50 rounded-lg border border-slate-100">
+                <div>
+                  <span className="font-semibold text-slate-700">{PAYMENT_METHODS.find(m => m.code === t.method)?.nameEn}</span>
+                  {t.reference && <span className="ml-2 text-xs font-mono text-slate-400">#{t.reference}</span>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-bold text-slate-800">{t.amount.toLocaleString()} Ks</span>
+                  <button onClick={() => handleRemoveTender(idx)} className="text-slate-400 hover:text-red-500"><X size={14} /></button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <Input
+            label={method === 'CASH' ? 'Cash Received' : method === 'POINTS' ? `Points to Redeem (${pointsAvailable.toLocaleString()} available)` : `${methodInfo.nameEn} Amount`}
+            placeholder={method === 'POINTS' ? maxRedeemable.toString() : balanceDue.toString()}
+            type="number"
+            min="0"
+            autoFocus
+            className="text-lg font-mono"
+            value={amountInput}
+            onChange={(e: any) => { setAmountInput(e.target.value); setFormError(''); }}
+          />
+          {method === 'POINTS' && pendingTender && (
+            <p className="text-xs text-slate-500 -mt-2 ml-1">= {pendingTender.amount.toLocaleString()} Ks at {pointValue.toLocaleString()} Ks per point</p>
+          )}
+          {method !== 'CASH' && method !== 'POINTS' && (
+            <Input
+              label={`Reference No.${methodInfo.requiresReference ? '' : ' (optional)'}`}
+              placeholder="Transaction ID"
+              className="font-mono"
+              value={reference}
+              onChange={(e: any) => { setReference(e.target.value); setFormError(''); }}
+            />
+          )}
+
+          <button
+            onClick={handleAddTender}
+            disabled={!pendingTender || remaining === 0}
+            className="w-full py-2 border border-dashed border-slate-300 rounded-xl text-sm font-medium text-slate-500 hover:text-blue-600 hover:border-blue-400 transition-colors flex items-center justify-center gap-1.5 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Plus size={14} /> Split: add another tender
+          </button>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex justify-between text-sm p-4 bg-slate-50 rounded-xl border border-slate-100">
+              <span className="text-slate-500 font-medium">Balance Due</span>
+              <span className={`font-bold text-lg ${remaining > 0 ? 'text-red-600' : 'text-slate-800'}`}>{remaining.toLocaleString()} Ks</span>
+            </div>
+            <div className="flex justify-between text-sm p-4 bg-slate-50 rounded-xl border border-slate-100">
+              <span className="text-slate-500 font-medium">Change Due</span>
+              <span className="font-bold text-slate-800 text-lg">{change.toLocaleString()} Ks</span>
+            </div>
+          </div>
+        </div>
+
+        {(formError || error) && (
+          <div className="mt-4 p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+            <AlertCircle size={16} className="shrink-0" /> {formError || error}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-8">
+          <Button variant="outline" className="flex-1 h-11" onClick={onCancel}>Cancel</Button>
+          <Button variant="primary" className="flex-1 h-11 bg-blue-600 hover:bg-blue-700 shadow-lg shadow-blue-500/20" onClick={handleComplete}>Complete Sale</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentModal;
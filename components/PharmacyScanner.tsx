@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { 
   Camera, ScanLine, X, Keyboard, QrCode, 
   AlertCircle, CheckCircle2, AlertTriangle, Box, 
@@ -8,6 +8,7 @@ import {
 import { useNavigate } from 'react-router-dom';
 import { Card, Button, Badge } from './UI';
 import CameraScanner from './CameraScanner';
+import { useShortcuts } from './ShortcutPanel';
 import { parseBarcode } from '../utils/gs1Parser';
 import { useScannerStore, useProductStore } from '../store';
 import { ScannedItem } from '../types';
@@ -172,15 +173,12 @@ const PharmacyScanner = () => {
   };
 
   // Keyboard Shortcuts
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'F3') { e.preventDefault(); setActiveTab('scan'); setIsCameraActive(true); }
-      if (e.key === 'F4') { e.preventDefault(); navigate('/stock-entry'); }
-      if (e.key === 'Escape') { e.preventDefault(); setActiveScan(null); }
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [navigate, setActiveScan]);
+  useShortcuts({
+    'scanner.scan': () => { setActiveTab('scan'); setIsCameraActive(true); },
+    'scanner.manual': () => navigate('/stock-entry'),
+    'scanner.history': () => setActiveTab('history'),
+    'scanner.cancel': () => setActiveScan(null)
+  });
 
   return (
     <div className="p-6 max-w-7xl mx-auto space-y-6 relative h-[calc(100vh-80px)] flex flex-col">
@@ -0,0 +1,191 @@
+import React, { useState, useRef } from 'react';
+import { FileText, Camera, X, AlertCircle, ShieldCheck, Stethoscope } from 'lucide-react';
+import { Button, Input } from './UI';
+import { useAuthStore } from '../store';
+import { Prescription, Role, User } from '../types';
+
+// Keep scripts small enough for localStorage-backed stores
+const MAX_PHOTO_BYTES = 1.5 * 1024 * 1024;
+
+interface PrescriptionCaptureModalProps {
+  productName: string;
+  initial?: Prescription | null;
+  onCancel: () => void;
+  onSave: (prescription: Prescription) => void;
+}
+
+/**
+ * Prescription Capture
+ * Shown when a prescription-only product is added without a script on the sale.
+ */
+export const PrescriptionCaptureModal = ({ productName, initial, onCancel, onSave }: PrescriptionCaptureModalProps) => {
+  const { user } = useAuthStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState({
+    doctorName: initial?.doctorName || '',
+    clinic: initial?.clinic || '',
+    prescriptionDate: initial?.prescriptionDate || new Date().toISOString().split('T')[0],
+    patientName: initial?.patientName || '',
+    photo: initial?.photo
+  });
+  const [error, setError] = useState('');
+
+  const handlePhoto = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.size > MAX_PHOTO_BYTES) {
+      setError('Photo is too large. Please use an image under 1.5 MB.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onloadend = () => setForm(f => ({ ...f, photo: reader.result as string }));
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = () => {
+    if (!form.doctorName.trim() || !form.clinic.trim() || !form.patientName.trim() || !form.prescriptionDate) {
+      setError('Doctor, clinic, patient and prescription date are required.');
+      return;
+    }
+    if (form.prescriptionDate > new Date().toISOString().split('T')[0]) {
+      setError('Prescription date cannot be in the future.');
+      return;
+    }
+    onSave({
+      id: initial?.id || `RX-${Date.now()}`,
+      doctorName: form.doctorName.trim(),
+      clinic: form.clinic.trim(),
+      prescriptionDate: form.prescriptionDate,
+      patientName: form.patientName.trim(),
+      photo: form.photo,
+      productIds: initial?.productIds || [],
+      capturedBy: user?.name || 'Unknown',
+      capturedAt: new Date().toISOString()
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h3 className="font-bold text-xl text-slate-800 flex items-center gap-2"><Stethoscope size={20} className="text-blue-600" /> Prescription Required</h3>
+            <p className="text-xs text-slate-500 mt-0.5"><span className="font-semibold">{productName}</span> is prescription-only. Record the script to continue.</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 p-1 rounded-full hover:bg-slate-200 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 border border-red-100 text-red-700 px-4 py-2 rounded-lg text-sm flex items-center gap-2">
+              <AlertCircle size={16} /> {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="Doctor Name" value={form.doctorName} onChange={(e: any) => setForm({ ...form, doctorName: e.target.value })} placeholder="e.g. Dr. Aung Min" autoFocus />
+            <Input label="Clinic / Hospital" value={form.clinic} onChange={(e: any) => setForm({ ...form, clinic: e.target.value })} />
+            <Input label="Patient Name" value={form.patientName} onChange={(e: any) => setForm({ ...form, patientName: e.target.value })} />
+            <Input label="Prescription Date" type="date" value={form.prescriptionDate} onChange={(e: any) => setForm({ ...form, prescriptionDate: e.target.value })} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1.5">Script Photo (optional)</label>
+            <input type="file" accept="image/*" capture="environment" ref={fileInputRef} className="hidden" onChange={handlePhoto} />
+            {form.photo ? (
+              <div className="relative">
+                <img src={form.photo} alt="Prescription" className="w-full max-h-56 object-contain rounded-lg border border-slate-200 bg-slate-50" />
+                <button onClick={() => setForm({ ...form, photo: undefined })} className="absolute top-2 right-2 p-1 bg-white rounded-full shadow text-slate-500 hover:text-red-500">
+                  <X size={14} />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full py-6 border-2 border-dashed border-slate-300 rounded-xl text-sm text-slate-500 hover:border-blue-400 hover:text-blue-600 flex flex-col items-center gap-2"
+              >
+                <Camera size={24} /> Take or upload a photo
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button variant="primary" onClick={handleSave} className="gap-2"><FileText size={16} /> Save Prescription</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface PharmacistVerifyModalProps {
+  prescription: Prescription;
+  productNames: string[];
+  onCancel: () => void;
+  onVerified: (pharmacist: User) => void;
+}
+
+/**
+ * Pharmacist Verification
+ * A logged-in pharmacist confirms directly; anyone else needs a pharmacist's PIN.
+ */
+export const PharmacistVerifyModal = ({ prescription, productNames, onCancel, onVerified }: PharmacistVerifyModalProps) => {
+  const { user, verifyPin } = useAuthStore();
+  const [creds, setCreds] = useState({ login: '', pin: '' });
+  const [error, setError] = useState('');
+
+  const isPharmacist = user?.role === Role.PHARMACIST;
+
+  const handleVerify = () => {
+    if (isPharmacist && user) {
+      onVerified(user);
+      return;
+    }
+    const pharmacist = verifyPin(creds.login, creds.pin, [Role.PHARMACIST]);
+    if (!pharmacist) {
+      setError('Invalid pharmacist credentials.');
+      return;
+    }
+    onVerified(pharmacist);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl p-6 animate-in zoom-in-95 duration-200 max-h-[95vh] overflow-y-auto">
+        <h3 className="text-xl font-bold text-slate-800 mb-1 flex items-center gap-2"><ShieldCheck size={20} className="text-emerald-600" /> Pharmacist Verification</h3>
+        <p className="text-sm text-slate-500 mb-4">Check the script against the dispensed items before payment.</p>
+
+        <div className="p-4 bg-slate-50 rounded-xl border border-slate-100 text-sm space-y-1 mb-4">
+          <p><span className="text-slate-500">Patient:</span> <span className="font-semibold text-slate-800">{prescription.patientName}</span></p>
+          <p><span className="text-slate-500">Doctor:</span> <span className="font-semibold text-slate-800">{prescription.doctorName}</span>, {prescription.clinic}</p>
+          <p><span className="text-slate-500">Dated:</span> {prescription.prescriptionDate}</p>
+          <p><span className="text-slate-500">Items:</span> {productNames.join(', ')}</p>
+          {prescription.photo && <img src={prescription.photo} alt="Prescription" className="mt-2 w-full max-h-48 object-contain rounded-lg border border-slate-200 bg-white" />}
+        </div>
+
+        {!isPharmacist && (
+          <div className="space-y-3">
+            <Input label="Pharmacist ID or Email" value={creds.login} onChange={(e: any) => { setCreds({ ...creds, login: e.target.value }); setError(''); }} autoFocus />
+            <Input label="PIN" type="password" value={creds.pin} onChange={(e: any) => { setCreds({ ...creds, pin: e.target.value }); setError(''); }} />
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+            <AlertCircle size={16} className="shrink-0" /> {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <Button variant="outline" className="flex-1" onClick={onCancel}>Cancel</Button>
+          <Button variant="primary" className="flex-1 bg-emerald-600 hover:bg-emerald-700" onClick={handleVerify}>
+            {isPharmacist ? `Verify as ${user?.name}` : 'Verify'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { FileText, PlayCircle, Printer, Trash2, X, User, Clock, AlertCircle } from 'lucide-react';
+import { Button, Badge } from './UI';
+import { useCartStore, useQuotationStore, useAuthStore, useSettingsStore, useBranchStore } from '../store';
+import { Quotation, QuotedPriceChange } from '../types';
+import { getDefaultValidUntil, isQuotationExpired } from '../utils/quotations';
+import { printQuotation } from '../utils/printer';
+
+interface QuotationsModalProps {
+  onClose: () => void;
+}
+
+/**
+ * Status badge shared by the POS and distribution quotation lists
+ */
+export const QuotationStatus = ({ quotation }: { quotation: Quotation }) => {
+  if (quotation.status === 'CONVERTED') return <Badge variant="success">{quotation.convertedTo}</Badge>;
+  if (isQuotationExpired(quotation)) return <Badge variant="neutral">Expired</Badge>;
+  return <Badge variant="info">Valid to {quotation.validUntil}</Badge>;
+};
+
+/**
+ * Lines whose price moved since the quote, shown after converting
+ */
+export const PriceChangeList = ({ changes, missing }: { changes: QuotedPriceChange[]; missing: string[] }) => (
+  <div className="p-3 rounded-xl text-xs bg-amber-50 text-amber-800 border border-amber-200 space-y-1">
+    <p className="font-bold">Prices were checked against today's prices</p>
+    {changes.map(c => (
+      <p key={c.name}>{c.name}: {c.quoted.toLocaleString()} → <span className="font-bold">{c.current.toLocaleString()} Ks</span></p>
+    ))}
+    {missing.length > 0 && <p className="text-red-700">No longer sold here, left out: {missing.join(', ')}</p>}
+  </div>
+);
+
+/**
+ * Quotations
+ * Saves the active cart as a printable price quote without touching stock, and turns a quote
+ * back into a sale with every line re-priced. The quote is closed when that sale is charged.
+ */
+const QuotationsModal = ({ onClose }: QuotationsModalProps) => {
+  const { items, customer } = useCartStore();
+  const { quotations, quoteCart, loadIntoCart, deleteQuotation } = useQuotationStore();
+  const { settings } = useSettingsStore();
+  const { getCurrentBranch } = useBranchStore();
+  const { user } = useAuthStore();
+
+  const [name, setName] = useState('');
+  const [validUntil, setValidUntil] = useState(getDefaultValidUntil());
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [repriced, setRepriced] = useState<{ changes: QuotedPriceChange[]; missing: string[] } | null>(null);
+
+  const posQuotations = quotations.filter(q => q.source === 'POS');
+
+  const handleSave = async () => {
+    if (saving) return;
+    if (!validUntil || validUntil < new Date().toISOString().split('T')[0]) {
+      setError('Valid-until date cannot be in the past.');
+      return;
+    }
+    setSaving(true);
+    const quotation = await quoteCart(name, validUntil, user?.name || 'Unknown');
+    setSaving(false);
+    if (!quotation) {
+      setError('The current cart is empty.');
+      return;
+    }
+    printQuotation(quotation, settings, getCurrentBranch());
+    onClose();
+  };
+
+  const handleConvert = (id: string) => {
+    const result = loadIntoCart(id);
+    if (!result.success) {
+      setError(result.error || 'Could not convert the quotation.');
+      return;
+    }
+    if (result.changes?.length || result.missing?.length) {
+      setRepriced({ changes: result.changes || [], missing: result.missing || [] });
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="font-bold text-xl text-slate-800 flex items-center gap-2">
+            <FileText size={20} className="text-indigo-500" /> Quotations
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1 rounded-full hover:bg-slate-200 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {repriced ? (
+            <>
+              <PriceChangeList changes={repriced.changes} missing={repriced.missing} />
+              <Button variant="primary" className="w-full" onClick={onClose}>Continue to Sale</Button>
+            </>
+          ) : (
+            <>
+              {items.length > 0 && (
+                <div className="p-4 bg-indigo-50/50 border border-indigo-100 rounded-xl space-y-3">
+                  <p className="text-sm font-medium text-slate-700">Quote current cart ({items.length} lines) · stock is not reserved</p>
+                  <input
+                    autoFocus
+                    value={name}
+                    onChange={(e) => { setName(e.target.value); setError(''); }}
+                    placeholder={customer?.name || 'Clinic or customer name'}
+                    className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                  />
+                  <div className="flex gap-2 items-center">
+                    <label className="text-xs text-slate-500 shrink-0">Valid until</label>
+                    <input
+                      type="date"
+                      value={validUntil}
+                      onChange={(e) => { setValidUntil(e.target.value); setError(''); }}
+                      className="flex-1 px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                    />
+                    <Button variant="primary" onClick={handleSave} disabled={saving} className="gap-1.5">
+                      <Printer size={16} /> Save & Print
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {error && (
+                <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+                  <AlertCircle size={16} className="shrink-0" /> {error}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {posQuotations.map(q => {
+                  const convertible = q.status === 'OPEN' && !isQuotationExpired(q);
+                  return (
+                    <div key={q.id} className="flex items-center justify-between gap-3 p-3 border border-slate-200 rounded-xl hover:border-blue-200 transition-colors">
+                      <div className="min-w-0">
+                        <p className="font-semibold text-slate-800 truncate">{q.customerName}</p>
+                        <div className="flex flex-wrap items-center gap-x-3 text-xs text-slate-500 mt-0.5">
+                          <span className="font-mono">{q.id}</span>
+                          <span className="flex items-center gap-1"><Clock size={10} /> {new Date(q.createdAt).toLocaleDateString()}</span>
+                          {q.customer && <span className="flex items-center gap-1"><User size={10} /> {q.customer.name}</span>}
+                          <span>{(q.items || []).length} lines · {q.total.toLocaleString()} Ks</span>
+                        </div>
+                        <div className="mt-1"><QuotationStatus quotation={q} /></div>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {convertible && (
+                          <button
+                            onClick={() => handleConvert(q.id)}
+                            disabled={items.length > 0}
+                            className="px-3 py-1.5 text-xs font-bold rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-200 disabled:text-slate-400 flex items-center gap-1"
+                            title={items.length > 0 ? 'Park or clear the current sale first' : 'Convert to sale'}
+                          >
+                            <PlayCircle size={14} /> Sell
+                          </button>
+                        )}
+                        <button
+                          onClick={() => printQuotation(q, settings, getCurrentBranch())}
+                          className="p-1.5 text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded transition-colors"
+                          title="Print"
+                        >
+                          <Printer size={16} />
+                        </button>
+                        {q.status === 'OPEN' && (
+                          <button
+                            onClick={() => { if (confirm(`Delete quotation ${q.id}?`)) deleteQuotation(q.id, user?.name || 'Unknown'); }}
+                            className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded transition-colors"
+                            title="Delete"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+                {posQuotations.length === 0 && (
+                  <p className="text-center text-sm text-slate-400 py-6">No quotations at this branch.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuotationsModal;
@@ -1,35 +1,78 @@
-import React, { useState } from 'react';
-import { Keyboard, ChevronDown } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Keyboard, ChevronDown, AlertTriangle } from 'lucide-react';
+import { useShortcutStore } from '../store';
+import { SHORTCUT_ACTIONS } from '../types';
+import { findShortcutConflicts, getShortcutKey, normalizeKey } from '../utils/shortcuts';
 
-const shortcuts = [
-  { key: 'F1', label: 'Help', mm: 'အကူအညီ' },
-  { key: 'F2', label: 'Search Product', mm: 'ဆေးရှာရန်' },
-  { key: 'F3', label: 'Scan Barcode', mm: 'ဘားကုတ် ဖတ်ရန်' },
-  { key: 'F4', label: 'Manual Input', mm: 'လက်ဖြင့် ရိုက်ရန်' },
-  { key: 'F8', label: 'View History', mm: 'မှတ်တမ်း ကြည့်ရန်' },
-  { key: 'F10', label: 'Confirm & Save', mm: 'အတည်ပြုပြီး သိမ်းရန်' },
-  { key: 'ESC', label: 'Cancel / Back', mm: 'ပယ်ဖျက် / ပြန်ထွက်' },
-];
+/**
+ * Registers a page's shortcut handlers while it is mounted.
+ * Handlers are read through a ref, so they always see the page's latest state.
+ */
+export const useShortcuts = (handlers: Record<string, () => void>) => {
+  const latest = useRef(handlers);
+  latest.current = handlers;
 
+  useEffect(() => {
+    const ids = Object.keys(latest.current);
+    const { register, unregister } = useShortcutStore.getState();
+    register(Object.fromEntries(ids.map(id => [id, () => latest.current[id]?.()])));
+    return () => unregister(ids);
+  }, []);
+};
+
+// While a field has focus only function keys, ESC and Ctrl/Alt combinations are shortcuts
+const isTypingKey = (e: KeyboardEvent, key: string) => {
+  const target = e.target as HTMLElement | null;
+  const editable = !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+  return editable && !/^F\d+$/.test(key) && key !== 'ESC' && !key.startsWith('CTRL+') && !key.startsWith('ALT+');
+};
+
+/**
+ * Global Shortcut Engine
+ * One keydown listener for the whole app, dispatching to whatever the current page registered.
+ * The panel lists the shortcuts live on this page and flags any that share a key.
+ */
 const ShortcutPanel = () => {
   const [isOpen, setIsOpen] = useState(false);
+  const { handlers, bindings } = useShortcutStore();
+
+  useShortcuts({ 'global.help': () => setIsOpen(open => !open) });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = normalizeKey(e);
+      if (!key || isTypingKey(e, key)) return;
+      const state = useShortcutStore.getState();
+      const action = SHORTCUT_ACTIONS.find(a => state.handlers[a.id] && getShortcutKey(a, state.bindings) === key);
+      if (!action) return;
+      e.preventDefault();
+      state.handlers[action.id]();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const live = SHORTCUT_ACTIONS.filter(a => handlers[a.id]);
+  const conflictIds = new Set(findShortcutConflicts(bindings, live).flatMap(c => c.actions.map(a => a.id)));
 
   if (!isOpen) {
     return (
-      <button 
+      <button
         onClick={() => setIsOpen(true)}
         className="fixed bottom-6 right-6 bg-slate-800 text-white p-3.5 rounded-full shadow-xl hover:bg-slate-700 transition-all z-[60] hover:scale-105 active:scale-95 group"
         title="Show Keyboard Shortcuts"
       >
         <Keyboard size={24} className="group-hover:text-blue-200 transition-colors" />
+        {conflictIds.size > 0 && <span className="absolute top-0 right-0 w-3 h-3 bg-red-500 rounded-full border-2 border-white" />}
       </button>
     );
   }
 
   return (
     <div className="fixed bottom-6 right-6 bg-white/95 backdrop-blur-md shadow-2xl border border-slate-200 rounded-2xl w-80 overflow-hidden z-[60] animate-in slide-in-from-bottom-5 fade-in duration-300">
-      <div 
-        className="bg-slate-800 text-white px-4 py-3.5 flex justify-between items-center cursor-pointer hover:bg-slate-900 transition-colors" 
+      <div
+        className="bg-slate-800 text-white px-4 py-3.5 flex justify-between items-center cursor-pointer hover:bg-slate-900 transition-colors"
         onClick={() => setIsOpen(false)}
       >
         <div className="flex items-center gap-2.5">
@@ -40,25 +83,31 @@ const ShortcutPanel = () => {
         </div>
         <ChevronDown size={16} />
       </div>
-      
+
+      {conflictIds.size > 0 && (
+        <div className="px-4 py-2 bg-red-50 text-red-700 text-[11px] flex items-center gap-1.5 border-b border-red-100">
+          <AlertTriangle size={12} className="shrink-0" /> Some keys are bound twice; only the first action runs.
+        </div>
+      )}
+
       <div className="p-1 grid gap-0.5 max-h-[350px] overflow-y-auto">
-         {shortcuts.map((s, idx) => (
-           <div key={s.key} className={`flex items-center justify-between px-4 py-2.5 hover:bg-slate-50 rounded-lg group transition-colors ${idx !== shortcuts.length - 1 ? 'border-b border-slate-50' : ''}`}>
+         {live.map((s, idx) => (
+           <div key={s.id} className={`flex items-center justify-between px-4 py-2.5 hover:bg-slate-50 rounded-lg group transition-colors ${idx !== live.length - 1 ? 'border-b border-slate-50' : ''}`}>
               <div>
-                 <p className="text-xs font-bold text-slate-700">{s.label}</p>
+                 <p className={`text-xs font-bold ${conflictIds.has(s.id) ? 'text-red-600' : 'text-slate-700'}`}>{s.label}</p>
                  <p className="text-[10px] text-slate-500 font-mm mt-0.5">{s.mm}</p>
               </div>
-              <kbd className="bg-slate-100 border-b-2 border-slate-300 rounded-lg px-2 py-1 text-xs font-bold text-slate-700 font-mono min-w-[2.5rem] text-center shadow-sm group-hover:bg-white group-hover:border-blue-300 transition-all">
-                 {s.key}
+              <kbd className={`bg-slate-100 border-b-2 rounded-lg px-2 py-1 text-xs font-bold font-mono min-w-[2.5rem] text-center shadow-sm group-hover:bg-white transition-all ${conflictIds.has(s.id) ? 'border-red-400 text-red-600' : 'border-slate-300 text-slate-700 group-hover:border-blue-300'}`}>
+                 {getShortcutKey(s, bindings)}
               </kbd>
            </div>
          ))}
       </div>
       <div className="bg-slate-50 px-4 py-2 text-[10px] text-slate-400 text-center border-t border-slate-100">
-         Press keys to trigger actions
+         Press keys to trigger actions · <Link to="/settings?tab=shortcuts" onClick={() => setIsOpen(false)} className="text-blue-600 hover:underline">Customize</Link>
       </div>
     </div>
   );
 };
 
-export default ShortcutPanel;
\ No newline at end of file
+export default ShortcutPanel;
@@ -1,4 +1,4 @@
-import { Product, Role, User, Customer, Transaction, DistributionOrder, PurchaseOrder, Expense, Payable, Receivable, Supplier } from './types';
+import { Product, Role, User, Customer, Transaction, DistributionOrder, PurchaseOrder, Expense, Payable, Receivable, Supplier, Promotion, AppSettings, LoyaltyRules, PriceList, InteractionRule, QuantityLimit } from './types';
 
 // Branches
 // b1: Parami(1) Dawei
@@ -10,7 +10,8 @@ export const mockUsers: User[] = [
     name: 'Kaung Kaung',
     email: 'admin@parami.com',
     role: Role.ADMIN,
-    avatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=200&h=200&fit=crop'
+    avatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=200&h=200&fit=crop',
+    pin: '1234'
   },
   {
     id: 'u2',
@@ -18,7 +19,17 @@ export const mockUsers: User[] = [
     email: 'pos@parami.com',
     role: Role.CASHIER,
     avatar: 'https://i.pravatar.cc/150?u=a042581f4e29026704d',
-    branchId: 'b1'
+    branchId: 'b1',
+    pin: '0000'
+  },
+  {
+    id: 'u3',
+    name: 'Daw Thandar',
+    email: 'pharmacist@parami.com',
+    role: Role.PHARMACIST,
+    avatar: 'https://i.pravatar.cc/150?u=a04258a2462d826712d',
+    branchId: 'b1',
+    pin: '2468'
   }
 ];
 
@@ -26,8 +37,8 @@ export const mockCustomers: Customer[] = [
   { id: 'c1', name: 'U Ba Maung', phone: '095123456', points: 1250, tier: 'Gold', branchId: 'b1' },
   { id: 'c2', name: 'Daw Hla', phone: '097987654', points: 450, tier: 'Silver', branchId: 'b1' },
   { id: 'c3', name: 'Ko Aung', phone: '092500112', points: 2100, tier: 'Platinum', branchId: 'b2' },
-  { id: 'c4', name: 'City Clinic', phone: '099999999', points: 5000, tier: 'Platinum', branchId: 'b1' },
-  { id: 'c5', name: 'Royal Hospital', phone: '098888888', points: 12000, tier: 'Platinum', branchId: 'b2' }
+  { id: 'c4', name: 'City Clinic', phone: '099999999', points: 5000, tier: 'Platinum', priceListId: 'pl-wholesale', branchId: 'b1' },
+  { id: 'c5', name: 'Royal Hospital', phone: '098888888', points: 12000, tier: 'Platinum', priceListId: 'pl-hospital', branchId: 'b2' }
 ];
 
 export const mockProducts: Product[] = [
@@ -40,16 +51,20 @@ export const mockProducts: Product[] = [
     genericName: 'Paracetamol',
     category: 'Analgesics',
     description: 'Relieves pain and fever',
-    price: 500,
+    price: 50,
     image: 'https://images.unsplash.com/photo-1584308666744-24d5c474f2ae?auto=format&fit=crop&q=80&w=200',
-    stockLevel: 150,
-    minStockLevel: 50,
+    stockLevel: 1500,
+    minStockLevel: 500,
     requiresPrescription: false,
     branchId: 'b1',
-    unit: 'STRIP',
+    unit: 'TABLET',
+    packUnits: [
+      { unit: 'STRIP', factor: 10, price: 500 },
+      { unit: 'BOX', factor: 100, price: 4800 }
+    ],
     batches: [
-      { id: 'batch1', batchNumber: 'B001', expiryDate: '2025-12-31', quantity: 100, costPrice: 300 },
-      { id: 'batch2', batchNumber: 'B002', expiryDate: '2024-06-30', quantity: 50, costPrice: 320 }
+      { id: 'batch1', batchNumber: 'B001', expiryDate: '2025-12-31', quantity: 1000, costPrice: 30 },
+      { id: 'batch2', batchNumber: 'B002', expiryDate: '2024-06-30', quantity: 500, costPrice: 32 }
     ]
   },
   {
@@ -197,4 +212,71 @@ export const mockPayables: Payable[] = [
 
 export const mockReceivables: Receivable[] = [
     { id: 'rc1', customerName: 'City Mart', orderId: 'ord1', amount: 150000, dueDate: '2024-03-20', status: 'NORMAL', branchId: 'b1' }
-];
\ No newline at end of file
+];
+
+export const mockPromotions: Promotion[] = [
+    { id: 'promo1', name: 'Gold Member 3%', type: 'TIER_PERCENT', tier: 'Gold', percent: 3, active: true },
+    { id: 'promo2', name: 'Platinum Member 5%', type: 'TIER_PERCENT', tier: 'Platinum', percent: 5, active: true },
+    { id: 'promo3', name: 'Vitamin Week 10%', type: 'CATEGORY_PERCENT', category: 'Vitamins', percent: 10, active: false, startDate: '2026-11-01', endDate: '2026-11-07' }
+];
+
+// 1 point per 1,000 Ks spent, 1 point = 10 Ks at redemption
+export const defaultLoyaltyRules: LoyaltyRules = {
+    enabled: true,
+    kyatsPerPoint: 1000,
+    pointValue: 10,
+    minRedeemPoints: 50,
+    excludedCategories: [],
+    tiers: [
+        { tier: 'Silver', minPoints: 0, earnMultiplier: 1 },
+        { tier: 'Gold', minPoints: 1000, earnMultiplier: 1.5 },
+        { tier: 'Platinum', minPoints: 2000, earnMultiplier: 2 }
+    ]
+};
+
+// Customers without a price list buy at retail (Product.price)
+export const mockPriceLists: PriceList[] = [
+    { id: 'pl-wholesale', name: 'Wholesale', percentOff: 10, entries: [] },
+    { id: 'pl-hospital', name: 'Hospital', percentOff: 15, entries: [{ sku: '8850123456789', price: 40 }] }
+];
+
+// Starter interaction rules; pharmacists extend these in Settings
+export const defaultInteractionRules: InteractionRule[] = [
+    { id: 'ir1', genericA: 'Warfarin', genericB: 'Aspirin', severity: 'MAJOR', note: 'Raised bleeding risk. Avoid unless the prescriber has approved.' },
+    { id: 'ir2', genericA: 'Warfarin', genericB: 'Paracetamol', severity: 'MODERATE', note: 'Regular use can raise INR. Advise occasional use only.' },
+    { id: 'ir3', genericA: 'Clopidogrel', genericB: 'Omeprazole', severity: 'MAJOR', note: 'Omeprazole reduces the effect of clopidogrel. Suggest pantoprazole.' },
+    { id: 'ir4', genericA: 'Amoxicillin', genericB: 'Methotrexate', severity: 'MAJOR', note: 'Amoxicillin can raise methotrexate levels.' },
+    { id: 'ir5', genericA: 'Ibuprofen', genericB: 'Aspirin', severity: 'MODERATE', note: 'Ibuprofen blunts the heart protection of low-dose aspirin; take aspirin first.' }
+];
+
+// Quantity limits in base units (tablets / capsules)
+export const defaultQuantityLimits: QuantityLimit[] = [
+    { id: 'ql1', scope: 'CATEGORY', target: 'Antibiotics', maxPerSale: 30, maxPerPeriod: 60, periodDays: 30, action: 'ESCALATE' },
+    { id: 'ql2', scope: 'PRODUCT', target: '8850123456789', maxPerSale: 100, periodDays: 30, action: 'BLOCK' }
+];
+
+export const defaultSettings: AppSettings = {
+    companyName: 'Parami Pharmacy',
+    taxId: '',
+    phone: '09-420012345',
+    email: 'info@parami.com',
+    address: 'No. 45, Arzarni Road, Dawei',
+    language: 'English',
+    shopNameReceipt: 'ပါရမီ ဆေးဆိုင် / Parami Pharmacy',
+    receiptFooter: 'ကျေးဇူးတင်ပါသည် - Thank you!',
+    pricesIncludeTax: true,
+    defaultTaxRate: 0,
+    taxRates: [],
+    resetNumbersYearly: true,
+    paperSize: '80mm (Standard Thermal)',
+    defaultPrinter: 'System Default',
+    autoPrint: false,
+    receiptLanguage: 'BOTH',
+    showBatchOnReceipt: true,
+    showImages: true,
+    lowStockLimit: 10,
+    expiryWarningDays: 90,
+    enableEmailReports: false,
+    enableCriticalAlerts: true,
+    notificationEmail: ''
+};
@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ShoppingBag, CheckCircle2 } from 'lucide-react';
+import { openDisplayChannel, DisplayBranding, DisplayCart, DisplayMessage } from '../utils/customerDisplay';
+
+// How long the thank-you screen stays up before going back to idle
+const THANK_YOU_MS = 8000;
+
+const BrandHeader = ({ branding, large }: { branding: DisplayBranding; large?: boolean }) => (
+  <div className={`flex flex-col items-center ${large ? 'gap-6' : 'gap-2'}`}>
+    {branding.logoUrl ? (
+      <img src={branding.logoUrl} alt={branding.shopName} className={`${large ? 'h-40' : 'h-12'} object-contain`} />
+    ) : (
+      <div className={`${large ? 'w-32 h-32' : 'w-12 h-12'} rounded-full bg-white/10 flex items-center justify-center`}>
+        <ShoppingBag size={large ? 64 : 24} />
+      </div>
+    )}
+    <div className="text-center">
+      <p className={`font-bold font-mm ${large ? 'text-4xl' : 'text-lg'}`}>{branding.shopName}</p>
+      {branding.branchName && <p className={`opacity-70 ${large ? 'text-xl mt-2' : 'text-sm'}`}>{branding.branchName}</p>}
+    </div>
+  </div>
+);
+
+/**
+ * Customer Display
+ * Runs in its own window on the customer-facing monitor and mirrors the POS cart.
+ * Everything arrives over the display channel from the POS window on the same machine.
+ */
+const CustomerDisplay = () => {
+  const [branding, setBranding] = useState<DisplayBranding>({ shopName: 'ပါရမီ ဆေးဆိုင် / Parami Pharmacy' });
+  const [cart, setCart] = useState<DisplayCart | null>(null);
+  const [paid, setPaid] = useState<{ total: number; paid: number; change: number } | null>(null);
+  const paidTimer = useRef<number>();
+  const [unsupported, setUnsupported] = useState(false);
+
+  useEffect(() => {
+    const channel = openDisplayChannel();
+    if (!channel) {
+      setUnsupported(true);
+      return;
+    }
+
+    channel.onmessage = (e: MessageEvent<DisplayMessage>) => {
+      const message = e.data;
+      if (message.type === 'CART') {
+        setBranding(message.branding);
+        setCart(message.cart);
+        // The POS clears the cart right after payment; keep thanking the customer until the next sale starts
+        if (message.cart.lines.length > 0) setPaid(null);
+      }
+      if (message.type === 'PAID') {
+        setBranding(message.branding);
+        setPaid({ total: message.total, paid: message.paid, change: message.change });
+        window.clearTimeout(paidTimer.current);
+        paidTimer.current = window.setTimeout(() => setPaid(null), THANK_YOU_MS);
+      }
+    };
+    channel.postMessage({ type: 'HELLO' } as DisplayMessage);
+
+    return () => {
+      window.clearTimeout(paidTimer.current);
+      channel.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    document.title = `${branding.shopName} - Customer Display`;
+  }, [branding.shopName]);
+
+  if (paid) {
+    return (
+      <div className="h-screen bg-gradient-to-br from-emerald-600 to-emerald-800 text-white flex flex-col items-center justify-center gap-10 p-10">
+        <CheckCircle2 size={96} />
+        <div className="text-center">
+          <p className="text-5xl font-bold">Thank you!</p>
+          <p className="text-3xl font-mm mt-3">ကျေးဇူးတင်ပါသည်</p>
+        </div>
+        <div className="bg-white/10 rounded-3xl px-12 py-8 grid grid-cols-2 gap-x-12 gap-y-4 text-2xl">
+          <span className="opacity-80">Total <span className="font-mm">ကျသင့်ငွေ</span></span>
+          <span className="text-right font-bold">{paid.total.toLocaleString()} Ks</span>
+          <span className="opacity-80">Paid <span className="font-mm">ပေးငွေ</span></span>
+          <span className="text-right font-bold">{paid.paid.toLocaleString()} Ks</span>
+          <span className="opacity-80">Change <span className="font-mm">ပြန်အမ်းငွေ</span></span>
+          <span className="text-right font-bold text-4xl">{paid.change.toLocaleString()} Ks</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!cart || cart.lines.length === 0) {
+    return (
+      <div className="h-screen bg-gradient-to-br from-a7 to-a7-800 text-white flex flex-col items-center justify-center gap-12 p-10">
+        <BrandHeader branding={branding} large />
+        <p className="text-2xl opacity-80">Welcome <span className="font-mm">ကြိုဆိုပါသည်</span></p>
+        {unsupported && <p className="text-sm opacity-70">This browser cannot receive the cart. Use a recent Chrome, Edge or Firefox.</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen bg-slate-50 flex flex-col">
+      <div className="bg-gradient-to-r from-a7 to-a7-800 text-white px-8 py-4 flex items-center justify-between">
+        <BrandHeader branding={branding} />
+        {cart.customerName && <p className="text-lg">Welcome, <span className="font-bold">{cart.customerName}</span></p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-8 py-6">
+        <table className="w-full text-left">
+          <thead className="text-slate-400 text-sm uppercase tracking-wider border-b border-slate-200">
+            <tr>
+              <th className="py-3">Item <span className="font-mm normal-case">ပစ္စည်း</span></th>
+              <th className="py-3 text-right">Qty <span className="font-mm normal-case">အရေအတွက်</span></th>
+              <th className="py-3 text-right">Price <span className="font-mm normal-case">ဈေးနှုန်း</span></th>
+              <th className="py-3 text-right">Amount <span className="font-mm normal-case">ကျသင့်ငွေ</span></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 text-xl">
+            {cart.lines.map((line, idx) => (
+              <tr key={idx}>
+                <td className="py-4">
+                  <p className="font-semibold text-slate-800 font-mm">{line.nameMm}</p>
+                  <p className="text-base text-slate-500">{line.nameEn}</p>
+                </td>
+                <td className="py-4 text-right text-slate-700">{line.quantity}{line.unit ? ` ${line.unit}` : ''}</td>
+                <td className="py-4 text-right text-slate-600">{line.price.toLocaleString()}</td>
+                <td className="py-4 text-right font-bold text-slate-900">
+                  {line.amount.toLocaleString()}
+                  {line.discount > 0 && <p className="text-sm font-normal text-emerald-600">-{line.discount.toLocaleString()}</p>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white border-t border-slate-200 px-8 py-6 space-y-2 text-xl">
+        {cart.discountTotal > 0 && (
+          <>
+            <div className="flex justify-between text-slate-500">
+              <span>Subtotal <span className="font-mm">စုစုပေါင်း</span></span>
+              <span>{cart.subtotal.toLocaleString()} Ks</span>
+            </div>
+            <div className="flex justify-between text-emerald-600">
+              <span>Discount <span className="font-mm">လျှော့ဈေး</span></span>
+              <span>-{cart.discountTotal.toLocaleString()} Ks</span>
+            </div>
+          </>
+        )}
+        {cart.taxTotal > 0 && (
+          <div className="flex justify-between text-slate-500">
+            <span>{cart.pricesIncludeTax ? 'Tax included' : 'Tax'} <span className="font-mm">အခွန်</span></span>
+            <span>{cart.pricesIncludeTax ? '' : '+'}{cart.taxTotal.toLocaleString()} Ks</span>
+          </div>
+        )}
+        <div className="flex justify-between text-4xl font-bold text-slate-900 pt-3 border-t border-dashed border-slate-200">
+          <span>Total <span className="font-mm text-3xl">ပေးရန်</span></span>
+          <span>{cart.total.toLocaleString()} Ks</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerDisplay;
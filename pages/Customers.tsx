@@ -1,13 +1,127 @@
 
 import React, { useState, useMemo } from 'react';
 import { Card, Badge, Button, Input } from '../components/UI';
-import { useCustomerStore } from '../store';
+import { useCustomerStore, useAuthStore, useLoyaltyStore, usePriceListStore } from '../store';
 import { Search, UserPlus, Star, Phone, History, Edit2, Trash2, X, Save, Plus, Filter, Loader2, AlertCircle, Check } from 'lucide-react';
-import { Customer } from '../types';
+import { Customer, PointsEntryType } from '../types';
+
+const ENTRY_BADGE: Record<PointsEntryType, 'success' | 'warning' | 'danger' | 'neutral'> = {
+  EARN: 'success',
+  REDEEM: 'warning',
+  REVERSAL: 'danger',
+  ADJUST: 'neutral'
+};
+
+/**
+ * Points Ledger
+ * Every earn and burn for one customer, with manual adjustments that need a note.
+ */
+const PointsLedgerModal = ({ customer, onClose }: { customer: Customer, onClose: () => void }) => {
+  const { ledger, postPoints } = useCustomerStore();
+  const { user } = useAuthStore();
+  const live = useCustomerStore(state => state.allCustomers.find(c => c.id === customer.id)) || customer;
+  const [adjustment, setAdjustment] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const entries = ledger.filter(e => e.customerId === customer.id);
+
+  const handleAdjust = () => {
+    const points = parseInt(adjustment);
+    if (!points) {
+      setError('Enter the points to add (or a negative number to deduct).');
+      return;
+    }
+    if (!note.trim()) {
+      setError('A note is required for manual adjustments.');
+      return;
+    }
+    const result = postPoints(customer.id, points, 'ADJUST', { note: note.trim(), by: user?.name || 'Unknown' });
+    if (!result.success) {
+      setError(result.error || 'Could not adjust points');
+      return;
+    }
+    setAdjustment('');
+    setNote('');
+    setError('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-3xl rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h3 className="font-bold text-xl text-slate-800 flex items-center gap-2"><History size={20} className="text-blue-600" /> Points Ledger</h3>
+            <p className="text-xs text-slate-500 mt-0.5">{live.name} · {live.tier} Member · <span className="font-bold text-amber-600">{live.points.toLocaleString()} pts</span></p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 w-8 h-8 flex items-center justify-center rounded-full hover:bg-slate-200 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider font-semibold border-b border-slate-200 sticky top-0">
+              <tr>
+                <th className="px-6 py-3">Date</th>
+                <th className="px-6 py-3">Type</th>
+                <th className="px-6 py-3">Reference</th>
+                <th className="px-6 py-3 text-right">Points</th>
+                <th className="px-6 py-3 text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {entries.map(e => (
+                <tr key={e.id} className="hover:bg-slate-50/80">
+                  <td className="px-6 py-3 text-slate-500 whitespace-nowrap">{new Date(e.date).toLocaleString()}</td>
+                  <td className="px-6 py-3"><Badge variant={ENTRY_BADGE[e.type]}>{e.type}</Badge></td>
+                  <td className="px-6 py-3 text-slate-600">
+                    <span className="font-mono text-xs">{e.reference || '—'}</span>
+                    {e.note && <p className="text-xs text-slate-400">{e.note}</p>}
+                    <p className="text-[10px] text-slate-400">by {e.by}</p>
+                  </td>
+                  <td className={`px-6 py-3 text-right font-bold ${e.points > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                    {e.points > 0 ? '+' : ''}{e.points.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-3 text-right text-slate-700">
+                    {e.balanceAfter.toLocaleString()}
+                    <p className="text-[10px] text-slate-400">{e.tierAfter}</p>
+                  </td>
+                </tr>
+              ))}
+              {entries.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-10 text-center text-slate-400">No points activity yet.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 space-y-3">
+          {error && (
+            <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+              <AlertCircle size={16} className="shrink-0" /> {error}
+            </div>
+          )}
+          <div className="flex gap-2 items-end">
+            <Input label="Adjust Points" type="number" value={adjustment} onChange={(e: any) => { setAdjustment(e.target.value); setError(''); }} containerClassName="w-40" placeholder="e.g. 100 or -50" />
+            <Input label="Note" value={note} onChange={(e: any) => { setNote(e.target.value); setError(''); }} placeholder="Reason for the adjustment" />
+            <Button variant="primary" onClick={handleAdjust} className="shrink-0 h-[46px]"><Plus size={16} /> Post</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
 
 const Customers = () => {
   // Use global store
-  const { customers, addCustomer, updateCustomer, deleteCustomer } = useCustomerStore();
+  const { customers, addCustomer, updateCustomer, deleteCustomer, postPoints } = useCustomerStore();
+  const { user } = useAuthStore();
+  const { rules } = useLoyaltyStore();
+  const { priceLists } = usePriceListStore();
+  const [ledgerCustomer, setLedgerCustomer] = useState<Customer | null>(null);
   
   // State for Modal and Editing
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -96,9 +210,11 @@ const Customers = () => {
     }
 
     if (editingCustomer) {
-      updateCustomer(editingCustomer.id, formData);
+      updateCustomer(editingCustomer.id, { name: formData.name, phone: formData.phone, priceListId: formData.priceListId });
     } else {
-      addCustomer(formData);
+      // Opening balance goes through the ledger like every other points movement
+      addCustomer({ ...formData, points: 0 });
+      if (formData.points > 0) postPoints(formData.id, formData.points, 'ADJUST', { note: 'Opening balance', by: user?.name || 'Unknown' });
     }
     setIsModalOpen(false);
   };
@@ -158,6 +274,7 @@ const Customers = () => {
                 <th className="px-6 py-4">Customer Name</th>
                 <th className="px-6 py-4">Contact Info</th>
                 <th className="px-6 py-4">Loyalty Tier</th>
+                <th className="px-6 py-4">Price List</th>
                 <th className="px-6 py-4">Points Balance</th>
                 <th className="px-6 py-4 text-right">Actions</th>
               </tr>
@@ -186,6 +303,9 @@ const Customers = () => {
                         {c.tier} Member
                      </Badge>
                   </td>
+                  <td className="px-6 py-4 text-sm text-slate-600">
+                     {priceLists.find(l => l.id === c.priceListId)?.name || <span className="text-slate-400">Retail</span>}
+                  </td>
                   <td className="px-6 py-4">
                      <div className="flex items-center gap-1.5 text-amber-600 font-bold">
                         <Star size={16} fill="currentColor" />
@@ -194,6 +314,13 @@ const Customers = () => {
                   </td>
                   <td className="px-6 py-4 text-right">
                      <div className="flex items-center justify-end gap-2">
+                        <button 
+                          onClick={() => setLedgerCustomer(c)}
+                          className="p-1.5 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors" 
+                          title="Points Ledger"
+                        >
+                           <History size={16} />
+                        </button>
                         <button 
                           onClick={() => handleEdit(c)}
                           className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors" 
@@ -214,7 +341,7 @@ const Customers = () => {
               ))}
               {filteredCustomers.length === 0 && (
                 <tr>
-                   <td colSpan={5} className="px-6 py-12 text-center text-slate-400">
+                   <td colSpan={6} className="px-6 py-12 text-center text-slate-400">
                       No customers found.
                    </td>
                 </tr>
@@ -256,24 +383,44 @@ const Customers = () => {
                  <div className="grid grid-cols-2 gap-4">
                    <div>
                       <label className="block text-sm font-medium text-slate-700 mb-1.5">Loyalty Tier</label>
-                      <select 
-                        className="w-full px-4 py-2.5 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-a7/20"
-                        value={formData.tier}
-                        onChange={(e) => setFormData({...formData, tier: e.target.value as any})}
-                      >
-                         <option value="Silver">Silver</option>
-                         <option value="Gold">Gold</option>
-                         <option value="Platinum">Platinum</option>
-                      </select>
+                      <div className="px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-600">
+                         {formData.tier} <span className="text-xs text-slate-400">(set by points)</span>
+                      </div>
                    </div>
-                   <Input 
-                     label="Points Balance" 
-                     type="number"
-                     value={formData.points}
-                     onChange={(e: any) => setFormData({...formData, points: parseInt(e.target.value) || 0})}
-                     min="0"
-                   />
+                   {editingCustomer ? (
+                     <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1.5">Points Balance</label>
+                        <button
+                          onClick={() => { setIsModalOpen(false); setLedgerCustomer(editingCustomer); }}
+                          className="w-full px-4 py-2.5 bg-amber-50 border border-amber-200 rounded-lg text-sm font-bold text-amber-700 flex items-center justify-between hover:bg-amber-100"
+                        >
+                           {formData.points.toLocaleString()} pts <History size={14} />
+                        </button>
+                     </div>
+                   ) : (
+                     <Input 
+                       label="Opening Points" 
+                       type="number"
+                       value={formData.points}
+                       onChange={(e: any) => setFormData({...formData, points: parseInt(e.target.value) || 0})}
+                       min="0"
+                     />
+                   )}
+                 </div>
+                 <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1.5">Price List</label>
+                    <select
+                      className="w-full px-4 py-2.5 bg-white border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-a7/20"
+                      value={formData.priceListId || ''}
+                      onChange={(e) => setFormData({...formData, priceListId: e.target.value || undefined})}
+                    >
+                      <option value="">Retail</option>
+                      {priceLists.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                    </select>
                  </div>
+                 <p className="text-xs text-slate-400">
+                    Tiers: {rules.tiers.map(t => `${t.tier} from ${t.minPoints.toLocaleString()} pts`).join(' · ')}
+                 </p>
                  
                  {editingCustomer && (
                     <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
@@ -301,6 +448,8 @@ const Customers = () => {
         </div>
       )}
 
+      {ledgerCustomer && <PointsLedgerModal customer={ledgerCustomer} onClose={() => setLedgerCustomer(null)} />}
+
       {/* Delete Confirmation Modal */}
       {isDeleteModalOpen && customerToDelete && (
         <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-[60] flex items-center justify-center p-4 animate-in fade-in duration-200">
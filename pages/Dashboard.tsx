@@ -363,8 +363,8 @@ const Dashboard = () => {
                      <td className="px-6 py-4 font-mono text-slate-500 text-xs font-medium group-hover:text-slate-800 transition-colors">#{t.id}</td>
                      <td className="px-6 py-4 font-semibold text-slate-700">{t.description}</td>
                      <td className="px-6 py-4 text-slate-500 text-xs font-medium">{t.date}</td>
-                     <td className={`px-6 py-4 font-bold ${t.type === 'INCOME' ? 'text-emerald-600' : 'text-red-600'}`}>
-                       {t.type === 'INCOME' ? '+' : '-'}{t.amount.toLocaleString()} <span className="text-[10px] text-slate-400 font-normal ml-0.5">MMK</span>
+                     <td className={`px-6 py-4 font-bold ${t.type === 'INCOME' && t.amount >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                       {t.type === 'INCOME' && t.amount >= 0 ? '+' : '-'}{Math.abs(t.amount).toLocaleString()} <span className="text-[10px] text-slate-400 font-normal ml-0.5">MMK</span>
                      </td>
                      <td className="px-6 py-4">
                        <span className="inline-flex items-center px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-wide bg-slate-100 text-slate-600 border border-slate-200">
@@ -1,19 +1,38 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { Button, Input, Badge } from '../components/UI';
-import { useDistributionStore, useProductStore, useCustomerStore } from '../store';
-import { DistributionOrder, DistributionItem } from '../types';
-import { Truck, MapPin, Package, Clock, Search, Filter, Plus, X, Trash2, Save, Calendar, DollarSign, CreditCard, ShoppingBag, ChevronRight, Minus, Store, User, ChevronDown, AlertCircle } from 'lucide-react';
+import { useDistributionStore, useProductStore, useCustomerStore, usePriceListStore, useNumberingStore, useBranchStore, useAuthStore, useQuotationStore, useSettingsStore } from '../store';
+import { getProductListPrice } from '../utils/priceLists';
+import { getDefaultValidUntil, isQuotationExpired } from '../utils/quotations';
+import { printQuotation } from '../utils/printer';
+import { toUnicodeDeep } from '../utils/myanmar';
+import { QuotationStatus, PriceChangeList } from '../components/QuotationsModal';
+import { DistributionOrder, DistributionItem, Quotation, QuotedPriceChange } from '../types';
+import { Truck, MapPin, Package, Clock, Search, Filter, Plus, X, Trash2, Save, Calendar, DollarSign, CreditCard, ShoppingBag, ChevronRight, Minus, Store, User, ChevronDown, AlertCircle, FileText, Printer } from 'lucide-react';
 
 const Distribution = () => {
   // Use store
   const { orders, addOrder, updateOrder, deleteOrder } = useDistributionStore();
   const { products } = useProductStore();
   const { customers } = useCustomerStore();
+  const { priceLists } = usePriceListStore();
+  const { reserveNumber, voidNumber } = useNumberingStore();
+  const { currentBranchId, getCurrentBranch } = useBranchStore();
+  const { user } = useAuthStore();
+  const { quotations, quoteOrder, convertToOrder, deleteQuotation } = useQuotationStore();
+  const { settings } = useSettingsStore();
 
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingOrder, setEditingOrder] = useState<DistributionOrder | null>(null);
+  const [quotesOpen, setQuotesOpen] = useState(false);
+  const [quoteValidUntil, setQuoteValidUntil] = useState(getDefaultValidUntil());
+  const [quoteError, setQuoteError] = useState('');
+  const [saveError, setSaveError] = useState('');
+  const [convertingId, setConvertingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const saving = useRef(false); // Save clicked twice while an order or quote number was being reserved
+  const [converted, setConverted] = useState<{ reference: string; changes: QuotedPriceChange[]; missing: string[] } | null>(null);
 
   // Modal Form State
   const [formData, setFormData] = useState<DistributionOrder>({
@@ -37,13 +56,14 @@ const Distribution = () => {
     setEditingOrder(order);
     setFormData({ ...order }); 
     setErrors({});
+    setSaveError('');
     setIsModalOpen(true);
   };
 
   const handleNewOrder = () => {
     setEditingOrder(null);
     setFormData({
-      id: `ORD-${Date.now().toString().slice(-4)}`,
+      id: '', // Numbered on save so an abandoned draft does not use up a number
       customer: '',
       address: '',
       status: 'PENDING',
@@ -54,7 +74,9 @@ const Distribution = () => {
       itemsList: [],
       branchId: ''
     });
+    setQuoteValidUntil(getDefaultValidUntil());
     setErrors({});
+    setSaveError('');
     setIsModalOpen(true);
   };
 
@@ -72,23 +94,75 @@ const Distribution = () => {
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSave = () => {
-    if (!validateForm()) return;
+  const handleSave = async () => {
+    if (saving.current || !validateForm()) return;
 
     const calculatedTotal = formData.itemsList.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-    const finalData = { ...formData, total: calculatedTotal };
+    const finalData = toUnicodeDeep({ ...formData, total: calculatedTotal });
 
     if (editingOrder) {
       updateOrder(finalData);
     } else {
-      addOrder(finalData);
+      saving.current = true;
+      setIsSaving(true);
+      let number: string;
+      try {
+        number = await reserveNumber(currentBranchId, 'DO', { by: user?.name || 'Unknown' });
+      } catch {
+        setSaveError('Could not issue an order number. The order was not saved; try again.');
+        return;
+      } finally {
+        saving.current = false;
+        setIsSaving(false);
+      }
+      addOrder({ ...finalData, id: number });
     }
     setIsModalOpen(false);
   };
 
+  // A quote is the same draft, numbered from the quotation sequence; no order is created and stock is untouched
+  const handleSaveQuote = async () => {
+    if (saving.current || !validateForm()) return;
+    if (!quoteValidUntil || quoteValidUntil < new Date().toISOString().split('T')[0]) {
+      setErrors({ ...errors, items: 'Quote valid-until date cannot be in the past' });
+      return;
+    }
+    saving.current = true;
+    setIsSaving(true);
+    let quotation: Quotation;
+    try {
+      quotation = await quoteOrder(toUnicodeDeep(formData), quoteValidUntil, user?.name || 'Unknown');
+    } catch {
+      setSaveError('Could not issue a quotation number. The quote was not saved; try again.');
+      return;
+    } finally {
+      saving.current = false;
+      setIsSaving(false);
+    }
+    printQuotation(quotation, settings, getCurrentBranch());
+    setIsModalOpen(false);
+  };
+
+  const handleConvertQuote = async (id: string) => {
+    if (convertingId) return;
+    setConvertingId(id);
+    const result = await convertToOrder(id, user?.name || 'Unknown');
+    setConvertingId(null);
+    if (!result.success) {
+      setQuoteError(result.error || 'Could not convert the quotation.');
+      return;
+    }
+    setQuoteError('');
+    setConverted({ reference: result.reference || '', changes: result.changes || [], missing: result.missing || [] });
+  };
+
+  const distributionQuotes = quotations.filter(q => q.source === 'DISTRIBUTION');
+
   const handleDeleteOrder = () => {
     if (!editingOrder) return;
     if (window.confirm("Are you sure you want to delete this order permanently?")) {
+      // The order number stays in the register as void
+      voidNumber(editingOrder.id, { reason: 'Distribution order deleted', by: user?.name || 'Unknown' });
       deleteOrder(editingOrder.id);
       setIsModalOpen(false);
     }
@@ -109,6 +183,25 @@ const Distribution = () => {
     }));
   };
 
+  // Orders store the customer by name; its price list sets the line prices
+  const getPriceList = (customerName: string) => {
+    const customer = customers.find(c => c.name === customerName);
+    return priceLists.find(l => l.id === customer?.priceListId);
+  };
+  const orderPriceList = getPriceList(formData.customer);
+
+  const changeCustomer = (customerName: string) => {
+    const priceList = getPriceList(customerName);
+    setFormData(prev => ({
+      ...prev,
+      customer: customerName,
+      itemsList: prev.itemsList.map(item => {
+        const product = products.find(p => p.nameEn === item.name);
+        return product ? { ...item, price: getProductListPrice(product, priceList) } : item;
+      })
+    }));
+  };
+
   const updateRowProduct = (itemId: string, productName: string) => {
     const product = products.find(p => p.nameEn === productName);
     setFormData(prev => ({
@@ -118,7 +211,7 @@ const Distribution = () => {
           return {
             ...item,
             name: productName,
-            price: product ? product.price : 0,
+            price: product ? getProductListPrice(product, orderPriceList) : 0,
             quantity: 1 // Reset qty on product change
           };
         }
@@ -182,6 +275,9 @@ const Distribution = () => {
               className="pl-10 pr-4 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-a7/20 w-64"
             />
           </div>
+          <Button variant="outline" className="gap-2" onClick={() => { setQuotesOpen(true); setQuoteError(''); setConverted(null); }}>
+            <FileText size={18} /> Quotations
+          </Button>
           <Button variant="primary" className="gap-2 shadow-lg shadow-parami/20 bg-gradient-to-r from-red-500 to-red-600 border-0" onClick={handleNewOrder}>
             <Plus size={18} /> New Order
           </Button>
@@ -294,7 +390,7 @@ const Distribution = () => {
                             className={`w-full pl-10 pr-10 py-3 bg-white border rounded-xl appearance-none focus:outline-none focus:ring-4 focus:ring-red-100 transition-all font-medium text-slate-700 ${errors.customer ? 'border-red-300 focus:border-red-500' : 'border-slate-300 focus:border-red-500'}`}
                             value={formData.customer}
                             onChange={(e) => {
-                                setFormData({...formData, customer: e.target.value});
+                                changeCustomer(e.target.value);
                                 setErrors({...errors, customer: ''});
                             }}
                           >
@@ -306,6 +402,7 @@ const Distribution = () => {
                           <ChevronDown className="absolute right-3.5 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" size={16} />
                         </div>
                         {errors.customer && <p className="text-xs text-red-500 mt-1.5 ml-1">{errors.customer}</p>}
+                        {orderPriceList && <p className="text-xs text-indigo-600 mt-1.5 ml-1">{orderPriceList.name} price list applied</p>}
                       </div>
 
                       <div>
@@ -452,6 +549,7 @@ const Distribution = () => {
                                           <div className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-slate-500 text-sm font-medium cursor-not-allowed">
                                              {item.price.toLocaleString()} Ks
                                           </div>
+                                          {orderPriceList && item.name && <p className="text-[10px] text-indigo-500 mt-1 pl-1">{orderPriceList.name}</p>}
                                       </td>
                                       <td className="px-4 py-3">
                                           <div className="relative">
@@ -533,8 +631,31 @@ const Distribution = () => {
                        <Trash2 size={18} className="mr-2"/> Delete Order
                      </Button>
                   )}
+                  {saveError && (
+                     <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+                        <AlertCircle size={16} className="shrink-0" /> {saveError}
+                     </div>
+                  )}
                 </div>
                 <div className="flex gap-4">
+                    {!editingOrder && (
+                       <div className="flex items-center gap-2">
+                          <input
+                             type="date"
+                             title="Quote valid until"
+                             value={quoteValidUntil}
+                             onChange={(e) => setQuoteValidUntil(e.target.value)}
+                             className="px-3 py-3 bg-white border border-slate-300 rounded-xl text-sm text-slate-700 focus:outline-none focus:border-red-500 focus:ring-4 focus:ring-red-100"
+                          />
+                          <button
+                             onClick={handleSaveQuote}
+                             disabled={isSaving}
+                             className="px-5 py-3 rounded-xl border border-indigo-200 text-indigo-700 font-semibold hover:bg-indigo-50 transition-all flex items-center gap-2 disabled:opacity-50 disabled:pointer-events-none"
+                          >
+                             <FileText size={18} /> Save as Quote
+                          </button>
+                       </div>
+                    )}
                     <button 
                        onClick={() => setIsModalOpen(false)}
                        className="px-6 py-3 rounded-xl border border-slate-300 text-slate-700 font-semibold hover:bg-white hover:border-slate-400 hover:shadow-sm transition-all"
@@ -543,7 +664,8 @@ const Distribution = () => {
                     </button>
                     <button 
                        onClick={handleSave}
-                       className="px-8 py-3 rounded-xl bg-gradient-to-r from-red-500 to-red-600 text-white font-bold shadow-lg shadow-red-500/30 hover:shadow-xl hover:scale-[1.02] active:scale-[0.98] transition-all flex items-center gap-2"
+                       disabled={isSaving}
+                       className="px-8 py-3 rounded-xl bg-gradient-to-r from-red-500 to-red-600 text-white font-bold shadow-lg shadow-red-500/30 hover:shadow-xl hover:scale-[1.02] active:scale-[0.98] transition-all flex items-center gap-2 disabled:opacity-50 disabled:pointer-events-none"
                     >
                        <Save size={18} /> Save Order
                     </button>
@@ -552,6 +674,74 @@ const Distribution = () => {
           </div>
         </div>
       )}
+
+      {/* Quotations Modal */}
+      {quotesOpen && (
+        <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+          <div className="bg-white w-full max-w-2xl rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-in zoom-in-95 duration-200">
+            <div className="px-8 py-6 border-b border-slate-200 flex justify-between items-center shrink-0">
+              <div>
+                <h3 className="font-bold text-2xl text-slate-900 tracking-tight">Quotations</h3>
+                <p className="text-slate-500 text-sm mt-1">Converting creates a pending order at today's prices.</p>
+              </div>
+              <button onClick={() => setQuotesOpen(false)} className="text-slate-400 hover:text-red-500 w-10 h-10 flex items-center justify-center rounded-full hover:bg-red-50 transition-colors">
+                <X size={24} />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-3">
+              {quoteError && (
+                <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+                  <AlertCircle size={16} className="shrink-0" /> {quoteError}
+                </div>
+              )}
+              {converted && (
+                <>
+                  <div className="p-3 rounded-xl text-sm bg-emerald-50 text-emerald-700 border border-emerald-100">
+                    Order {converted.reference} created.
+                  </div>
+                  {(converted.changes.length > 0 || converted.missing.length > 0) && <PriceChangeList changes={converted.changes} missing={converted.missing} />}
+                </>
+              )}
+
+              {distributionQuotes.map(q => (
+                <div key={q.id} className="flex items-center justify-between gap-3 p-4 border border-slate-200 rounded-xl">
+                  <div className="min-w-0">
+                    <span className="font-mono text-xs text-slate-400 block mb-0.5">{q.id}</span>
+                    <h4 className="font-bold text-slate-800 text-sm">{q.customerName}</h4>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {(q.order?.itemsList || []).length} items · {q.total.toLocaleString()} Ks · by {q.createdBy}
+                    </p>
+                    <div className="mt-1"><QuotationStatus quotation={q} /></div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {q.status === 'OPEN' && !isQuotationExpired(q) && (
+                      <Button variant="primary" size="sm" className="bg-gradient-to-r from-red-500 to-red-600 border-0" disabled={!!convertingId} onClick={() => handleConvertQuote(q.id)}>
+                        Create Order
+                      </Button>
+                    )}
+                    <button onClick={() => printQuotation(q, settings, getCurrentBranch())} className="p-2 text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-lg" title="Print">
+                      <Printer size={16} />
+                    </button>
+                    {q.status === 'OPEN' && (
+                      <button
+                        onClick={() => { if (window.confirm(`Delete quotation ${q.id}?`)) deleteQuotation(q.id, user?.name || 'Unknown'); }}
+                        className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg"
+                        title="Delete"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {distributionQuotes.length === 0 && (
+                <p className="text-center text-sm text-slate-400 py-6">No quotations at this branch.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo } from 'react';
-import { useProductStore } from '../store';
+import { useProductStore, useSerialStore, useAuthStore } from '../store';
 import { Card, Button, Badge, ProgressBar, Tabs } from '../components/UI';
 import { AlertTriangle, Calendar, AlertCircle, Clock, Download, ArrowRight, Trash2, Tag, Truck, Image as ImageIcon } from 'lucide-react';
 import { Product, Batch } from '../types';
@@ -15,6 +15,8 @@ interface ExpiryItem {
 const Expiry = () => {
   // Ensure we use the live products from the store
   const { products, removeBatchStock } = useProductStore();
+  const { decommissionBatch } = useSerialStore();
+  const { user } = useAuthStore();
   const [activeTab, setActiveTab] = useState('CRITICAL');
 
   // Calculate expiry data
@@ -72,6 +74,10 @@ const Expiry = () => {
       
       if (confirmed) {
           removeBatchStock(item.product.id, item.batch.batchNumber, item.batch.quantity, action);
+          decommissionBatch(item.product.id, item.batch.batchNumber, {
+              by: user?.name || 'Unknown',
+              reference: action === 'WRITEOFF' ? 'Expiry write-off' : 'Returned to supplier'
+          });
       }
   };
 
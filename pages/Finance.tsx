@@ -1,17 +1,18 @@
 
 import React, { useState, useEffect } from 'react';
 import { Card, Button, Input, Badge } from '../components/UI';
-import { useFinanceStore, useTransactionStore } from '../store';
+import { useFinanceStore, useTransactionStore, useSalesStore, useReturnStore, useBranchStore, useSettingsStore } from '../store';
 import { 
   ArrowUpRight, ArrowDownRight, DollarSign, TrendingUp, Calendar, 
   CreditCard, Wallet, Plus, CheckCircle2, 
-  Trash2, X, Search, FileText, Filter, Check
+  Trash2, X, Search, FileText, Filter, Check, Download
 } from 'lucide-react';
 import { 
   AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
   PieChart as RePieChart, Pie, Cell, Legend 
 } from 'recharts';
-import { Expense, Transaction } from '../types';
+import { Expense, Transaction, PAYMENT_METHODS } from '../types';
+import { buildTaxSummary } from '../utils/tax';
 
 const CHART_COLORS = ['#0060CE', '#D7000F', '#10B981', '#F59E0B'];
 
@@ -52,8 +53,129 @@ const KPICard = ({ title, value, subValue, icon: Icon, type = 'neutral', onClick
   );
 };
 
+/**
+ * Tax Summary
+ * Output tax per rate for a branch and period, with refunds netted off, for the accountant.
+ */
+const TaxReport = () => {
+  const { allSales } = useSalesStore();
+  const { allReturns } = useReturnStore();
+  const { branches, currentBranchId } = useBranchStore();
+  const { settings } = useSettingsStore();
+
+  const today = new Date().toISOString().split('T')[0];
+  const [branchId, setBranchId] = useState(currentBranchId);
+  const [from, setFrom] = useState(`${today.slice(0, 8)}01`);
+  const [to, setTo] = useState(today);
+
+  const inPeriod = (r: { date: string; branchId: string }) =>
+    (branchId === 'ALL' || r.branchId === branchId) && r.date.slice(0, 10) >= from && r.date.slice(0, 10) <= to;
+  const sales = allSales.filter(inPeriod);
+  const returns = allReturns.filter(inPeriod);
+  const rows = buildTaxSummary(sales, returns, allSales);
+
+  const totals = rows.reduce((acc, r) => ({
+    salesNet: acc.salesNet + r.salesNet,
+    salesTax: acc.salesTax + r.salesTax,
+    returnsNet: acc.returnsNet + r.returnsNet,
+    returnsTax: acc.returnsTax + r.returnsTax
+  }), { salesNet: 0, salesTax: 0, returnsNet: 0, returnsTax: 0 });
+  const branchName = branchId === 'ALL' ? 'All branches' : branches.find(b => b.id === branchId)?.name || branchId;
+
+  const handleExport = () => {
+    const csvRows = [
+      [settings.companyName, `Tax ID ${settings.taxId || '-'}`],
+      [branchName, `${from} to ${to}`],
+      [],
+      ['Rate %', 'Taxable Sales', 'Output Tax', 'Taxable Returns', 'Tax on Returns', 'Net Taxable', 'Net Tax'],
+      ...rows.map(r => [r.rate, r.salesNet, r.salesTax, r.returnsNet, r.returnsTax, r.salesNet - r.returnsNet, r.salesTax - r.returnsTax]),
+      ['Total', totals.salesNet, totals.salesTax, totals.returnsNet, totals.returnsTax, totals.salesNet - totals.returnsNet, totals.salesTax - totals.returnsTax]
+    ];
+    const csv = csvRows.map(r => r.map(v => `"${String(v).replace(/"/g, '""')}"`).join(',')).join('\n');
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    link.download = `tax-summary_${branchId}_${from}_${to}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <Card title="Commercial Tax Summary" className="animate-in slide-in-from-right-4 duration-300">
+      <div className="flex flex-col md:flex-row md:items-end gap-3 mt-2 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Branch</label>
+          <select
+            className="px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm"
+            value={branchId}
+            onChange={(e) => setBranchId(e.target.value)}
+          >
+            <option value="ALL">All branches</option>
+            {branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">From</label>
+          <input type="date" className="px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">To</label>
+          <input type="date" className="px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <div className="md:ml-auto text-xs text-slate-500">
+          {sales.length} sales · {returns.length} returns · Tax ID {settings.taxId || 'not set'}
+        </div>
+        <Button variant="outline" className="gap-2" onClick={handleExport} disabled={rows.length === 0}>
+          <Download size={16} /> Export CSV
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-500 font-medium border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-4">Rate</th>
+              <th className="px-6 py-4 text-right">Taxable Sales</th>
+              <th className="px-6 py-4 text-right">Output Tax</th>
+              <th className="px-6 py-4 text-right">Returns</th>
+              <th className="px-6 py-4 text-right">Tax on Returns</th>
+              <th className="px-6 py-4 text-right">Net Tax</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(r => (
+              <tr key={r.rate} className="hover:bg-slate-50">
+                <td className="px-6 py-4 font-medium text-slate-800">{r.rate}%{r.rate === 0 && <span className="text-xs text-slate-400 ml-2">exempt / untaxed</span>}</td>
+                <td className="px-6 py-4 text-right text-slate-700">{r.salesNet.toLocaleString()}</td>
+                <td className="px-6 py-4 text-right text-slate-700">{r.salesTax.toLocaleString()}</td>
+                <td className="px-6 py-4 text-right text-rose-600">{r.returnsNet > 0 ? `-${r.returnsNet.toLocaleString()}` : '—'}</td>
+                <td className="px-6 py-4 text-right text-rose-600">{r.returnsTax > 0 ? `-${r.returnsTax.toLocaleString()}` : '—'}</td>
+                <td className="px-6 py-4 text-right font-bold text-slate-800">{(r.salesTax - r.returnsTax).toLocaleString()}</td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr><td colSpan={6} className="px-6 py-12 text-center text-slate-400">No sales in this period</td></tr>
+            )}
+          </tbody>
+          {rows.length > 0 && (
+            <tfoot className="border-t-2 border-slate-200 font-bold text-slate-900">
+              <tr>
+                <td className="px-6 py-4">Total</td>
+                <td className="px-6 py-4 text-right">{totals.salesNet.toLocaleString()}</td>
+                <td className="px-6 py-4 text-right">{totals.salesTax.toLocaleString()}</td>
+                <td className="px-6 py-4 text-right text-rose-600">-{totals.returnsNet.toLocaleString()}</td>
+                <td className="px-6 py-4 text-right text-rose-600">-{totals.returnsTax.toLocaleString()}</td>
+                <td className="px-6 py-4 text-right">{(totals.salesTax - totals.returnsTax).toLocaleString()} Ks</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </Card>
+  );
+};
+
 const Finance = () => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'transactions' | 'expenses' | 'payables' | 'receivables'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'transactions' | 'expenses' | 'payables' | 'receivables' | 'tax'>('overview');
   const [transactionFilter, setTransactionFilter] = useState<'ALL' | 'INCOME' | 'EXPENSE'>('ALL');
   
   // Use stores
@@ -106,11 +228,23 @@ const Finance = () => {
     { name: 'Week 4', income: 4100000, expense: 1900000 },
   ];
 
-  const paymentMixData = [
-    { name: 'Cash', value: 65 },
-    { name: 'KBZ Pay', value: 25 },
-    { name: 'Wave Money', value: 10 },
-  ];
+  const getMethodName = (code: string) => PAYMENT_METHODS.find(m => m.code === code)?.nameEn || code;
+
+  // Payment mix from the tender breakdown; older entries only carry a single paymentMethod
+  const paymentMixData = Object.entries(
+    transactions
+      .filter(t => t.type === 'INCOME')
+      .reduce((acc, t) => {
+        const tenders = t.tenders && t.tenders.length > 0
+          ? t.tenders
+          : [{ method: t.paymentMethod || 'CASH', amount: t.amount }];
+        tenders.forEach(tender => {
+          const name = getMethodName(tender.method);
+          acc[name] = (acc[name] || 0) + tender.amount;
+        });
+        return acc;
+      }, {} as Record<string, number>)
+  ).map(([name, value]) => ({ name, value }));
 
   // Filter Transactions
   const filteredTransactions = transactions.filter(t => {
@@ -136,7 +270,7 @@ const Finance = () => {
           <p className="text-slate-500 text-sm">Financial health overview, expenses, and ledger.</p>
         </div>
         <div className="flex items-center gap-2 bg-white border border-slate-200 rounded-lg p-1 overflow-x-auto">
-           {['overview', 'transactions', 'expenses', 'payables', 'receivables'].map((tab) => (
+           {['overview', 'transactions', 'expenses', 'payables', 'receivables', 'tax'].map((tab) => (
              <button
                key={tab}
                onClick={() => { setActiveTab(tab as any); if(tab==='transactions') setTransactionFilter('ALL'); }}
@@ -306,6 +440,7 @@ const Finance = () => {
                    <th className="px-6 py-4">Date</th>
                    <th className="px-6 py-4">Description</th>
                    <th className="px-6 py-4">Category</th>
+                   <th className="px-6 py-4">Payment</th>
                    <th className="px-6 py-4 text-right">Amount</th>
                  </tr>
                </thead>
@@ -316,12 +451,20 @@ const Finance = () => {
                      <td className="px-6 py-4 text-slate-600">{t.date}</td>
                      <td className="px-6 py-4 font-medium text-slate-800">{t.description}</td>
                      <td className="px-6 py-4"><Badge variant="neutral">{t.category}</Badge></td>
-                     <td className={`px-6 py-4 text-right font-bold ${t.type === 'INCOME' ? 'text-emerald-600' : 'text-rose-600'}`}>
-                        {t.type === 'INCOME' ? '+' : '-'}{t.amount.toLocaleString()}
+                     <td className="px-6 py-4 text-xs text-slate-600">
+                        {t.tenders && t.tenders.length > 0 ? t.tenders.map((tender, idx) => (
+                           <div key={idx} className="whitespace-nowrap">
+                              <span className="font-semibold">{getMethodName(tender.method)}</span> {tender.amount.toLocaleString()}
+                              {tender.reference && <span className="font-mono text-slate-400"> #{tender.reference}</span>}
+                           </div>
+                        )) : (t.paymentMethod ? getMethodName(t.paymentMethod) : '—')}
+                     </td>
+                     <td className={`px-6 py-4 text-right font-bold ${t.type === 'INCOME' && t.amount >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {t.type === 'INCOME' && t.amount >= 0 ? '+' : '-'}{Math.abs(t.amount).toLocaleString()}
                      </td>
                    </tr>
                  )) : (
-                   <tr><td colSpan={5} className="px-6 py-12 text-center text-slate-400">No transactions found</td></tr>
+                   <tr><td colSpan={6} className="px-6 py-12 text-center text-slate-400">No transactions found</td></tr>
                  )}
                </tbody>
              </table>
@@ -461,6 +604,9 @@ const Finance = () => {
         </Card>
       )}
 
+      {/* --- TAX TAB --- */}
+      {activeTab === 'tax' && <TaxReport />}
+
       {/* Add Expense Modal */}
       {isExpenseModalOpen && (
         <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
@@ -2,16 +2,25 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { Plus, Filter, Download, Edit2, Trash2, X, Save, Search, Image as ImageIcon, Check } from 'lucide-react';
 import { Card, Button, Input } from '../components/UI';
+import { toUnicode } from '../utils/myanmar';
 
 // --- AWS IMPORTS ---
-import { generateClient } from 'aws-amplify/data';
-import type { Schema } from '../amplify/data/resource';
-
-// 1. Initialize Client
-const client = generateClient<Schema>();
+// 1. Shared Amplify client
+import { client } from '../utils/dataClient';
 
 // 2. Hardcode units here to avoid import errors
-const UNIT_OPTIONS = ['Strip', 'Bottle', 'Box', 'Card', 'Vial', 'Tube'];
+const UNIT_OPTIONS = ['Tablet', 'Capsule', 'Strip', 'Bottle', 'Box', 'Card', 'Vial', 'Tube'];
+
+// Pack units are stored as an AWSJSON string
+const parsePackUnits = (value: any): { unit: string; factor: number; price: number }[] => {
+  if (!value) return [];
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
 
 const Inventory = () => {
   const [products, setProducts] = useState<any[]>([]);
@@ -26,7 +35,7 @@ const Inventory = () => {
   const [isEditMode, setIsEditMode] = useState(false);
   // Initialize with default values to prevent "controlled/uncontrolled" errors
   const [currentProduct, setCurrentProduct] = useState<any>({
-    name: '', myanmarName: '', sku: '', category: 'Medicine', price: 0, unit: 'Strip', minStock: 10, description: ''
+    name: '', myanmarName: '', sku: '', category: 'Medicine', price: 0, unit: 'Strip', minStock: 10, description: '', packUnits: []
   });
   const [successMsg, setSuccessMsg] = useState('');
 
@@ -70,14 +79,15 @@ const Inventory = () => {
       price: 0,
       unit: 'Strip',
       minStock: 10, 
-      description: ''
+      description: '',
+      packUnits: []
     });
     setIsModalOpen(true);
   };
 
   const handleEdit = (product: any) => {
     setIsEditMode(true);
-    setCurrentProduct(product);
+    setCurrentProduct({ ...product, packUnits: parsePackUnits(product.packUnits) });
     setIsModalOpen(true);
   };
 
@@ -91,20 +101,32 @@ const Inventory = () => {
       return;
     }
 
+    const packUnits = (currentProduct.packUnits || []).map((u: any) => ({
+      unit: u.unit,
+      factor: parseInt(u.factor || 0),
+      price: parseFloat(u.price || 0)
+    }));
+    if (packUnits.some((u: any) => u.factor <= 1 || u.price <= 0 || u.unit === currentProduct.unit)) {
+      alert("Each pack needs a different unit than the base unit, more than 1 base unit per pack, and a price");
+      return;
+    }
+
     try {
       console.log("Attempting to save...", currentProduct); // Debug Log
 
       // 2. Prepare data object safely
       // Ensure numbers are actually numbers, not strings
       const productData: any = {
-        name: currentProduct.name,
-        myanmarName: currentProduct.myanmarName,
+        name: toUnicode(currentProduct.name || ''),
+        // Zawgyi keyboards still common; always store Unicode
+        myanmarName: toUnicode(currentProduct.myanmarName || ''),
         sku: currentProduct.sku,
         price: parseFloat(currentProduct.price),
         category: currentProduct.category,
         unit: currentProduct.unit,
+        packUnits: JSON.stringify(packUnits),
         minStock: parseInt(currentProduct.minStock || 0), 
-        description: currentProduct.description
+        description: toUnicode(currentProduct.description || '')
       };
 
       if (isEditMode && currentProduct.id) {
@@ -176,6 +198,13 @@ const Inventory = () => {
     setCurrentProduct((prev: any) => ({ ...prev, [field]: value }));
   };
 
+  const updatePackUnit = (index: number, field: string, value: any) => {
+    setCurrentProduct((prev: any) => ({
+      ...prev,
+      packUnits: prev.packUnits.map((u: any, i: number) => i === index ? { ...u, [field]: value } : u)
+    }));
+  };
+
   return (
     <div className="p-6 max-w-7xl mx-auto space-y-6">
       {/* Header */}
@@ -235,6 +264,9 @@ const Inventory = () => {
                   <td className="px-6 py-4 text-sm text-slate-600">
                     <span className="block font-medium">{product.category}</span>
                     <span className="text-xs text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded">{product.unit || 'Unit'}</span>
+                    {parsePackUnits(product.packUnits).map(u => (
+                      <span key={u.unit} className="ml-1 text-xs text-blue-600 bg-blue-50 px-1.5 py-0.5 rounded">{u.unit} ×{u.factor}</span>
+                    ))}
                   </td>
                   <td className="px-6 py-4 text-sm text-slate-600">
                     {product.minStock || '-'}
@@ -285,7 +317,7 @@ const Inventory = () => {
 
                     {/* Unit Dropdown */}
                     <div>
-                        <label className="block text-sm font-medium text-slate-700 mb-1">Unit Type</label>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Base Unit</label>
                         <select className="w-full px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20" 
                                 value={currentProduct.unit} 
                                 onChange={(e) => handleInputChange('unit', e.target.value)}>
@@ -296,7 +328,46 @@ const Inventory = () => {
                     </div>
 
                     <Input label="Min Stock Level" type="number" value={currentProduct.minStock} onChange={(e: any) => handleInputChange('minStock', e.target.value)} />
-                    <Input label="Price" type="number" required value={currentProduct.price} onChange={(e: any) => handleInputChange('price', e.target.value)} />
+                    <Input label={`Price per ${currentProduct.unit}`} type="number" required value={currentProduct.price} onChange={(e: any) => handleInputChange('price', e.target.value)} />
+                 </div>
+
+                 {/* Pack Units */}
+                 <div>
+                    <div className="flex items-center justify-between mb-1">
+                        <label className="block text-sm font-medium text-slate-700">Pack Sizes</label>
+                        <button
+                            type="button"
+                            onClick={() => handleInputChange('packUnits', [...(currentProduct.packUnits || []), { unit: 'Box', factor: '', price: '' }])}
+                            className="text-xs font-medium text-blue-600 hover:underline flex items-center gap-1"
+                        >
+                            <Plus size={12} /> Add Pack
+                        </button>
+                    </div>
+                    <p className="text-xs text-slate-500 mb-2">Stock is counted in {currentProduct.unit}; packs are converted when sold or received.</p>
+                    <div className="space-y-2">
+                        {(currentProduct.packUnits || []).map((u: any, index: number) => (
+                            <div key={index} className="flex items-center gap-2">
+                                <select className="px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                        value={u.unit}
+                                        onChange={(e) => updatePackUnit(index, 'unit', e.target.value)}>
+                                    {UNIT_OPTIONS.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                                </select>
+                                <span className="text-xs text-slate-500">=</span>
+                                <input type="number" min="2" placeholder="Qty" value={u.factor}
+                                       onChange={(e) => updatePackUnit(index, 'factor', e.target.value)}
+                                       className="w-20 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20" />
+                                <span className="text-xs text-slate-500">{currentProduct.unit}</span>
+                                <input type="number" min="0" placeholder="Price" value={u.price}
+                                       onChange={(e) => updatePackUnit(index, 'price', e.target.value)}
+                                       className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20" />
+                                <span className="text-xs text-slate-500">Ks</span>
+                                <button type="button" onClick={() => handleInputChange('packUnits', currentProduct.packUnits.filter((_: any, i: number) => i !== index))}
+                                        className="p-2 hover:bg-red-50 text-slate-400 hover:text-red-600 rounded">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
                  </div>
 
                  {/* Description */}
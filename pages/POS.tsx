@@ -1,11 +1,28 @@
 
-import React, { useState, useMemo } from 'react';
-import { Search, Plus, Minus, Trash2, User, CreditCard, Banknote, QrCode, RotateCcw, Save, ShoppingCart, ScanLine, Image as ImageIcon, CheckCircle, AlertCircle, X, Check, Lock, AlertTriangle, Package } from 'lucide-react';
-import { useCartStore, useProductStore, useTransactionStore, useCustomerStore, useBranchStore } from '../store';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Search, Plus, Minus, Trash2, User, CreditCard, Banknote, QrCode, RotateCcw, Save, ShoppingCart, ScanLine, Image as ImageIcon, CheckCircle, AlertCircle, X, Check, Lock, AlertTriangle, Package, Tag, Percent, PauseCircle, Printer, Wallet, Stethoscope, ShieldCheck, ShieldAlert, Monitor, FileText } from 'lucide-react';
+import { useCartStore, useProductStore, useTransactionStore, useCustomerStore, useBranchStore, useSalesStore, useAuthStore, usePromotionStore, useParkedCartStore, useSettingsStore, useShiftStore, useOverrideAuditStore, useLoyaltyStore, useSerialStore, usePriceListStore, useInteractionStore, useQuantityLimitStore, useReturnStore, useNumberingStore, useQuotationStore } from '../store';
 import { Button, Input, Badge } from '../components/UI';
-import { Product, Transaction, UNIT_TYPES } from '../types';
+import { Product, Transaction, Sale, Tender, CartDiscount, DiscountType, Prescription, UNIT_TYPES, CartItem, OverrideAudit, OverrideType, User as StaffUser } from '../types';
 import CameraScanner from '../components/CameraScanner';
+import PaymentModal from '../components/PaymentModal';
+import ParkedCartsModal from '../components/ParkedCartsModal';
+import QuotationsModal from '../components/QuotationsModal';
+import { PrescriptionCaptureModal, PharmacistVerifyModal } from '../components/Prescription';
+import { DrugAlertAckModal, DrugAlertItem } from '../components/DrugAlerts';
+import { OverrideAuthModal } from '../components/OverrideAuthModal';
+import { useShortcuts } from '../components/ShortcutPanel';
 import { parseBarcode, GS1ParsedData } from '../utils/gs1Parser';
+import { calculateCartTotals, lineDiscount, lineGross, lineNet } from '../utils/pricing';
+import { printReceipt } from '../utils/printer';
+import { getSellingUnits, getUnitName, toBaseQuantity } from '../utils/units';
+import { findEarlierBatch, getBatchAvailability, sortBatchesFEFO } from '../utils/batchAllocation';
+import { calculateEarnedPoints } from '../utils/loyalty';
+import { checkDrugAlerts } from '../utils/drugAlerts';
+import { findLimitViolations } from '../utils/quantityLimits';
+import { openDisplayChannel, toDisplayBranding, toDisplayCart, DisplayMessage } from '../utils/customerDisplay';
+import { buildSearchIndex, getSalesFrequency, searchProducts } from '../utils/search';
 
 const ProductCard: React.FC<{ product: Product, onAdd: (p: Product) => void, index: number }> = ({ product, onAdd, index }) => (
   <div 
@@ -27,7 +44,7 @@ const ProductCard: React.FC<{ product: Product, onAdd: (p: Product) => void, ind
              ? 'bg-red-50/90 text-red-700 border-red-100' 
              : 'bg-yellow-50/90 text-yellow-800 border-yellow-200'
        }`}>
-          {product.stockLevel} left
+          {product.stockLevel} {product.packUnits?.length ? getUnitName(product.unit) : ''} left
        </span>
     </div>
     
@@ -39,7 +56,10 @@ const ProductCard: React.FC<{ product: Product, onAdd: (p: Product) => void, ind
       </div>
       
       <div className="mt-auto pt-3 flex items-center justify-between">
-         <span className="font-bold text-red-600 text-lg">{product.price.toLocaleString()} Ks</span>
+         <span className="font-bold text-red-600 text-lg">
+            {product.price.toLocaleString()} Ks
+            {product.packUnits?.length ? <span className="text-[10px] font-medium text-slate-400"> /{getUnitName(product.unit)}</span> : null}
+         </span>
          <button className="w-8 h-8 rounded-full bg-blue-50 text-blue-600 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:bg-blue-100">
             <Plus size={16} />
          </button>
@@ -48,75 +68,406 @@ const ProductCard: React.FC<{ product: Product, onAdd: (p: Product) => void, ind
   </div>
 );
 
+// Line discount when cartId is set, otherwise the cart-level discount
+interface DiscountChange {
+  cartId?: string;
+  discount: CartDiscount | null;
+}
+
+// Pending counter override; approve runs once an authorized approver has signed off
+interface OverrideRequest {
+  type: OverrideType;
+  message: string;
+  subjects: Pick<OverrideAudit, 'productId' | 'productName' | 'batchNumber' | 'details'>[]; // One audit record each
+  approve: (approvedBy: string) => void;
+}
+
+interface BatchPickerProps {
+  item: CartItem;
+  product: Product;
+  items: CartItem[];
+  onPick: (batchId: string) => void;
+  onSplit: () => void;
+}
+
+// Batch the line is sold from, with a FEFO warning and a split when one batch cannot cover it
+const BatchPicker = ({ item, product, items, onPick, onSplit }: BatchPickerProps) => {
+  const available = getBatchAvailability(product, items, item.cartId);
+  const selected = product.batches.find(b => b.id === item.selectedBatchId);
+  const earlier = selected ? findEarlierBatch(product, selected.id, available) : undefined;
+  const shortBy = selected ? toBaseQuantity(item) - (available.get(selected.id) || 0) : 0;
+  const baseUnit = getUnitName(product.unit);
+
+  return (
+    <div className="mt-2 space-y-1">
+      <select
+        value={item.selectedBatchId || ''}
+        onChange={(e) => onPick(e.target.value)}
+        className="w-full h-7 px-1.5 bg-white border border-slate-200 rounded-lg text-[11px] text-slate-600 focus:outline-none focus:border-blue-500"
+        title="Batch"
+      >
+        {!selected && <option value="">Select batch...</option>}
+        {sortBatchesFEFO(product.batches).map(b => (
+          <option key={b.id} value={b.id} disabled={(available.get(b.id) || 0) <= 0 && b.id !== item.selectedBatchId}>
+            {b.batchNumber} · Exp {b.expiryDate} · {(available.get(b.id) || 0).toLocaleString()} {baseUnit} left
+          </option>
+        ))}
+      </select>
+      {earlier && (
+        <p className="text-[10px] text-amber-700 flex items-center gap-1">
+          <AlertTriangle size={10} className="shrink-0" /> {earlier.batchNumber} expires first ({earlier.expiryDate}) and is still in stock
+        </p>
+      )}
+      {shortBy > 0 && (
+        <p className="text-[10px] text-red-600 flex items-center gap-1">
+          <AlertTriangle size={10} className="shrink-0" /> Batch is {shortBy.toLocaleString()} {baseUnit} short
+          <button onClick={onSplit} className="font-bold hover:underline ml-1">Split across batches</button>
+        </p>
+      )}
+    </div>
+  );
+};
+
+const PriceEditor = ({ initial, onApply, onCancel }: { initial: number, onApply: (price: number) => void, onCancel: () => void }) => {
+  const [value, setValue] = useState(String(initial));
+
+  return (
+    <div className="flex items-center gap-1.5 mt-2">
+      <span className="text-[11px] font-bold text-slate-500">Unit Ks</span>
+      <input
+        type="number"
+        min="0"
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') onApply(parseFloat(value) || 0); }}
+        className="w-24 px-2 py-1 text-xs border border-slate-200 rounded-lg focus:outline-none focus:border-blue-500 font-mono"
+      />
+      <button onClick={() => onApply(parseFloat(value) || 0)} className="p-1 rounded-md bg-blue-600 text-white hover:bg-blue-700"><Check size={12} /></button>
+      <button onClick={onCancel} className="p-1 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100"><X size={12} /></button>
+    </div>
+  );
+};
+
+const DiscountEditor = ({ initial, onApply, onCancel }: { initial?: CartDiscount | null, onApply: (d: CartDiscount | null) => void, onCancel: () => void }) => {
+  const [type, setType] = useState<DiscountType>(initial?.type || 'PERCENT');
+  const [value, setValue] = useState(initial?.value ? String(initial.value) : '');
+
+  return (
+    <div className="flex items-center gap-1.5 mt-2">
+      <div className="flex bg-slate-100 rounded-lg p-0.5 border border-slate-200">
+        <button onClick={() => setType('PERCENT')} className={`px-2 py-0.5 rounded-md text-[11px] font-bold ${type === 'PERCENT' ? 'bg-white shadow-sm text-blue-700' : 'text-slate-500'}`}>%</button>
+        <button onClick={() => setType('AMOUNT')} className={`px-2 py-0.5 rounded-md text-[11px] font-bold ${type === 'AMOUNT' ? 'bg-white shadow-sm text-blue-700' : 'text-slate-500'}`}>Ks</button>
+      </div>
+      <input
+        type="number"
+        min="0"
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') onApply({ type, value: parseFloat(value) || 0 }); }}
+        className="w-20 px-2 py-1 text-xs border border-slate-200 rounded-lg focus:outline-none focus:border-blue-500 font-mono"
+      />
+      <button onClick={() => onApply({ type, value: parseFloat(value) || 0 })} className="p-1 rounded-md bg-blue-600 text-white hover:bg-blue-700"><Check size={12} /></button>
+      <button onClick={onCancel} className="p-1 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100"><X size={12} /></button>
+    </div>
+  );
+};
+
 const POS = () => {
-  const { items, addItem, removeItem, updateQuantity, total, clearCart, customer, setCustomer } = useCartStore();
-  const { products, addProduct } = useProductStore();
-  const { customers } = useCustomerStore();
+  const { items, addItem, removeItem, updateQuantity, total, totals, clearCart, customer, setCustomer, cartDiscount, discountApproval, setLineDiscount, setCartDiscount, setLinePrice, setLineUnit, setLineBatch, splitLineAcrossBatches, approveDiscount, prescription, setPrescription, verifyPrescription, drugAlertAcks, acknowledgeDrugAlerts, approveLimit, quotationId } = useCartStore();
+  const { promotions, approvalThresholdPercent } = usePromotionStore();
+  const { priceLists } = usePriceListStore();
+  const parkedCount = useParkedCartStore(state => state.parkedCarts.length);
+  const { products, addProduct, deductStock } = useProductStore();
+  const { customers, postPoints } = useCustomerStore();
+  const { rules: loyaltyRules } = useLoyaltyStore();
   const { addTransaction } = useTransactionStore();
-  const { currentBranchId } = useBranchStore();
+  const { currentBranchId, getCurrentBranch } = useBranchStore();
+  const { settings } = useSettingsStore();
+  const { addSale, allSales, sales } = useSalesStore();
+  const { allReturns } = useReturnStore();
+  const { user } = useAuthStore();
+  const openShift = useShiftStore(state => state.shifts.find(sh => sh.cashierId === user?.id && sh.status === 'OPEN'));
+  const { attachSale } = useShiftStore();
+  const { logOverride } = useOverrideAuditStore();
+  const { checkSerial, recordSerial } = useSerialStore();
+  const { rules: interactionRules, duplicateSeverity } = useInteractionStore();
+  const { limits: quantityLimits } = useQuantityLimitStore();
+  const { reserveNumber, voidNumber } = useNumberingStore();
+  const { markConverted } = useQuotationStore();
+  const checkoutBusy = useRef(false);
 
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('All');
   const [paymentModalOpen, setPaymentModalOpen] = useState(false);
   const [isScannerOpen, setIsScannerOpen] = useState(false);
   const [successMsg, setSuccessMsg] = useState('');
+  const [lastSale, setLastSale] = useState<Sale | null>(null);
+  const [checkoutError, setCheckoutError] = useState('');
+  const [parkedModalOpen, setParkedModalOpen] = useState(false);
+  const [quotationsModalOpen, setQuotationsModalOpen] = useState(false);
+  const [editingDiscount, setEditingDiscount] = useState<string | null>(null); // cartId or 'CART'
+  const [editingPrice, setEditingPrice] = useState<string | null>(null); // cartId
+  const [rxCapture, setRxCapture] = useState<{ product: Product; options?: Parameters<typeof addItem>[1]; addAfter: boolean } | null>(null);
+  const [rxVerifyOpen, setRxVerifyOpen] = useState(false);
+  const [drugAlertsOpen, setDrugAlertsOpen] = useState(false);
   
   // Advanced Scan Handling State
   const [notFoundScan, setNotFoundScan] = useState<GS1ParsedData | null>(null);
-  const [managerRequest, setManagerRequest] = useState<{
-    type: 'expired' | 'quick_add';
-    data: any;
-  } | null>(null);
-  const [managerCreds, setManagerCreds] = useState({ id: '', password: '' });
+  const [overrideRequest, setOverrideRequest] = useState<OverrideRequest | null>(null);
   const [scannedInfo, setScannedInfo] = useState<{msg: string, type: 'success' | 'error' | 'warning'} | null>(null);
 
   const categories = ['All', 'Antibiotics', 'Analgesics', 'Vitamins', 'Supplements', 'Gastrointestinal', 'Diabetic'];
 
   // --- Logic ---
 
+  const searchIndex = useMemo(() => buildSearchIndex(products, getSalesFrequency(sales)), [products, sales]);
+
   const filteredProducts = useMemo(() => {
-    return products.filter(p => {
-      const lowerSearch = searchTerm.toLowerCase();
-      const matchesSearch = p.nameEn.toLowerCase().includes(lowerSearch) || 
-                            p.nameMm.includes(searchTerm) ||
-                            p.sku.toLowerCase().includes(lowerSearch) ||
-                            (p.genericName && p.genericName.toLowerCase().includes(lowerSearch));
-                            
-      const matchesCategory = selectedCategory === 'All' || p.category === selectedCategory;
-      return matchesSearch && matchesCategory;
-    });
-  }, [products, searchTerm, selectedCategory]);
-
-  const handleManagerLogin = () => {
-      // Simulate Manager Verification (Hardcoded for demo)
-      if (managerCreds.id === 'admin' && managerCreds.password === '1234') {
-          if (managerRequest?.type === 'expired') {
-              // Proceed to add expired item with override
-              const { product, scanData } = managerRequest.data;
-              addItem(product, { 
-                  transactionData: {
-                      scanned_batch: scanData.batchNumber,
-                      scanned_expiry: scanData.expiryDate,
-                      scanned_serial: scanData.serialNumber,
-                      scanned_at: new Date().toISOString(),
-                      raw_barcode: scanData.rawData
-                  },
-                  warnings: ['EXPIRED'],
-                  override: true
-              });
-              setScannedInfo({ msg: `Approved: ${product.nameEn} (Expired)`, type: 'warning' });
-          } else if (managerRequest?.type === 'quick_add') {
-              // Handled by Quick Add logic, authorization just unlocks ability
+    return searchProducts(searchIndex, searchTerm).filter(p => selectedCategory === 'All' || p.category === selectedCategory);
+  }, [searchIndex, searchTerm, selectedCategory]);
+
+  // Antibiotic / controlled-drug limits: a BLOCK limit stops the change, the rest need a sign-off first.
+  // Reads the live cart so a change re-run after approval sees the new sign-off.
+  const withinLimits = (prospective: CartItem[], apply: () => void): boolean => {
+      const cart = useCartStore.getState();
+      const violations = findLimitViolations(prospective, quantityLimits, { customerId: cart.customer?.id, sales: allSales, returns: allReturns }, cart.limitApprovals);
+      if (violations.length === 0) return true;
+
+      const blocked = violations.find(v => v.limit.action === 'BLOCK');
+      if (blocked) {
+          setScannedInfo({ msg: `${blocked.message} Not allowed.`, type: 'error' });
+          return false;
+      }
+      setOverrideRequest({
+          type: 'QUANTITY_LIMIT',
+          message: violations.map(v => v.message).join(' '),
+          subjects: violations.map(v => ({ details: v.message })),
+          approve: (approvedBy) => {
+              violations.forEach(v => approveLimit({ limitId: v.limit.id, kind: v.kind, quantity: v.requested, approvedBy }));
+              apply();
           }
-          
-          // Clear states
-          setManagerRequest(null);
-          setManagerCreds({ id: '', password: '' });
+      });
+      return false;
+  };
+
+  // Prescription-only products need a script on the sale before they go in the cart
+  const addToCart = (product: Product, options?: Parameters<typeof addItem>[1]): boolean => {
+      const units = getSellingUnits(product);
+      const sellingUnit = units.find(u => u.unit === options?.unit) || units[0];
+      const added: CartItem = { ...product, cartId: 'pending', quantity: 1, discount: 0, unitFactor: sellingUnit.factor };
+      if (!withinLimits([...useCartStore.getState().items, added], () => addToCart(product, options))) return false;
+
+      if (product.requiresPrescription && !prescription) {
+          setRxCapture({ product, options, addAfter: true });
+          setScannedInfo({ msg: `${product.nameEn} requires a prescription`, type: 'warning' });
+          return false;
+      }
+      addItem(product, options);
+      return true;
+  };
+
+  const handleRxSaved = (rx: Prescription) => {
+      if (!rxCapture) return;
+      const rxProductIds = items.filter(i => i.requiresPrescription).map(i => i.id);
+      if (rxCapture.addAfter) rxProductIds.push(rxCapture.product.id);
+      setPrescription({ ...rx, productIds: Array.from(new Set(rxProductIds)) });
+      if (rxCapture.addAfter) addItem(rxCapture.product, rxCapture.options);
+      setRxCapture(null);
+  };
+
+  const rxItems = items.filter(i => i.requiresPrescription);
+
+  // Duplicate-therapy / interaction alerts; the sale can only go through once a pharmacist has reviewed each one
+  const drugAlerts = useMemo(() => checkDrugAlerts(items, interactionRules, duplicateSeverity), [items, interactionRules, duplicateSeverity]);
+  const openDrugAlerts = drugAlerts.filter(a => !drugAlertAcks.some(ack => ack.key === a.key));
+  const acknowledgedAlerts = drugAlertAcks.filter(ack => drugAlerts.some(a => a.key === ack.key));
+
+  // Live record of the cart's customer, for the current points balance and tier
+  const loyaltyCustomer = customer ? customers.find(c => c.id === customer.id) : undefined;
+  const customerPriceList = priceLists.find(l => l.id === loyaltyCustomer?.priceListId);
+
+  // Every approved override is written to the audit log before it takes effect
+  const handleOverrideAuthorized = (approver: StaffUser, reason: string) => {
+      if (!overrideRequest) return;
+      const now = new Date();
+      overrideRequest.subjects.forEach((subject, idx) => logOverride({
+          id: `OVR-${now.getTime()}-${idx}`,
+          type: overrideRequest.type,
+          approvedById: approver.id,
+          approvedBy: approver.name,
+          approverRole: approver.role,
+          requestedBy: user?.name || 'Unknown',
+          reason,
+          ...subject,
+          date: now.toISOString(),
+          branchId: currentBranchId
+      }));
+      // Cleared first so an approval that raises another request (e.g. a quantity limit) keeps it
+      setOverrideRequest(null);
+      overrideRequest.approve(approver.name);
+  };
+
+  const lineSubject = (item: CartItem, details: string) => ({
+      productId: item.id,
+      productName: item.nameEn,
+      batchNumber: item.transaction_data?.scanned_batch || item.batches.find(b => b.id === item.selectedBatchId)?.batchNumber,
+      details
+  });
+
+  const changeQuantity = (item: CartItem, qty: number) => {
+      const prospective = items.map(i => i.cartId === item.cartId ? { ...i, quantity: Math.max(1, qty) } : i);
+      if (qty <= item.quantity || withinLimits(prospective, () => updateQuantity(item.cartId, qty))) updateQuantity(item.cartId, qty);
+  };
+
+  const changeUnit = (item: CartItem, unit: string) => {
+      const sellingUnit = getSellingUnits(item).find(u => u.unit === unit);
+      if (!sellingUnit) return;
+      const prospective = items.map(i => i.cartId === item.cartId ? { ...i, unitFactor: sellingUnit.factor } : i);
+      if (withinLimits(prospective, () => setLineUnit(item.cartId, unit))) setLineUnit(item.cartId, unit);
+  };
+
+  const requestPriceChange = (item: CartItem, price: number) => {
+      setEditingPrice(null);
+      const listPrice = item.originalPrice ?? item.price;
+      if (price === item.price) return;
+      // Going back to the list price needs no sign-off
+      if (price === listPrice) {
+          setLinePrice(item.cartId, price);
+          return;
+      }
+      setOverrideRequest({
+          type: 'PRICE_CHANGE',
+          message: `Change ${item.nameEn} from ${listPrice.toLocaleString()} Ks to ${price.toLocaleString()} Ks per unit.`,
+          subjects: [lineSubject(item, `Price ${listPrice.toLocaleString()} → ${price.toLocaleString()} Ks`)],
+          approve: () => setLinePrice(item.cartId, price)
+      });
+  };
+
+  // Voiding one line, or every line when the cart is cleared
+  const requestVoid = (cartId?: string) => {
+      const lines = cartId ? items.filter(i => i.cartId === cartId) : items;
+      if (lines.length === 0) {
+          clearCart();
+          return;
+      }
+      setOverrideRequest({
+          type: 'VOID',
+          message: cartId
+              ? `Remove ${lines[0].nameEn} × ${lines[0].quantity} from the sale.`
+              : `Void all ${lines.length} line(s) of the current sale.`,
+          subjects: lines.map(i => lineSubject(i, `Voided ${i.quantity} ${getUnitName(i.saleUnit || i.unit)} × ${i.price.toLocaleString()} Ks`)),
+          approve: () => cartId ? removeItem(cartId) : clearCart()
+      });
+  };
+
+  const requestDiscountApproval = (change: DiscountChange | null, percent: number) => {
+      const item = change?.cartId ? items.find(i => i.cartId === change.cartId) : undefined;
+      const details = `Manual discount ${percent.toFixed(1)}% of subtotal (limit ${approvalThresholdPercent}%)`;
+      setOverrideRequest({
+          type: 'DISCOUNT',
+          message: `Discount of ${percent.toFixed(1)}% exceeds the ${approvalThresholdPercent}% limit.`,
+          subjects: [item ? lineSubject(item, details) : { details }],
+          approve: (approvedBy) => {
+              approveDiscount(approvedBy, percent);
+              if (change) applyDiscount(change);
+          }
+      });
+  };
+
+  const cartTotals = totals();
+
+  // Customer display: mirror the cart to any display window open on this machine
+  const displayChannel = useRef<BroadcastChannel | null>(null);
+  const displayBranding = toDisplayBranding(settings.shopNameReceipt || settings.companyName, getCurrentBranch());
+  const displayCart = toDisplayCart(items, cartTotals, customer, settings.pricesIncludeTax);
+  const latestDisplay = useRef<DisplayMessage>({ type: 'CART', branding: displayBranding, cart: displayCart });
+  latestDisplay.current = { type: 'CART', branding: displayBranding, cart: displayCart };
+  const displayKey = JSON.stringify(latestDisplay.current);
+
+  useEffect(() => {
+    const channel = openDisplayChannel();
+    if (!channel) return;
+    displayChannel.current = channel;
+    channel.onmessage = (e: MessageEvent<DisplayMessage>) => {
+      if (e.data.type === 'HELLO') channel.postMessage(latestDisplay.current);
+    };
+    return () => {
+      channel.close();
+      displayChannel.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    displayChannel.current?.postMessage(latestDisplay.current);
+  }, [displayKey]);
+
+  const openCustomerDisplay = () => {
+    window.open(`${window.location.pathname}#/customer-display`, 'parami-customer-display', 'popup,width=1024,height=768');
+  };
+
+  const applyDiscount = (change: DiscountChange) => {
+      if (change.cartId) {
+          setLineDiscount(change.cartId, change.discount?.value || 0, change.discount?.type || 'AMOUNT');
       } else {
-          alert('Invalid Credentials');
+          setCartDiscount(change.discount);
+      }
+      setEditingDiscount(null);
+  };
+
+  // Manual discounts beyond the threshold need a manager, unless one already approved at least this much
+  const needsDiscountApproval = (percent: number) =>
+      percent > approvalThresholdPercent && (!discountApproval || discountApproval.percent < percent);
+
+  const requestDiscount = (change: DiscountChange) => {
+      const prospectiveItems = change.cartId
+          ? items.map(i => i.cartId === change.cartId ? { ...i, discount: change.discount?.value || 0, discountType: change.discount?.type } : i)
+          : items;
+      const prospective = calculateCartTotals(prospectiveItems, change.cartId ? cartDiscount : change.discount, promotions, customer);
+
+      if (needsDiscountApproval(prospective.manualDiscountPercent)) {
+          requestDiscountApproval(change, prospective.manualDiscountPercent);
+          return;
+      }
+      applyDiscount(change);
+  };
+
+  const handleCharge = () => {
+      if (!openShift) return;
+      if (rxItems.length > 0) {
+          if (!prescription) {
+              setRxCapture({ product: rxItems[0], addAfter: false });
+              return;
+          }
+          if (!prescription.verifiedBy) {
+              setRxVerifyOpen(true);
+              return;
+          }
+      }
+      if (openDrugAlerts.length > 0) {
+          setDrugAlertsOpen(true);
+          return;
       }
+      // The customer may have been chosen after the items went in, so check their history again
+      if (!withinLimits(items, () => {})) return;
+      // Quantity changes can push an amount discount over the threshold after it was entered
+      if (needsDiscountApproval(cartTotals.manualDiscountPercent)) {
+          requestDiscountApproval(null, cartTotals.manualDiscountPercent);
+          return;
+      }
+      setPaymentModalOpen(true);
   };
 
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  useShortcuts({
+    'pos.search': () => searchInputRef.current?.focus(),
+    'pos.scan': () => setIsScannerOpen(true),
+    'pos.parked': () => setParkedModalOpen(true),
+    'pos.checkout': () => { if (items.length > 0 && openShift && !paymentModalOpen) handleCharge(); },
+    'pos.cancel': () => setSearchTerm('')
+  });
+
   const processBarcode = (code: string) => {
        const gs1Data = parseBarcode(code);
        
@@ -137,6 +488,20 @@ const POS = () => {
        }
 
        if (product) {
+          // Serialised pack: the same unit can be in the cart or sold only once
+          const serialGtin = product.gtin || gs1Data.gtin;
+          if (gs1Data.serialNumber && serialGtin) {
+              const inCart = items.some(i => (i.gtin || '') === serialGtin && i.transaction_data?.scanned_serial === gs1Data.serialNumber);
+              const serialCheck = inCart
+                  ? { success: false, error: `Serial ${gs1Data.serialNumber} is already in the cart.` }
+                  : checkSerial(serialGtin, gs1Data.serialNumber, 'SOLD');
+              if (!serialCheck.success) {
+                  setSearchTerm('');
+                  setScannedInfo({ msg: `${product.nameEn}: ${serialCheck.error} Do not sell this pack.`, type: 'error' });
+                  return false;
+              }
+          }
+
           // 2. Validate Expiry
           let isExpired = false;
           let isNearExpiry = false;
@@ -151,10 +516,32 @@ const POS = () => {
           }
 
           if (isExpired) {
-              // 3. Manager Approval Required
-              setManagerRequest({
-                  type: 'expired',
-                  data: { product, scanData: gs1Data }
+              // 3. Override Required
+              const scanData = gs1Data;
+              const expiredProduct = product;
+              setOverrideRequest({
+                  type: 'EXPIRED_ITEM',
+                  message: `${product.nameEn} batch ${scanData.batchNumber || '-'} expired on ${scanData.expiryDate}.`,
+                  subjects: [{
+                      productId: product.id,
+                      productName: product.nameEn,
+                      batchNumber: scanData.batchNumber,
+                      details: `Sold past expiry (${scanData.expiryDate})`
+                  }],
+                  approve: () => {
+                      addToCart(expiredProduct, {
+                          transactionData: {
+                              scanned_batch: scanData.batchNumber || null,
+                              scanned_expiry: scanData.expiryDate || null,
+                              scanned_serial: scanData.serialNumber || null,
+                              scanned_at: new Date().toISOString(),
+                              raw_barcode: scanData.rawData
+                          },
+                          warnings: ['EXPIRED'],
+                          override: true
+                      });
+                      setScannedInfo({ msg: `Approved: ${expiredProduct.nameEn} (Expired)`, type: 'warning' });
+                  }
               });
               return;
           }
@@ -163,7 +550,7 @@ const POS = () => {
           const warnings = [];
           if (isNearExpiry) warnings.push('NEAR_EXPIRY');
 
-          addItem(product, {
+          const added = addToCart(product, {
               transactionData: {
                   scanned_batch: gs1Data.batchNumber || null,
                   scanned_expiry: gs1Data.expiryDate || null,
@@ -175,9 +562,10 @@ const POS = () => {
           });
 
           setSearchTerm('');
-          if (isNearExpiry) {
+          // When nothing was added, addToCart has already said why (prescription or quantity limit)
+          if (added && isNearExpiry) {
              setScannedInfo({ msg: `Added: ${product.nameEn} (Expires soon!)`, type: 'warning' });
-          } else {
+          } else if (added) {
              setScannedInfo({ msg: `Added: ${product.nameEn}`, type: 'success' });
           }
           return true;
@@ -212,7 +600,7 @@ const POS = () => {
       addProduct(newProduct);
       
       // Add to cart immediately
-      addItem(newProduct, {
+      const added = addToCart(newProduct, {
           transactionData: {
               scanned_batch: notFoundScan?.batchNumber || null,
               scanned_expiry: notFoundScan?.expiryDate || null,
@@ -223,7 +611,7 @@ const POS = () => {
       });
       
       setNotFoundScan(null);
-      setScannedInfo({ msg: `Quick Added: ${newProduct.nameEn}`, type: 'success' });
+      if (added) setScannedInfo({ msg: `Quick Added: ${newProduct.nameEn}`, type: 'success' });
   };
 
   const handleScanInput = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -231,7 +619,7 @@ const POS = () => {
        processBarcode(searchTerm);
        setSearchTerm('');
        // Clear info after 3s unless it requires modal action
-       setTimeout(() => { if (!notFoundScan && !managerRequest) setScannedInfo(null) }, 3000);
+       setTimeout(() => { if (!notFoundScan && !overrideRequest) setScannedInfo(null) }, 3000);
     }
   };
 
@@ -242,24 +630,134 @@ const POS = () => {
       }
   };
 
-  const handleCheckout = () => {
-    const totalAmount = total();
+  const handleCheckout = async (tenders: Tender[], change: number) => {
+    if (checkoutBusy.current) return; // Payment confirmed twice while the invoice number was being reserved
+    const pointsTender = tenders.filter(t => t.method === 'POINTS').reduce((sum, t) => sum + t.amount, 0);
+    const pointsRedeemed = Math.round(pointsTender / loyaltyRules.pointValue);
+    if (pointsRedeemed > 0 && (!loyaltyCustomer || loyaltyCustomer.points < pointsRedeemed)) {
+      setCheckoutError('Not enough loyalty points for this redemption');
+      return;
+    }
+
+    // A serialised pack may have been sold elsewhere since it was scanned (parked cart, another terminal)
+    const serialLines = items.filter(i => i.gtin && i.transaction_data?.scanned_serial);
+    const soldSerial = serialLines
+      .map(i => ({ item: i, check: checkSerial(i.gtin!, i.transaction_data!.scanned_serial!, 'SOLD') }))
+      .find(r => !r.check.success);
+    if (soldSerial) {
+      setCheckoutError(`${soldSerial.item.nameEn}: ${soldSerial.check.error} Remove the line before checkout.`);
+      return;
+    }
+
+    const saleId = `SALE-${Date.now()}`;
+    const by = user?.name || 'Unknown';
+
+    // Reserve the invoice number before touching stock, so a failed reservation leaves nothing to undo
+    checkoutBusy.current = true;
+    let invoiceNumber: string;
+    try {
+      invoiceNumber = await reserveNumber(currentBranchId, 'INV', { by, reference: saleId });
+    } catch {
+      setCheckoutError('Could not issue an invoice number. Nothing was charged; try again.');
+      return;
+    } finally {
+      checkoutBusy.current = false;
+    }
+
+    // The cart must still be the one that was paid for; otherwise the number is voided and payment retaken
+    const cart = useCartStore.getState();
+    if (cart.items !== items || cart.customer !== customer || cart.cartDiscount !== cartDiscount) {
+      voidNumber(invoiceNumber, { reason: 'Cart changed during checkout', by });
+      setCheckoutError('The cart changed while the sale was being completed. Check it and take payment again.');
+      return;
+    }
+
+    // The whole sale is blocked if any line cannot be covered
+    const stockResult = deductStock(items.map(item => ({
+      productId: item.id,
+      quantity: toBaseQuantity(item),
+      preferredBatchId: item.batches.find(b => b.batchNumber === item.transaction_data?.scanned_batch)?.id || item.selectedBatchId
+    })));
+
+    if (!stockResult.success) {
+      voidNumber(invoiceNumber, { reason: `Checkout failed: ${stockResult.error || 'insufficient stock'}`, by });
+      setCheckoutError(stockResult.error || 'Insufficient stock');
+      return;
+    }
+
+    const totalAmount = cartTotals.total;
+    const paymentMethod = tenders.length === 1 ? tenders[0].method : 'SPLIT';
+    const pointsEarned = loyaltyCustomer ? calculateEarnedPoints(items, totalAmount, tenders, loyaltyCustomer.tier, loyaltyRules) : 0;
+    const now = new Date();
+    const sale: Sale = {
+      id: saleId,
+      invoiceNumber,
+      date: now.toISOString(),
+      total: totalAmount,
+      items: items.map((item, idx) => ({ ...item, allocations: stockResult.allocations[idx] })),
+      customer: customer || undefined,
+      cashierId: user?.id || 'unknown',
+      cashierName: user?.name || 'Unknown',
+      paymentMethod,
+      tenders,
+      change,
+      subtotal: cartTotals.subtotal,
+      discountTotal: cartTotals.discountTotal,
+      cartDiscount: cartDiscount || undefined,
+      promotions: cartTotals.promotions,
+      discountApprovedBy: discountApproval?.approvedBy,
+      prescription: rxItems.length > 0 && prescription ? prescription : undefined,
+      drugAlerts: acknowledgedAlerts.length > 0 ? acknowledgedAlerts : undefined,
+      taxTotal: cartTotals.taxTotal,
+      taxes: cartTotals.taxes,
+      pricesIncludeTax: settings.pricesIncludeTax,
+      shiftId: openShift?.id,
+      pointsEarned: pointsEarned || undefined,
+      pointsRedeemed: pointsRedeemed || undefined,
+      quotationId: quotationId || undefined,
+      branchId: currentBranchId,
+    };
+
     const newTransaction: Transaction = {
-      id: `TRX-${Date.now()}`,
+      id: `TRX-${now.getTime()}`,
       type: 'INCOME',
       category: 'Sales',
       amount: totalAmount,
-      date: new Date().toISOString().split('T')[0],
-      description: `POS Sale - ${items.length} items`,
-      paymentMethod: 'CASH',
+      date: now.toISOString().split('T')[0],
+      description: `POS Sale ${sale.invoiceNumber} - ${items.length} items`,
+      paymentMethod,
+      tenders,
       branchId: currentBranchId,
     };
     
+    addSale(sale);
+    displayChannel.current?.postMessage({
+      type: 'PAID',
+      branding: displayBranding,
+      total: totalAmount,
+      paid: tenders.reduce((sum, t) => sum + (t.tendered || t.amount), 0),
+      change
+    } as DisplayMessage);
+    if (openShift) attachSale(openShift.id, sale.id);
+    if (quotationId) markConverted(quotationId, sale.invoiceNumber);
+    serialLines.forEach(i => recordSerial(
+      { gtin: i.gtin!, serialNumber: i.transaction_data!.scanned_serial!, productId: i.id, batchNumber: i.transaction_data!.scanned_batch },
+      'SOLD',
+      { by: user?.name || 'Unknown', reference: sale.invoiceNumber }
+    ));
+    if (loyaltyCustomer) {
+      const posting = { reference: sale.invoiceNumber, saleId: sale.id, by: user?.name || 'Unknown' };
+      if (pointsRedeemed > 0) postPoints(loyaltyCustomer.id, -pointsRedeemed, 'REDEEM', posting);
+      if (pointsEarned > 0) postPoints(loyaltyCustomer.id, pointsEarned, 'EARN', posting);
+    }
     addTransaction(newTransaction);
+    setCheckoutError('');
     setPaymentModalOpen(false);
     clearCart();
-    setSuccessMsg('Transaction Completed Successfully!');
-    setTimeout(() => setSuccessMsg(''), 3000);
+    setLastSale(sale);
+    if (settings.autoPrint) printReceipt(sale, settings, getCurrentBranch());
+    setSuccessMsg(change > 0 ? `Transaction Completed! Change due: ${change.toLocaleString()} Ks` : 'Transaction Completed Successfully!');
+    setTimeout(() => setSuccessMsg(''), 5000);
   };
 
   return (
@@ -269,6 +767,14 @@ const POS = () => {
         <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[60] bg-emerald-600 text-white px-6 py-3 rounded-full shadow-lg flex items-center gap-2 animate-in fade-in slide-in-from-top-4">
            <CheckCircle size={20} />
            <span className="font-medium">{successMsg}</span>
+           {lastSale && !settings.autoPrint && (
+              <button
+                 onClick={() => printReceipt(lastSale, settings, getCurrentBranch())}
+                 className="ml-2 px-3 py-1 rounded-full bg-white/20 hover:bg-white/30 text-sm font-semibold flex items-center gap-1.5"
+              >
+                 <Printer size={14} /> Print Receipt
+              </button>
+           )}
         </div>
       )}
 
@@ -287,6 +793,7 @@ const POS = () => {
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   onKeyDown={handleScanInput}
+                  ref={searchInputRef}
                   autoFocus
                 />
              </div>
@@ -333,7 +840,7 @@ const POS = () => {
         <div className="flex-1 overflow-y-auto p-4 bg-slate-50/50">
            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
               {filteredProducts.map((product, index) => (
-                <ProductCard key={product.id} product={product} onAdd={() => addItem(product)} index={index} />
+                <ProductCard key={product.id} product={product} onAdd={() => addToCart(product)} index={index} />
               ))}
               {filteredProducts.length === 0 && (
                 <div className="col-span-full flex flex-col items-center justify-center text-slate-400 py-12">
@@ -356,9 +863,21 @@ const POS = () => {
                <h3 className="font-bold text-slate-800 flex items-center gap-2 text-lg">
                  <ShoppingCart size={20} className="text-blue-600" /> Current Sale
                </h3>
-               <button onClick={clearCart} className="text-xs text-red-600 hover:bg-red-50 px-2.5 py-1.5 rounded-lg transition-colors flex items-center gap-1.5 font-medium">
-                  <RotateCcw size={14} /> Clear
-               </button>
+               <div className="flex items-center gap-1">
+                  <button onClick={openCustomerDisplay} className="text-xs text-slate-500 hover:bg-slate-50 px-2 py-1.5 rounded-lg transition-colors flex items-center" title="Open customer display">
+                     <Monitor size={14} />
+                  </button>
+                  <button onClick={() => setParkedModalOpen(true)} className="text-xs text-amber-600 hover:bg-amber-50 px-2.5 py-1.5 rounded-lg transition-colors flex items-center gap-1.5 font-medium">
+                     <PauseCircle size={14} /> {items.length > 0 ? 'Park' : 'Parked'}
+                     {parkedCount > 0 && <span className="bg-amber-500 text-white text-[10px] font-bold px-1.5 rounded-full">{parkedCount}</span>}
+                  </button>
+                  <button onClick={() => setQuotationsModalOpen(true)} className="text-xs text-indigo-600 hover:bg-indigo-50 px-2.5 py-1.5 rounded-lg transition-colors flex items-center gap-1.5 font-medium" title="Quotations">
+                     <FileText size={14} /> Quote
+                  </button>
+                  <button onClick={() => requestVoid()} className="text-xs text-red-600 hover:bg-red-50 px-2.5 py-1.5 rounded-lg transition-colors flex items-center gap-1.5 font-medium">
+                     <RotateCcw size={14} /> Clear
+                  </button>
+               </div>
             </div>
             <div className="relative">
                <User className="absolute left-3.5 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
@@ -372,10 +891,16 @@ const POS = () => {
                >
                   <option value="">Walk-in Customer</option>
                   {customers.map(c => (
-                    <option key={c.id} value={c.id}>{c.name} ({c.tier})</option>
+                    <option key={c.id} value={c.id}>{c.name} ({c.tier} · {c.points.toLocaleString()} pts)</option>
                   ))}
                </select>
             </div>
+            {customerPriceList && (
+               <p className="text-[11px] text-indigo-600 mt-1.5 flex items-center gap-1"><Tag size={10}/> {customerPriceList.name} prices applied</p>
+            )}
+            {quotationId && (
+               <p className="text-[11px] text-indigo-600 mt-1.5 flex items-center gap-1"><FileText size={10}/> Converting quotation {quotationId}</p>
+            )}
          </div>
 
          {/* Cart Items */}
@@ -383,7 +908,7 @@ const POS = () => {
             {items.map(item => (
               <div key={item.cartId} className={`flex gap-3 bg-white border rounded-xl p-3 shadow-sm hover:border-blue-200 transition-all group relative animate-in slide-in-from-right-4 fade-in duration-300 ${item.warning_flags?.includes('EXPIRED') ? 'border-red-300 bg-red-50/20' : 'border-slate-100'}`}>
                  <button 
-                   onClick={() => removeItem(item.cartId)}
+                   onClick={() => requestVoid(item.cartId)}
                    className="absolute -top-2 -right-2 bg-white text-slate-400 hover:text-red-500 border border-slate-100 shadow-sm rounded-full p-1 opacity-0 group-hover:opacity-100 transition-all scale-90 group-hover:scale-100 z-10"
                  >
                     <X size={14} />
@@ -405,13 +930,71 @@ const POS = () => {
                                     Exp: {item.transaction_data.scanned_expiry}
                                 </Badge>
                             )}
+                            {item.transaction_data?.scanned_serial && (
+                                <Badge variant="neutral" className="text-[10px] px-1 py-0 font-mono">SN {item.transaction_data.scanned_serial}</Badge>
+                            )}
                             {item.manager_override && (
                                 <Badge variant="warning" className="text-[10px] px-1 py-0 flex gap-0.5"><Lock size={8}/> Override</Badge>
                             )}
+                            {item.priceListId && item.originalPrice === undefined && (
+                                <Badge variant="info" className="text-[10px] px-1 py-0 flex gap-0.5"><Tag size={8}/> {priceLists.find(l => l.id === item.priceListId)?.name || 'Price list'}</Badge>
+                            )}
+                            {item.originalPrice !== undefined && (
+                                <Badge variant="warning" className="text-[10px] px-1 py-0 flex gap-0.5"><Lock size={8}/> {item.price.toLocaleString()} Ks (was {item.originalPrice.toLocaleString()})</Badge>
+                            )}
+                            {item.requiresPrescription && (
+                                <Badge variant="danger" className="text-[10px] px-1 py-0 flex gap-0.5"><Stethoscope size={8}/> Rx</Badge>
+                            )}
+                            {lineDiscount(item) > 0 && (
+                                <Badge variant="success" className="text-[10px] px-1 py-0">
+                                    -{item.discountType === 'PERCENT' ? `${item.discount}%` : `${lineDiscount(item).toLocaleString()} Ks`}
+                                </Badge>
+                            )}
+                            {cartTotals.promotions.filter(p => p.cartId === item.cartId).map(p => (
+                                <Badge key={p.promotionId} variant="success" className="text-[10px] px-1 py-0 flex gap-0.5"><Tag size={8}/> {p.name}</Badge>
+                            ))}
+                            <button
+                                onClick={() => setEditingDiscount(editingDiscount === item.cartId ? null : item.cartId)}
+                                className="text-[10px] px-1.5 rounded-full border border-dashed border-slate-300 text-slate-400 hover:text-blue-600 hover:border-blue-400 flex items-center gap-0.5"
+                                title="Line discount"
+                            >
+                                <Percent size={8}/> Disc
+                            </button>
+                            <button
+                                onClick={() => setEditingPrice(editingPrice === item.cartId ? null : item.cartId)}
+                                className="text-[10px] px-1.5 rounded-full border border-dashed border-slate-300 text-slate-400 hover:text-blue-600 hover:border-blue-400 flex items-center gap-0.5"
+                                title="Change unit price"
+                            >
+                                <Tag size={8}/> Price
+                            </button>
                         </div>
+                        {item.batches.length > 0 && !item.transaction_data?.scanned_batch && (
+                            <BatchPicker
+                                item={item}
+                                product={products.find(p => p.id === item.id) || item}
+                                items={items}
+                                onPick={(batchId) => setLineBatch(item.cartId, batchId)}
+                                onSplit={() => splitLineAcrossBatches(item.cartId)}
+                            />
+                        )}
+                        {editingPrice === item.cartId && (
+                            <PriceEditor
+                                initial={item.price}
+                                onApply={(price) => requestPriceChange(item, price)}
+                                onCancel={() => setEditingPrice(null)}
+                            />
+                        )}
+                        {editingDiscount === item.cartId && (
+                            <DiscountEditor
+                                initial={item.discount ? { type: item.discountType || 'AMOUNT', value: item.discount } : null}
+                                onApply={(d) => requestDiscount({ cartId: item.cartId, discount: d })}
+                                onCancel={() => setEditingDiscount(null)}
+                            />
+                        )}
                     </div>
                     
                     <div className="flex items-end justify-between mt-2">
+                       <div className="flex items-center gap-1.5">
                        <div className="flex items-center bg-slate-100 rounded-lg p-0.5 border border-slate-200">
                           <button 
                             onClick={() => updateQuantity(item.cartId, item.quantity - 1)}
@@ -421,20 +1004,49 @@ const POS = () => {
                           </button>
                           <span className="w-8 text-center text-xs font-bold text-slate-700">{item.quantity}</span>
                           <button 
-                             onClick={() => updateQuantity(item.cartId, item.quantity + 1)}
-                             className="w-6 h-6 flex items-center justify-center hover:bg-white hover:shadow-sm rounded-md text-slate-600 transition-all active:scale-95"
+                             onClick={() => changeQuantity(item, item.quantity + 1)}
+                             disabled={!!item.transaction_data?.scanned_serial}
+                             title={item.transaction_data?.scanned_serial ? 'Serialised pack: scan each unit' : undefined}
+                             className="w-6 h-6 flex items-center justify-center hover:bg-white hover:shadow-sm rounded-md text-slate-600 transition-all active:scale-95 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:shadow-none"
                           >
                             <Plus size={12} />
                           </button>
                        </div>
-                       <p className="text-sm font-bold text-slate-900">
-                          {(item.price * item.quantity).toLocaleString()}
-                       </p>
+                       {item.packUnits?.length ? (
+                          <select
+                             value={item.saleUnit || item.unit}
+                             onChange={(e) => changeUnit(item, e.target.value)}
+                             className="h-7 px-1.5 bg-white border border-slate-200 rounded-lg text-[11px] font-semibold text-slate-600 focus:outline-none focus:border-blue-500"
+                             title="Selling unit"
+                          >
+                             {getSellingUnits(item).map(u => (
+                                <option key={u.unit} value={u.unit}>{getUnitName(u.unit)}{u.factor > 1 ? ` (${u.factor})` : ''}</option>
+                             ))}
+                          </select>
+                       ) : null}
+                       </div>
+                       <div className="text-right">
+                          {lineDiscount(item) > 0 && (
+                             <p className="text-[10px] text-slate-400 line-through">{lineGross(item).toLocaleString()}</p>
+                          )}
+                          <p className="text-sm font-bold text-slate-900">
+                             {lineNet(item).toLocaleString()}
+                          </p>
+                       </div>
                     </div>
                  </div>
               </div>
             ))}
 
+            {openDrugAlerts.length > 0 && (
+               <div className="space-y-2">
+                  {openDrugAlerts.map(alert => <DrugAlertItem key={alert.key} alert={alert} />)}
+                  <button onClick={() => setDrugAlertsOpen(true)} className="w-full text-xs font-bold text-red-700 hover:underline flex items-center justify-center gap-1">
+                     <ShieldAlert size={12} /> Pharmacist review required
+                  </button>
+               </div>
+            )}
+
             {items.length === 0 && (
                <div className="h-full flex flex-col items-center justify-center text-slate-400 space-y-4 opacity-60">
                   <div className="w-20 h-20 bg-slate-100 rounded-full flex items-center justify-center">
@@ -450,103 +1062,152 @@ const POS = () => {
             <div className="space-y-2 text-sm">
                <div className="flex justify-between text-slate-500">
                   <span>Subtotal</span>
-                  <span className="font-medium text-slate-700">{total().toLocaleString()} Ks</span>
-               </div>
-               <div className="flex justify-between text-slate-500">
-                  <span>Tax (0%)</span>
-                  <span className="font-medium text-slate-700">0 Ks</span>
+                  <span className="font-medium text-slate-700">{cartTotals.subtotal.toLocaleString()} Ks</span>
                </div>
-               {customer && (
-                  <div className="flex justify-between text-emerald-600 font-medium bg-emerald-50 px-2 py-1 rounded-lg">
-                     <span className="flex items-center gap-1.5"><CheckCircle size={12}/> {customer.tier} Discount</span>
-                     <span>-0 Ks</span>
+               {cartTotals.lineDiscount > 0 && (
+                  <div className="flex justify-between text-slate-500">
+                     <span>Line Discounts</span>
+                     <span className="font-medium text-emerald-600">-{cartTotals.lineDiscount.toLocaleString()} Ks</span>
+                  </div>
+               )}
+               {cartTotals.promotions.filter(p => !p.cartId).map(p => (
+                  <div key={p.promotionId} className="flex justify-between text-emerald-600 font-medium bg-emerald-50 px-2 py-1 rounded-lg">
+                     <span className="flex items-center gap-1.5"><CheckCircle size={12}/> {p.name}</span>
+                     <span>-{p.amount.toLocaleString()} Ks</span>
                   </div>
+               ))}
+               {cartTotals.promotions.some(p => p.cartId) && (
+                  <div className="flex justify-between text-slate-500">
+                     <span className="flex items-center gap-1.5"><Tag size={12}/> Promotions</span>
+                     <span className="font-medium text-emerald-600">
+                        -{cartTotals.promotions.filter(p => p.cartId).reduce((sum, p) => sum + p.amount, 0).toLocaleString()} Ks
+                     </span>
+                  </div>
+               )}
+               <div className="flex justify-between items-center text-slate-500">
+                  <button
+                     onClick={() => setEditingDiscount(editingDiscount === 'CART' ? null : 'CART')}
+                     disabled={items.length === 0}
+                     className="flex items-center gap-1.5 hover:text-blue-600 disabled:hover:text-slate-500"
+                  >
+                     <Percent size={12}/> Cart Discount{cartDiscount?.type === 'PERCENT' ? ` (${cartDiscount.value}%)` : ''}
+                  </button>
+                  <span className="font-medium text-emerald-600">{cartTotals.cartDiscount > 0 ? `-${cartTotals.cartDiscount.toLocaleString()} Ks` : '—'}</span>
+               </div>
+               {editingDiscount === 'CART' && (
+                  <DiscountEditor
+                     initial={cartDiscount}
+                     onApply={(d) => requestDiscount({ discount: d })}
+                     onCancel={() => setEditingDiscount(null)}
+                  />
+               )}
+               {discountApproval && (
+                  <div className="text-[11px] text-amber-600 flex items-center gap-1"><Lock size={10}/> Discount approved by {discountApproval.approvedBy}</div>
                )}
+               <div className="flex justify-between text-slate-500">
+                  <span>{settings.pricesIncludeTax ? 'Tax (included)' : 'Tax'}</span>
+                  <span className="font-medium text-slate-700">{cartTotals.taxTotal > 0 && !settings.pricesIncludeTax ? '+' : ''}{cartTotals.taxTotal.toLocaleString()} Ks</span>
+               </div>
                <div className="flex justify-between text-xl font-bold text-slate-900 pt-3 border-t border-dashed border-slate-200 mt-2">
                   <span>Total</span>
-                  <span>{total().toLocaleString()} Ks</span>
+                  <span>{cartTotals.total.toLocaleString()} Ks</span>
                </div>
             </div>
 
+            {rxItems.length > 0 && (
+               <div className={`mb-3 p-2.5 rounded-xl text-xs flex items-center justify-between gap-2 border ${prescription?.verifiedBy ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-red-50 text-red-700 border-red-100'}`}>
+                  <span className="flex items-center gap-1.5 min-w-0">
+                     {prescription?.verifiedBy ? <ShieldCheck size={14} className="shrink-0" /> : <Stethoscope size={14} className="shrink-0" />}
+                     <span className="truncate">
+                        {!prescription ? 'Prescription not recorded' :
+                         prescription.verifiedBy ? `Rx ${prescription.patientName} · verified by ${prescription.verifiedBy}` :
+                         `Rx ${prescription.patientName} · awaiting pharmacist`}
+                     </span>
+                  </span>
+                  {prescription && !prescription.verifiedBy && (
+                     <button onClick={() => setRxVerifyOpen(true)} className="font-bold hover:underline shrink-0">Verify</button>
+                  )}
+                  {!prescription && (
+                     <button onClick={() => setRxCapture({ product: rxItems[0], addAfter: false })} className="font-bold hover:underline shrink-0">Record</button>
+                  )}
+               </div>
+            )}
+
+            {acknowledgedAlerts.length > 0 && openDrugAlerts.length === 0 && (
+               <div className="mb-3 p-2.5 rounded-xl text-xs flex items-center gap-1.5 bg-emerald-50 text-emerald-700 border border-emerald-100">
+                  <ShieldCheck size={14} className="shrink-0" />
+                  <span className="truncate">{acknowledgedAlerts.length} drug alert{acknowledgedAlerts.length === 1 ? '' : 's'} reviewed by {Array.from(new Set(acknowledgedAlerts.map(a => a.acknowledgedBy))).join(', ')}</span>
+               </div>
+            )}
+
+            {!openShift && (
+               <div className="mb-3 p-2.5 rounded-xl text-xs flex items-center justify-between gap-2 bg-amber-50 text-amber-700 border border-amber-100">
+                  <span className="flex items-center gap-1.5"><Wallet size={14} /> No open shift for {user?.name || 'this cashier'}.</span>
+                  <Link to="/shifts" className="font-bold hover:underline">Open shift</Link>
+               </div>
+            )}
+
             <Button 
                variant="primary" 
                className="w-full h-12 text-base font-bold shadow-xl shadow-blue-500/20 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 border-0 transform active:scale-[0.98] transition-all"
-               disabled={items.length === 0}
-               onClick={() => setPaymentModalOpen(true)}
+               disabled={items.length === 0 || !openShift}
+               onClick={handleCharge}
             >
-               Charge {total().toLocaleString()} Ks
+               Charge {cartTotals.total.toLocaleString()} Ks
             </Button>
          </div>
       </div>
 
       {/* Payment Modal */}
       {paymentModalOpen && (
-         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
-            <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl p-6 animate-in zoom-in-95 duration-200 scale-100">
-               <h3 className="text-xl font-bold text-slate-800 mb-1">Confirm Payment</h3>
-               <p className="text-sm text-slate-500 mb-6">Total Amount: <span className="font-bold text-slate-900">{total().toLocaleString()} Ks</span></p>
-               
-               <div className="grid grid-cols-2 gap-3 mb-6">
-                  <button className="flex flex-col items-center justify-center gap-2 p-4 border-2 border-blue-600 bg-blue-50/50 rounded-xl text-blue-700 transition-all">
-                     <Banknote size={28} />
-                     <span className="font-bold text-sm">Cash</span>
-                  </button>
-                  <button className="flex flex-col items-center justify-center gap-2 p-4 border-2 border-transparent bg-slate-50 hover:bg-slate-100 rounded-xl text-slate-600 transition-all">
-                     <QrCode size={28} />
-                     <span className="font-medium text-sm">KBZ Pay</span>
-                  </button>
-               </div>
+         <PaymentModal
+            total={cartTotals.total}
+            error={checkoutError}
+            loyalty={loyaltyCustomer && loyaltyRules.enabled ? { balance: loyaltyCustomer.points, pointValue: loyaltyRules.pointValue, minRedeemPoints: loyaltyRules.minRedeemPoints } : undefined}
+            onCancel={() => { setPaymentModalOpen(false); setCheckoutError(''); }}
+            onComplete={handleCheckout}
+         />
+      )}
 
-               <div className="space-y-4">
-                  <Input label="Cash Received" placeholder="0" autoFocus className="text-lg font-mono" />
-                  <div className="flex justify-between text-sm p-4 bg-slate-50 rounded-xl border border-slate-100">
-                     <span className="text-slate-500 font-medium">Change Due</span>
-                     <span className="font-bold text-slate-800 text-lg">0 Ks</span>
-                  </div>
-               </div>
+      {/* Prescription Capture / Verification */}
+      {rxCapture && (
+         <PrescriptionCaptureModal
+            productName={rxCapture.product.nameEn}
+            onCancel={() => setRxCapture(null)}
+            onSave={handleRxSaved}
+         />
+      )}
+      {rxVerifyOpen && prescription && (
+         <PharmacistVerifyModal
+            prescription={prescription}
+            productNames={rxItems.map(i => i.nameEn)}
+            onCancel={() => setRxVerifyOpen(false)}
+            onVerified={(pharmacist) => { verifyPrescription(pharmacist); setRxVerifyOpen(false); }}
+         />
+      )}
 
-               <div className="flex gap-3 mt-8">
-                  <Button variant="outline" className="flex-1 h-11" onClick={() => setPaymentModalOpen(false)}>Cancel</Button>
-                  <Button variant="primary" className="flex-1 h-11 bg-blue-600 hover:bg-blue-700 shadow-lg shadow-blue-500/20" onClick={handleCheckout}>Complete Sale</Button>
-               </div>
-            </div>
-         </div>
+      {drugAlertsOpen && openDrugAlerts.length > 0 && (
+         <DrugAlertAckModal
+            alerts={openDrugAlerts}
+            onCancel={() => setDrugAlertsOpen(false)}
+            onAcknowledged={(pharmacist) => { acknowledgeDrugAlerts(openDrugAlerts, pharmacist); setDrugAlertsOpen(false); }}
+         />
       )}
 
-      {/* Manager Approval Modal */}
-      {managerRequest && (
-          <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4 animate-in fade-in">
-              <div className="bg-white w-full max-w-sm rounded-2xl shadow-2xl p-6 border-t-4 border-red-500">
-                  <div className="text-center mb-6">
-                      <div className="w-14 h-14 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-3 text-red-600">
-                          <Lock size={28} />
-                      </div>
-                      <h3 className="text-lg font-bold text-slate-900">Manager Approval Required</h3>
-                      <p className="text-sm text-slate-500 mt-1">
-                          {managerRequest.type === 'expired' ? 'Authorized override for expired item.' : 'Authorized quick add for new product.'}
-                      </p>
-                  </div>
-                  
-                  <div className="space-y-3">
-                      <Input 
-                          placeholder="Manager ID" 
-                          value={managerCreds.id}
-                          onChange={(e: any) => setManagerCreds({...managerCreds, id: e.target.value})}
-                      />
-                      <Input 
-                          type="password"
-                          placeholder="Password" 
-                          value={managerCreds.password}
-                          onChange={(e: any) => setManagerCreds({...managerCreds, password: e.target.value})}
-                      />
-                  </div>
+      {/* Parked Sales Modal */}
+      {parkedModalOpen && <ParkedCartsModal onClose={() => setParkedModalOpen(false)} />}
 
-                  <div className="flex gap-3 mt-6">
-                      <Button variant="outline" className="flex-1" onClick={() => setManagerRequest(null)}>Cancel</Button>
-                      <Button variant="danger" className="flex-1" onClick={handleManagerLogin}>Authorize</Button>
-                  </div>
-              </div>
-          </div>
+      {/* Quotations Modal */}
+      {quotationsModalOpen && <QuotationsModal onClose={() => setQuotationsModalOpen(false)} />}
+
+      {/* Override Authorization Modal */}
+      {overrideRequest && (
+          <OverrideAuthModal
+              type={overrideRequest.type}
+              message={overrideRequest.message}
+              onCancel={() => setOverrideRequest(null)}
+              onAuthorized={handleOverrideAuthorized}
+          />
       )}
 
       {/* Product Not Found / Quick Add Modal */}
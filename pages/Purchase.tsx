@@ -1,7 +1,7 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { Card, Button, Badge, Input } from '../components/UI';
-import { usePurchaseStore, useSupplierStore, useProductStore } from '../store';
+import { usePurchaseStore, useSupplierStore, useProductStore, useNumberingStore, useBranchStore, useAuthStore } from '../store';
 import { PurchaseOrder, Supplier } from '../types';
 import { ShoppingBag, Plus, Phone, Mail, FileText, Download, Edit2, Trash2, X, Save, Minus, CheckCircle, Clock, Truck, CreditCard, Banknote, Search, AlertCircle, Loader2, Check, Calendar, ChevronDown, Store } from 'lucide-react';
 
@@ -18,6 +18,9 @@ const Purchase = () => {
   const { purchaseOrders, addPO, updatePO, deletePO } = usePurchaseStore();
   const { suppliers, addSupplier, updateSupplier, deleteSupplier } = useSupplierStore();
   const { products } = useProductStore();
+  const { reserveNumber, voidNumber } = useNumberingStore();
+  const { currentBranchId } = useBranchStore();
+  const { user } = useAuthStore();
   
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingPO, setEditingPO] = useState<PurchaseOrder | null>(null);
@@ -27,6 +30,9 @@ const Purchase = () => {
   const [isDeleting, setIsDeleting] = useState(false);
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [successMsg, setSuccessMsg] = useState('');
+  const [saveError, setSaveError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const saving = useRef(false); // Save clicked twice while the PO number was being reserved
 
   // PO Form State
   const [formData, setFormData] = useState<PurchaseOrder>({
@@ -78,7 +84,7 @@ const Purchase = () => {
   const handleCreateNew = () => {
     setEditingPO(null);
     setFormData({
-      id: `PO-${new Date().getFullYear().toString().slice(-2)}${(new Date().getMonth()+1).toString().padStart(2, '0')}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`,
+      id: '', // Numbered on save so an abandoned draft does not use up a number
       supplierId: suppliers[0]?.id || '',
       supplierName: suppliers[0]?.name || '',
       date: new Date().toISOString().split('T')[0],
@@ -89,12 +95,14 @@ const Purchase = () => {
       notes: '',
       branchId: ''
     });
+    setSaveError('');
     setIsModalOpen(true);
   };
 
   const handleEdit = (po: PurchaseOrder) => {
     setEditingPO(po);
     setFormData({ ...po }); 
+    setSaveError('');
     setIsModalOpen(true);
   };
 
@@ -111,6 +119,8 @@ const Purchase = () => {
     if (!editingPO) return;
     setIsDeleting(true);
 
+    // The PO number stays in the register as void
+    voidNumber(editingPO.id, { reason: 'Purchase order deleted', by: user?.name || 'Unknown' });
     setTimeout(() => {
       deletePO(editingPO.id);
       setIsDeleting(false);
@@ -122,7 +132,8 @@ const Purchase = () => {
     }, 1000);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
+    if (saving.current) return;
     if (!formData.supplierId) {
       alert("Please select a supplier");
       return;
@@ -140,8 +151,20 @@ const Purchase = () => {
       updatePO(finalPO);
       setSuccessMsg("Purchase Order updated successfully");
     } else {
-      addPO(finalPO);
-      setSuccessMsg("Purchase Order created successfully");
+      saving.current = true;
+      setIsSaving(true);
+      let number: string;
+      try {
+        number = await reserveNumber(currentBranchId, 'PO', { by: user?.name || 'Unknown' });
+      } catch {
+        setSaveError('Could not issue a PO number. The order was not saved; try again.');
+        return;
+      } finally {
+        saving.current = false;
+        setIsSaving(false);
+      }
+      addPO({ ...finalPO, id: number });
+      setSuccessMsg(`Purchase Order ${number} created successfully`);
     }
     setIsModalOpen(false);
     setTimeout(() => setSuccessMsg(""), 3000);
@@ -674,6 +697,11 @@ const Purchase = () => {
                           <Trash2 size={18} className="mr-2"/> Delete Order
                        </Button>
                     )}
+                    {saveError && (
+                       <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+                          <AlertCircle size={16} className="shrink-0" /> {saveError}
+                       </div>
+                    )}
                  </div>
                  <div className="flex gap-4">
                     <button 
@@ -684,7 +712,8 @@ const Purchase = () => {
                     </button>
                     <button 
                        onClick={handleSave}
-                       className="px-8 py-3 rounded-xl bg-gradient-to-r from-red-500 to-red-600 text-white font-semibold shadow-lg hover:shadow-xl hover:from-red-600 hover:to-red-700 hover:scale-[1.02] active:scale-[0.98] transition-all flex items-center gap-2"
+                       disabled={isSaving}
+                       className="px-8 py-3 rounded-xl bg-gradient-to-r from-red-500 to-red-600 text-white font-semibold shadow-lg hover:shadow-xl hover:from-red-600 hover:to-red-700 hover:scale-[1.02] active:scale-[0.98] transition-all flex items-center gap-2 disabled:opacity-50 disabled:pointer-events-none"
                     >
                        <Save size={20} /> Save Order
                     </button>
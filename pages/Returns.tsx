@@ -0,0 +1,386 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, Button, Badge } from '../components/UI';
+import { useSalesStore, useReturnStore, useProductStore, useTransactionStore, useBranchStore, useAuthStore, useShiftStore, useCustomerStore, useSerialStore, useNumberingStore } from '../store';
+import { ScanLine, Undo2, AlertCircle, CheckCircle, PackageX, Receipt } from 'lucide-react';
+import { Sale, SaleReturn, ReturnItem, Transaction, PAYMENT_METHODS } from '../types';
+import { getReturnedQuantities, getUnitRefund, getReturnAllocations, allocateRefundTenders } from '../utils/returns';
+import { getUnitName, toBaseQuantity } from '../utils/units';
+import { getReturnPointsAdjustment } from '../utils/loyalty';
+import { getReturnTax } from '../utils/tax';
+import { useShortcuts } from '../components/ShortcutPanel';
+
+interface ReturnLineState {
+  quantity: number;
+  opened: boolean;
+}
+
+const getMethodName = (code: string) => PAYMENT_METHODS.find(m => m.code === code)?.nameEn || code;
+
+const Returns = () => {
+  const { allSales } = useSalesStore();
+  const { returns, getReturnsForSale, addReturn } = useReturnStore();
+  const { restockReturn } = useProductStore();
+  const { addTransaction } = useTransactionStore();
+  const { currentBranchId } = useBranchStore();
+  const { reserveNumber } = useNumberingStore();
+  const processing = useRef(false);
+  const { user } = useAuthStore();
+  const openShift = useShiftStore(state => state.shifts.find(sh => sh.cashierId === user?.id && sh.status === 'OPEN'));
+  const { attachReturn } = useShiftStore();
+  const { allCustomers, postPoints } = useCustomerStore();
+  const { recordSerial } = useSerialStore();
+  const [searchParams] = useSearchParams();
+
+  const [lookup, setLookup] = useState(searchParams.get('invoice') || '');
+  const [sale, setSale] = useState<Sale | null>(null);
+  const [lines, setLines] = useState<Record<string, ReturnLineState>>({});
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+  const [successMsg, setSuccessMsg] = useState('');
+  const lookupRef = useRef<HTMLInputElement>(null);
+  useShortcuts({ 'returns.lookup': () => lookupRef.current?.focus() });
+
+  // Receipts carry the invoice number as their barcode, so a scan lands here like typed input
+  const findSale = (code: string) => {
+    const term = code.trim().toUpperCase();
+    if (!term) return;
+
+    const found = allSales.find(s => s.invoiceNumber.toUpperCase() === term || s.id.toUpperCase() === term);
+    if (!found) {
+      setError(`No sale found for "${code.trim()}".`);
+      setSale(null);
+      return;
+    }
+    if (found.branchId !== currentBranchId) {
+      setError(`Invoice ${found.invoiceNumber} was sold at another branch. Returns must be processed there.`);
+      setSale(null);
+      return;
+    }
+
+    setError('');
+    setSale(found);
+    setLines({});
+    setReason('');
+  };
+
+  useEffect(() => {
+    if (searchParams.get('invoice')) findSale(searchParams.get('invoice')!);
+  }, []);
+
+  const previousReturns = sale ? getReturnsForSale(sale.id) : [];
+  const returnedQty = getReturnedQuantities(previousReturns);
+
+  const setLine = (cartId: string, updates: Partial<ReturnLineState>) => {
+    setLines(prev => ({ ...prev, [cartId]: { ...(prev[cartId] || { quantity: 0, opened: false }), ...updates } }));
+  };
+
+  const returnAll = () => {
+    if (!sale) return;
+    const all: Record<string, ReturnLineState> = {};
+    sale.items.forEach(i => {
+      all[i.cartId] = { quantity: i.quantity - (returnedQty.get(i.cartId) || 0), opened: lines[i.cartId]?.opened || false };
+    });
+    setLines(all);
+  };
+
+  const selectedItems = useMemo(() => {
+    if (!sale) return [];
+    return sale.items
+      .filter(i => (lines[i.cartId]?.quantity || 0) > 0)
+      .map(i => ({ item: i, ...lines[i.cartId], unitRefund: getUnitRefund(sale, i) }));
+  }, [sale, lines]);
+
+  const requestedRefund = Math.round(selectedItems.reduce((sum, l) => sum + l.unitRefund * l.quantity, 0));
+  const refundTenders = sale ? allocateRefundTenders(sale, requestedRefund, previousReturns) : [];
+  // Never pays out more than was taken on the sale, whatever rounding did across partial returns
+  const refundTotal = refundTenders.reduce((sum, t) => sum + t.amount, 0);
+
+  const handleProcess = async () => {
+    if (!sale || processing.current) return;
+    if (selectedItems.length === 0) {
+      setError('Enter a quantity to return on at least one line.');
+      return;
+    }
+    if (!reason.trim()) {
+      setError('Enter the reason for the return.');
+      return;
+    }
+    // The refund is paid out of the till, so it has to land on a shift
+    if (!openShift) {
+      setError('Open a shift before processing a refund.');
+      return;
+    }
+
+    // Points already spent elsewhere cannot be taken back below zero
+    const customer = sale.customer ? allCustomers.find(c => c.id === sale.customer!.id) : undefined;
+    const pointsAdjustment = customer ? getReturnPointsAdjustment(sale, refundTenders, previousReturns) : { reversed: 0, restored: 0 };
+    const pointsReversed = customer ? Math.min(pointsAdjustment.reversed, customer.points + pointsAdjustment.restored) : 0;
+
+    const returnId = `RET-${Date.now()}`;
+    processing.current = true;
+    let returnNumber: string;
+    try {
+      returnNumber = await reserveNumber(currentBranchId, 'RTN', { by: user?.name || 'Unknown', reference: returnId });
+    } catch {
+      setError('Could not issue a return number. Nothing was refunded; try again.');
+      return;
+    } finally {
+      processing.current = false;
+    }
+
+    const now = new Date();
+    const items: ReturnItem[] = selectedItems.map(l => ({
+      cartId: l.item.cartId,
+      productId: l.item.id,
+      nameEn: l.item.nameEn,
+      nameMm: l.item.nameMm,
+      quantity: l.quantity,
+      unitRefund: l.unitRefund,
+      unitFactor: l.item.unitFactor,
+      allocations: getReturnAllocations(l.item, l.quantity, previousReturns),
+      opened: l.opened
+    }));
+    const taxTotal = getReturnTax(sale, items).reduce((sum, t) => sum + t.tax, 0);
+
+    const saleReturn: SaleReturn = {
+      id: returnId,
+      returnNumber,
+      saleId: sale.id,
+      invoiceNumber: sale.invoiceNumber,
+      date: now.toISOString(),
+      items,
+      refundTotal,
+      tenders: refundTenders,
+      taxTotal: sale.taxes ? taxTotal : undefined,
+      pointsReversed: pointsReversed || undefined,
+      pointsRestored: pointsAdjustment.restored || undefined,
+      reason: reason.trim(),
+      processedBy: user?.name || 'Unknown',
+      shiftId: openShift.id,
+      branchId: currentBranchId
+    };
+
+    const paidOut = refundTenders.filter(t => t.amount > 0);
+    const refundTransaction: Transaction = {
+      id: `TRX-${now.getTime()}`,
+      type: 'INCOME',
+      category: 'Sales Return',
+      amount: -refundTotal,
+      date: now.toISOString().split('T')[0],
+      description: `Refund ${saleReturn.returnNumber} for ${sale.invoiceNumber} - ${items.length} items`,
+      paymentMethod: paidOut.length === 1 ? paidOut[0].method : 'SPLIT',
+      tenders: paidOut.map(t => ({ ...t, amount: -t.amount })),
+      branchId: currentBranchId
+    };
+
+    items.forEach(i => restockReturn(i.productId, toBaseQuantity(i), i.allocations, i.opened));
+    addReturn(saleReturn);
+    attachReturn(openShift.id, saleReturn.id);
+    addTransaction(refundTransaction);
+    // An opened serialised pack is quarantined, so it can never be sold again
+    selectedItems
+      .filter(l => l.item.gtin && l.item.transaction_data?.scanned_serial)
+      .forEach(l => recordSerial(
+        { gtin: l.item.gtin!, serialNumber: l.item.transaction_data!.scanned_serial!, productId: l.item.id, batchNumber: l.item.transaction_data!.scanned_batch },
+        l.opened ? 'DECOMMISSIONED' : 'RETURNED',
+        { by: user?.name || 'Unknown', reference: saleReturn.returnNumber }
+      ));
+    if (customer) {
+      const posting = { reference: saleReturn.returnNumber, saleId: sale.id, by: user?.name || 'Unknown' };
+      if (pointsAdjustment.restored > 0) postPoints(customer.id, pointsAdjustment.restored, 'REVERSAL', { ...posting, note: 'Redeemed points refunded' });
+      if (pointsReversed > 0) postPoints(customer.id, -pointsReversed, 'REVERSAL', { ...posting, note: 'Earned points reversed' });
+    }
+
+    setSuccessMsg(`${saleReturn.returnNumber} processed. Refund ${refundTotal.toLocaleString()} Ks.`);
+    setTimeout(() => setSuccessMsg(''), 4000);
+    setSale(null);
+    setLines({});
+    setReason('');
+    setLookup('');
+    lookupRef.current?.focus();
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+          Sales Returns
+          <span className="text-base font-normal text-slate-400 font-mm ml-2">ပစ္စည်းပြန်လည်လက်ခံခြင်း</span>
+        </h1>
+        <p className="text-slate-500 text-sm">Find the sale by invoice number or scan the receipt, then choose what comes back.</p>
+      </div>
+
+      {successMsg && (
+        <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-emerald-50 text-emerald-700 border border-emerald-100">
+          <CheckCircle size={16} /> {successMsg}
+        </div>
+      )}
+
+      <Card className="p-4">
+        <div className="flex gap-3">
+          <div className="relative flex-1">
+            <ScanLine size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              ref={lookupRef}
+              autoFocus
+              type="text"
+              placeholder="Invoice number or scan receipt barcode..."
+              className="w-full pl-10 pr-4 py-2.5 bg-white border border-slate-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-a7/20"
+              value={lookup}
+              onChange={(e) => setLookup(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') findSale(lookup); }}
+            />
+          </div>
+          <Button variant="primary" onClick={() => findSale(lookup)}>Find Sale</Button>
+        </div>
+        {error && (
+          <div className="mt-3 p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+            <AlertCircle size={16} className="shrink-0" /> {error}
+          </div>
+        )}
+      </Card>
+
+      {sale && (
+        <Card className="p-0 overflow-hidden border border-slate-200 shadow-sm">
+          <div className="p-4 border-b border-slate-200 bg-slate-50/50 flex flex-wrap justify-between items-center gap-3">
+            <div>
+              <p className="font-mono font-bold text-slate-800 flex items-center gap-2"><Receipt size={16} className="text-blue-600" /> {sale.invoiceNumber}</p>
+              <p className="text-xs text-slate-500">
+                {new Date(sale.date).toLocaleString()} · {sale.customer?.name || 'Walk-in'} · Cashier {sale.cashierName} · Paid {sale.tenders.map(t => `${getMethodName(t.method)} ${t.amount.toLocaleString()}`).join(' + ')}
+              </p>
+            </div>
+            <Button variant="outline" onClick={returnAll}>Return All</Button>
+          </div>
+
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider font-semibold border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-3">Item</th>
+                <th className="px-6 py-3">Batches</th>
+                <th className="px-6 py-3 text-right">Sold</th>
+                <th className="px-6 py-3 text-right">Returned</th>
+                <th className="px-6 py-3 text-right">Return Qty</th>
+                <th className="px-6 py-3 text-center">Opened</th>
+                <th className="px-6 py-3 text-right">Refund</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {sale.items.map(item => {
+                const already = returnedQty.get(item.cartId) || 0;
+                const returnable = item.quantity - already;
+                const line = lines[item.cartId];
+                const unitRefund = getUnitRefund(sale, item);
+                return (
+                  <tr key={item.cartId} className={returnable === 0 ? 'opacity-50' : ''}>
+                    <td className="px-6 py-3">
+                      <p className="font-semibold text-slate-800">{item.nameEn}</p>
+                      <p className="text-[10px] text-slate-500 font-mm">{item.nameMm}</p>
+                      <p className="text-[10px] text-slate-400">{Math.round(unitRefund).toLocaleString()} Ks / unit paid</p>
+                    </td>
+                    <td className="px-6 py-3 font-mono text-xs text-slate-600">
+                      {item.allocations.length > 0 ? item.allocations.map(a => (
+                        <div key={a.batchId}>{a.batchNumber} <span className="text-slate-400">×{a.quantity}</span></div>
+                      )) : <span className="text-slate-400">—</span>}
+                    </td>
+                    <td className="px-6 py-3 text-right text-slate-700">{item.quantity}{item.packUnits?.length ? ` ${getUnitName(item.saleUnit || item.unit)}` : ''}</td>
+                    <td className="px-6 py-3 text-right text-slate-500">{already}</td>
+                    <td className="px-6 py-3 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        max={returnable}
+                        disabled={returnable === 0}
+                        value={line?.quantity || ''}
+                        onChange={(e) => setLine(item.cartId, { quantity: Math.min(returnable, Math.max(0, parseInt(e.target.value) || 0)) })}
+                        className="w-20 px-2 py-1 text-right border border-slate-200 rounded-lg font-mono focus:outline-none focus:border-blue-500"
+                      />
+                    </td>
+                    <td className="px-6 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        disabled={returnable === 0}
+                        checked={line?.opened || false}
+                        onChange={(e) => setLine(item.cartId, { opened: e.target.checked })}
+                        className="w-4 h-4 text-parami rounded focus:ring-parami"
+                        title="Opened packs go to quarantine instead of back on the shelf"
+                      />
+                    </td>
+                    <td className="px-6 py-3 text-right font-bold text-slate-800">
+                      {line?.quantity ? Math.round(unitRefund * line.quantity).toLocaleString() : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="p-4 border-t border-slate-200 bg-slate-50/50 flex flex-col md:flex-row gap-4 md:items-end md:justify-between">
+            <div className="flex-1 max-w-md">
+              <label className="block text-sm font-medium text-slate-700 mb-1.5">Reason</label>
+              <input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Wrong strength dispensed"
+                className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-a7/20"
+              />
+            </div>
+            <div className="text-right space-y-1">
+              {refundTenders.filter(t => t.amount > 0).map((t, idx) => (
+                <p key={idx} className="text-xs text-slate-500">
+                  Refund via {getMethodName(t.method)}{t.reference ? ` #${t.reference}` : ''}: <span className="font-semibold text-slate-700">{t.amount.toLocaleString()} Ks</span>
+                </p>
+              ))}
+              {selectedItems.some(l => l.opened) && (
+                <p className="text-xs text-amber-600 flex items-center justify-end gap-1"><PackageX size={12} /> Opened packs will be quarantined</p>
+              )}
+              <p className="text-xl font-bold text-slate-900">Refund {refundTotal.toLocaleString()} Ks</p>
+              <Button variant="primary" onClick={handleProcess} disabled={selectedItems.length === 0} className="gap-2 bg-rose-600 hover:bg-rose-700">
+                <Undo2 size={16} /> Process Return
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      <Card title="Recent Returns" className="p-0 overflow-hidden">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider font-semibold border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3">Return</th>
+              <th className="px-6 py-3">Invoice</th>
+              <th className="px-6 py-3">Date</th>
+              <th className="px-6 py-3">Items</th>
+              <th className="px-6 py-3">Reason</th>
+              <th className="px-6 py-3 text-right">Refund</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {returns.map(r => (
+              <tr key={r.id}>
+                <td className="px-6 py-3 font-mono text-slate-800">{r.returnNumber}</td>
+                <td className="px-6 py-3 font-mono text-slate-600">{r.invoiceNumber}</td>
+                <td className="px-6 py-3 text-slate-600">{new Date(r.date).toLocaleString()}</td>
+                <td className="px-6 py-3 text-slate-600">
+                  {r.items.map(i => (
+                    <div key={i.cartId} className="flex items-center gap-1.5">
+                      {i.nameEn} ×{i.quantity}
+                      {i.opened && <Badge variant="warning" className="text-[10px] px-1 py-0">Quarantined</Badge>}
+                    </div>
+                  ))}
+                </td>
+                <td className="px-6 py-3 text-slate-500">{r.reason}</td>
+                <td className="px-6 py-3 text-right font-bold text-rose-600">-{r.refundTotal.toLocaleString()} Ks</td>
+              </tr>
+            ))}
+            {returns.length === 0 && (
+              <tr><td colSpan={6} className="px-6 py-10 text-center text-slate-400">No returns at this branch yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </Card>
+    </div>
+  );
+};
+
+export default Returns;
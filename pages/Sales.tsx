@@ -0,0 +1,260 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, Badge } from '../components/UI';
+import { useShortcuts } from '../components/ShortcutPanel';
+import { useSalesStore, useBranchStore, useReturnStore, useSettingsStore, useSerialStore } from '../store';
+import { printReceipt } from '../utils/printer';
+import { Search, Receipt, ChevronDown, ChevronRight, User, Lock, Building2, Tag, Undo2, Printer, Stethoscope, ShieldAlert } from 'lucide-react';
+import { lineDiscount, lineNet } from '../utils/pricing';
+import { getUnitName } from '../utils/units';
+import { Sale } from '../types';
+
+const SaleLines = ({ sale }: { sale: Sale }) => {
+  const returns = useReturnStore(state => state.allReturns.filter(r => r.saleId === sale.id));
+  const { settings } = useSettingsStore();
+  const branch = useBranchStore(state => state.branches.find(b => b.id === sale.branchId));
+  const { getSerial } = useSerialStore();
+  const lineTaxes = new Map((sale.taxes || []).filter(t => t.tax > 0).map(t => [t.cartId, t]));
+
+  return (
+  <div className="bg-slate-50/70 border-t border-slate-100 px-6 py-4">
+    <table className="w-full text-left text-xs">
+      <thead className="text-slate-400 uppercase tracking-wider font-semibold">
+        <tr>
+          <th className="py-2">Item</th>
+          <th className="py-2">Batch</th>
+          <th className="py-2">Serial</th>
+          <th className="py-2 text-right">Qty</th>
+          <th className="py-2 text-right">Price</th>
+          <th className="py-2 text-right">Line Total</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {sale.items.map(item => (
+          <tr key={item.cartId}>
+            <td className="py-2">
+              <p className="font-semibold text-slate-800">{item.nameEn}</p>
+              <p className="text-[10px] text-slate-500 font-mm">{item.nameMm}</p>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {item.manager_override && (
+                  <Badge variant="warning" className="text-[10px] px-1 py-0 flex gap-0.5"><Lock size={8}/> Override</Badge>
+                )}
+                {item.warning_flags?.map(flag => (
+                  <Badge key={flag} variant={flag === 'EXPIRED' ? 'danger' : 'info'} className="text-[10px] px-1 py-0">{flag.replace('_', ' ')}</Badge>
+                ))}
+              </div>
+            </td>
+            <td className="py-2 font-mono text-slate-600">
+              {item.allocations.length > 0 ? item.allocations.map(a => (
+                <div key={a.batchId}>{a.batchNumber} <span className="text-slate-400">×{a.quantity} · Exp {a.expiryDate}</span></div>
+              )) : <span className="text-slate-400">—</span>}
+            </td>
+            <td className="py-2 font-mono text-slate-600">
+              {item.transaction_data?.scanned_serial || <span className="text-slate-400">—</span>}
+              {item.gtin && item.transaction_data?.scanned_serial && (
+                <div className="text-[10px] font-sans text-slate-400">{getSerial(item.gtin, item.transaction_data.scanned_serial)?.status || 'Not registered'}</div>
+              )}
+            </td>
+            <td className="py-2 text-right font-medium text-slate-700">{item.quantity}{item.packUnits?.length ? ` ${getUnitName(item.saleUnit || item.unit)}` : ''}</td>
+            <td className="py-2 text-right text-slate-600">{item.price.toLocaleString()}</td>
+            <td className="py-2 text-right font-bold text-slate-800">
+              {lineNet(item).toLocaleString()}
+              {lineDiscount(item) > 0 && <div className="text-[10px] font-normal text-emerald-600">-{lineDiscount(item).toLocaleString()} disc.</div>}
+              {lineTaxes.get(item.cartId) && <div className="text-[10px] font-normal text-slate-500">Tax {lineTaxes.get(item.cartId)!.rate}%: {lineTaxes.get(item.cartId)!.tax.toLocaleString()}</div>}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    {(sale.discountTotal > 0 || !!sale.taxTotal) && (
+      <div className="mt-3 pt-3 border-t border-slate-200 flex flex-wrap justify-end gap-x-6 gap-y-1 text-xs text-slate-500">
+        <span>Subtotal <b className="text-slate-700">{sale.subtotal.toLocaleString()}</b></span>
+        {sale.promotions.map((p, idx) => (
+          <span key={idx} className="flex items-center gap-1 text-emerald-600"><Tag size={10}/> {p.name} -{p.amount.toLocaleString()}</span>
+        ))}
+        {sale.cartDiscount && (
+          <span className="text-emerald-600">Cart discount {sale.cartDiscount.type === 'PERCENT' ? `${sale.cartDiscount.value}%` : `${sale.cartDiscount.value.toLocaleString()} Ks`}</span>
+        )}
+        {sale.discountTotal > 0 && <span>Total discount <b className="text-emerald-700">-{sale.discountTotal.toLocaleString()}</b></span>}
+        {sale.discountApprovedBy && <span className="flex items-center gap-1 text-amber-600"><Lock size={10}/> Approved by {sale.discountApprovedBy}</span>}
+        {!!sale.taxTotal && (
+          <span>{sale.pricesIncludeTax ? 'Tax included' : 'Tax added'} <b className="text-slate-700">{sale.taxTotal.toLocaleString()}</b></span>
+        )}
+      </div>
+    )}
+    {sale.prescription && (
+      <div className="mt-3 p-3 bg-white rounded-lg border border-slate-200 text-xs text-slate-600 flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span className="flex items-center gap-1 font-semibold text-slate-800"><Stethoscope size={12} className="text-blue-600" /> Prescription</span>
+        <span>Patient {sale.prescription.patientName}</span>
+        <span>{sale.prescription.doctorName}, {sale.prescription.clinic}</span>
+        <span>Dated {sale.prescription.prescriptionDate}</span>
+        {sale.prescription.verifiedBy && <span className="text-emerald-600">Verified by {sale.prescription.verifiedBy}</span>}
+        {sale.prescription.photo && <a href={sale.prescription.photo} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">View script</a>}
+      </div>
+    )}
+    {sale.drugAlerts && sale.drugAlerts.length > 0 && (
+      <div className="mt-3 p-3 bg-white rounded-lg border border-slate-200 text-xs text-slate-600 space-y-1">
+        <span className="flex items-center gap-1 font-semibold text-slate-800"><ShieldAlert size={12} className="text-red-600" /> Drug Alerts</span>
+        {sale.drugAlerts.map(a => (
+          <p key={a.key}>
+            <span className="font-semibold">{a.severity}</span> · {a.type === 'DUPLICATE' ? 'Duplicate therapy' : 'Interaction'}: {a.generics.join(' + ')}
+            <span className="text-emerald-600"> · acknowledged by {a.acknowledgedBy}</span>
+          </p>
+        ))}
+      </div>
+    )}
+    <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-xs">
+      <div className="flex flex-wrap gap-3 text-rose-600">
+        {returns.map(r => (
+          <span key={r.id}>{r.returnNumber}: -{r.refundTotal.toLocaleString()} Ks ({r.items.map(i => `${i.nameEn} ×${i.quantity}`).join(', ')})</span>
+        ))}
+      </div>
+      <div className="flex items-center gap-4">
+        <button onClick={() => printReceipt(sale, settings, branch)} className="flex items-center gap-1 font-medium text-slate-500 hover:text-blue-600">
+          <Printer size={12} /> Reprint receipt
+        </button>
+        <Link to={`/returns?invoice=${encodeURIComponent(sale.invoiceNumber)}`} className="flex items-center gap-1 font-medium text-slate-500 hover:text-rose-600">
+          <Undo2 size={12} /> Return items
+        </Link>
+      </div>
+    </div>
+  </div>
+  );
+};
+
+const Sales = () => {
+  const { sales, allSales } = useSalesStore();
+  const { branches } = useBranchStore();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showAllBranches, setShowAllBranches] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  useShortcuts({ 'sales.search': () => searchRef.current?.focus() });
+
+  const getBranchName = (branchId: string) => branches.find(b => b.id === branchId)?.name || branchId;
+
+  // Match invoice, customer, cashier or any product on the invoice
+  const filteredSales = useMemo(() => {
+    const source = showAllBranches ? allSales : sales;
+    const term = searchTerm.toLowerCase();
+    if (!term) return source;
+
+    return source.filter(s =>
+      s.invoiceNumber.toLowerCase().includes(term) ||
+      s.cashierName.toLowerCase().includes(term) ||
+      (s.customer?.name || '').toLowerCase().includes(term) ||
+      s.items.some(i => i.nameEn.toLowerCase().includes(term) || i.nameMm.includes(searchTerm) || i.sku.toLowerCase().includes(term))
+    );
+  }, [sales, allSales, showAllBranches, searchTerm]);
+
+  const journalTotal = filteredSales.reduce((sum, s) => sum + s.total, 0);
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+            Sales Journal
+            <span className="text-base font-normal text-slate-400 font-mm ml-2">အရောင်းမှတ်တမ်း</span>
+          </h1>
+          <p className="text-slate-500 text-sm">Every POS invoice with its lines, batches, cashier and branch.</p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs text-slate-500">{filteredSales.length} invoices</p>
+          <p className="text-xl font-bold text-slate-900">{journalTotal.toLocaleString()} Ks</p>
+        </div>
+      </div>
+
+      <Card className="p-0 overflow-hidden border border-slate-200 shadow-sm">
+        <div className="p-4 border-b border-slate-200 flex flex-col md:flex-row gap-4 items-center bg-slate-50/50">
+          <div className="relative flex-1 w-full md:max-w-md">
+            <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              ref={searchRef}
+              placeholder="Search invoice, customer, cashier or product..."
+              className="w-full pl-10 pr-4 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-a7/20"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showAllBranches}
+              onChange={(e) => setShowAllBranches(e.target.checked)}
+              className="w-4 h-4 text-parami rounded focus:ring-parami"
+            />
+            All branches
+          </label>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider font-semibold border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-4">Invoice</th>
+                <th className="px-6 py-4">Date</th>
+                <th className="px-6 py-4">Customer</th>
+                <th className="px-6 py-4">Cashier</th>
+                <th className="px-6 py-4">Branch</th>
+                <th className="px-6 py-4">Payment</th>
+                <th className="px-6 py-4 text-right">Total</th>
+              </tr>
+            </thead>
+            {filteredSales.map(sale => (
+              <tbody key={sale.id} className="border-b border-slate-100">
+                <tr
+                  onClick={() => setExpandedId(expandedId === sale.id ? null : sale.id)}
+                  className="hover:bg-slate-50/80 transition-colors cursor-pointer"
+                >
+                  <td className="px-6 py-4">
+                    <div className="flex items-center gap-2">
+                      {expandedId === sale.id ? <ChevronDown size={16} className="text-slate-400" /> : <ChevronRight size={16} className="text-slate-400" />}
+                      <Receipt size={16} className="text-blue-600" />
+                      <span className="font-mono text-sm font-semibold text-slate-800">{sale.invoiceNumber}</span>
+                    </div>
+                    <p className="text-xs text-slate-400 ml-12">{sale.items.length} lines</p>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-600">{new Date(sale.date).toLocaleString()}</td>
+                  <td className="px-6 py-4 text-sm text-slate-700">{sale.customer?.name || 'Walk-in'}</td>
+                  <td className="px-6 py-4 text-sm text-slate-700">
+                    <span className="flex items-center gap-1.5"><User size={14} className="text-slate-400" /> {sale.cashierName}</span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-700">
+                    <span className="flex items-center gap-1.5"><Building2 size={14} className="text-slate-400" /> {getBranchName(sale.branchId)}</span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <Badge variant="neutral">{sale.paymentMethod.replace('_', ' ')}</Badge>
+                    {sale.tenders.length > 1 && (
+                      <div className="mt-1 text-[10px] text-slate-500">
+                        {sale.tenders.map(t => `${t.method.replace('_', ' ')} ${t.amount.toLocaleString()}`).join(' + ')}
+                      </div>
+                    )}
+                    {sale.change > 0 && <div className="mt-1 text-[10px] text-slate-400">Change {sale.change.toLocaleString()}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-right font-bold text-slate-900">{sale.total.toLocaleString()} Ks</td>
+                </tr>
+                {expandedId === sale.id && (
+                  <tr>
+                    <td colSpan={7} className="p-0"><SaleLines sale={sale} /></td>
+                  </tr>
+                )}
+              </tbody>
+            ))}
+            {filteredSales.length === 0 && (
+              <tbody>
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-slate-400">No sales found.</td>
+                </tr>
+              </tbody>
+            )}
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default Sales;
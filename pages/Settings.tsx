@@ -2,9 +2,16 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Card, Button, Input, Badge } from '../components/UI';
-import { Settings as SettingsIcon, Database, Bell, Shield, Printer, Globe, Save, Download, RefreshCw, AlertTriangle, Check, Lock, Smartphone, FileJson, Trash2, Mail, Building2, Plus, Edit2, MapPin, Phone, User, Activity, X, Upload } from 'lucide-react';
-import { useProductStore, useAuthStore, useTransactionStore, useCartStore, useCustomerStore, useBranchStore, useSettingsStore, useSupplierStore } from '../store';
-import { Role, Branch } from '../types';
+import { Settings as SettingsIcon, Database, Bell, Shield, Printer, Globe, Save, Download, RefreshCw, AlertTriangle, Check, Lock, Smartphone, FileJson, Trash2, Mail, Building2, Plus, Edit2, MapPin, Phone, User, Activity, X, Upload, Tag, Star, Percent, Keyboard, Layers, ShieldAlert, Scale, Hash } from 'lucide-react';
+import { useProductStore, useAuthStore, useTransactionStore, useCartStore, useCustomerStore, useBranchStore, useSettingsStore, useSupplierStore, usePromotionStore, useSalesStore, useOverrideAuditStore, useLoyaltyStore, useShortcutStore, usePriceListStore, useInteractionStore, useQuantityLimitStore, useNumberingStore, repairZawgyiStores } from '../store';
+import { Role, Branch, Promotion, PromotionType, PriceList, PriceListEntry, InteractionRule, AlertSeverity, ALERT_SEVERITIES, QuantityLimit, DocumentType, DOCUMENT_TYPES, ReceiptLanguage, OverrideType, OVERRIDE_LABELS, OVERRIDE_ROLES, SHORTCUT_ACTIONS, SHORTCUT_SCOPES } from '../types';
+import { renderReceiptHTML } from '../utils/receipt';
+import { printReceipt } from '../utils/printer';
+import { findShortcutConflicts, getShortcutKey, normalizeKey } from '../utils/shortcuts';
+import { getIngredients } from '../utils/drugAlerts';
+import { SEVERITY_STYLES } from '../components/DrugAlerts';
+import { repairZawgyi } from '../utils/myanmar';
+import { findZawgyiProducts, applyProductTextFixes, ProductTextFix } from '../utils/dataClient';
 
 // Helper components for tabs
 const TabButton = ({ id, label, icon: Icon, active, onClick }: any) => (
@@ -530,6 +537,8 @@ const GeneralSettings = ({ onSave, loading }: any) => {
 
 const PrintingSettings = ({ onSave, loading }: any) => {
   const { settings, updateSettings } = useSettingsStore();
+  const { getCurrentBranch } = useBranchStore();
+  const previewSale = useSalesStore(state => state.sales[0]);
 
   return (
     <div className="space-y-6 animate-in fade-in duration-300">
@@ -573,36 +582,1357 @@ const PrintingSettings = ({ onSave, loading }: any) => {
                         <option>Xprinter XP-80C</option>
                     </select>
                 </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1.5">Receipt Language</label>
+                    <select 
+                      className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2.5 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                      value={settings.receiptLanguage}
+                      onChange={(e) => updateSettings({ receiptLanguage: e.target.value as ReceiptLanguage })}
+                    >
+                        <option value="BOTH">Myanmar + English</option>
+                        <option value="MM">Myanmar</option>
+                        <option value="EN">English</option>
+                    </select>
+                </div>
             </div>
+            <p className="text-xs text-slate-400">Thermal printers receive ESC/POS commands over USB serial; System Default and A4 use the browser print dialog. Tax ID is taken from General settings.</p>
+
+            <div className="space-y-3 pt-2">
+                <label className="flex items-center justify-between p-3 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50 transition-colors">
+                  <span className="text-sm font-medium text-slate-700">Auto-print receipt after sale</span>
+                  <input 
+                    type="checkbox" 
+                    checked={settings.autoPrint} 
+                    onChange={(e) => updateSettings({ autoPrint: e.target.checked })}
+                    className="w-5 h-5 text-parami rounded focus:ring-parami" 
+                  />
+                </label>
+                <label className="flex items-center justify-between p-3 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50 transition-colors">
+                  <span className="text-sm font-medium text-slate-700">Print batch and expiry on each line</span>
+                  <input 
+                    type="checkbox" 
+                    checked={settings.showBatchOnReceipt} 
+                    onChange={(e) => updateSettings({ showBatchOnReceipt: e.target.checked })}
+                    className="w-5 h-5 text-parami rounded focus:ring-parami" 
+                  />
+                </label>
+                <label className="flex items-center justify-between p-3 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50 transition-colors">
+                  <span className="text-sm font-medium text-slate-700">Show product images on POS</span>
+                  <input 
+                    type="checkbox" 
+                    checked={settings.showImages} 
+                    onChange={(e) => updateSettings({ showImages: e.target.checked })}
+                    className="w-5 h-5 text-parami rounded focus:ring-parami" 
+                  />
+                </label>
+            </div>
+          </div>
+      </Card>
+      <Card title="Receipt Preview">
+          {previewSale ? (
+            <div className="space-y-3">
+              <iframe
+                title="Receipt preview"
+                srcDoc={renderReceiptHTML(previewSale, { settings, branch: getCurrentBranch() })}
+                className="w-full h-[480px] border border-slate-200 rounded-lg bg-white"
+              />
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={() => printReceipt(previewSale, settings, getCurrentBranch())} className="gap-2">
+                  <Printer size={16} /> Print Test Receipt
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-400">Complete a sale at this branch to preview its receipt here.</p>
+          )}
+      </Card>
+      <div className="flex justify-end">
+        <Button variant="primary" onClick={onSave} disabled={loading} className="min-w-[120px]">
+          {loading ? 'Saving...' : 'Save Changes'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const PROMOTION_TYPES: { code: PromotionType; label: string }[] = [
+  { code: 'BUY_X_GET_Y', label: 'Buy X Get Y Free' },
+  { code: 'CATEGORY_PERCENT', label: 'Category % Off' },
+  { code: 'TIER_PERCENT', label: 'Customer Tier % Off' }
+];
+
+const describePromotion = (p: Promotion, productName?: string) => {
+  if (p.type === 'BUY_X_GET_Y') return `Buy ${p.buyQuantity} get ${p.freeQuantity} free · ${productName || p.productId}`;
+  if (p.type === 'CATEGORY_PERCENT') return `${p.percent}% off ${p.category}`;
+  return `${p.percent}% off for ${p.tier} members`;
+};
+
+const PromotionSettings = () => {
+  const { promotions, approvalThresholdPercent, addPromotion, updatePromotion, deletePromotion, setApprovalThreshold } = usePromotionStore();
+  const { products } = useProductStore();
+  const { user } = useAuthStore();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [formData, setFormData] = useState<Promotion>({ id: '', name: '', type: 'BUY_X_GET_Y', active: true });
+
+  const categories = Array.from(new Set(products.map(p => p.category)));
+  const canManage = user?.role === Role.ADMIN || user?.role === Role.MANAGER;
+
+  const handleAddNew = () => {
+      setFormData({ id: `promo-${Date.now()}`, name: '', type: 'BUY_X_GET_Y', active: true, buyQuantity: 2, freeQuantity: 1 });
+      setErrorMessage('');
+      setIsModalOpen(true);
+  };
+
+  const handleSave = () => {
+      if (!formData.name) {
+          setErrorMessage("Promotion name is required.");
+          return;
+      }
+      if (formData.type === 'BUY_X_GET_Y' && (!formData.productId || !formData.buyQuantity || !formData.freeQuantity)) {
+          setErrorMessage("Choose a product and the buy / free quantities.");
+          return;
+      }
+      if (formData.type !== 'BUY_X_GET_Y' && (!formData.percent || formData.percent <= 0 || formData.percent > 100)) {
+          setErrorMessage("Discount percent must be between 1 and 100.");
+          return;
+      }
+      if (formData.type === 'CATEGORY_PERCENT' && !formData.category) {
+          setErrorMessage("Choose a category.");
+          return;
+      }
+      if (formData.type === 'TIER_PERCENT' && !formData.tier) {
+          setErrorMessage("Choose a customer tier.");
+          return;
+      }
+      if (formData.startDate && formData.endDate && formData.endDate < formData.startDate) {
+          setErrorMessage("End date must be after the start date.");
+          return;
+      }
+
+      if (promotions.some(p => p.id === formData.id)) {
+          updatePromotion(formData.id, formData);
+      } else {
+          addPromotion(formData);
+      }
+      setIsModalOpen(false);
+  };
+
+  return (
+      <div className="space-y-6 animate-in fade-in duration-300">
+          <div className="flex items-center justify-between">
+              <div>
+                  <h3 className="text-lg font-bold text-slate-800">Promotions & Discounts</h3>
+                  <p className="text-sm text-slate-500">Automatic promotions applied at the POS, and the manual discount approval limit.</p>
+              </div>
+              {canManage && (
+                  <Button variant="primary" onClick={handleAddNew} className="gap-2">
+                      <Plus size={16} /> Add Promotion
+                  </Button>
+              )}
+          </div>
+
+          <Card title="Manager Approval">
+              <div className="flex items-center justify-between gap-4">
+                  <div>
+                      <p className="text-sm font-medium text-slate-700">Approval threshold</p>
+                      <p className="text-xs text-slate-500">Line and cart discounts totalling more than this share of the subtotal need a manager login.</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                      <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          disabled={!canManage}
+                          value={approvalThresholdPercent}
+                          onChange={(e) => setApprovalThreshold(parseFloat(e.target.value) || 0)}
+                          className="w-20 bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm text-right font-mono focus:ring-2 focus:ring-a7/20 outline-none disabled:bg-slate-50"
+                      />
+                      <span className="text-sm text-slate-500">%</span>
+                  </div>
+              </div>
+          </Card>
+
+          <Card className="p-0 overflow-hidden">
+              <table className="w-full text-left text-sm">
+                  <thead className="bg-slate-50 text-slate-500 border-b border-slate-200 uppercase text-xs font-semibold">
+                      <tr>
+                          <th className="px-6 py-4">Promotion</th>
+                          <th className="px-6 py-4">Period</th>
+                          <th className="px-6 py-4">Status</th>
+                          <th className="px-6 py-4 text-right">Actions</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                      {promotions.map(promo => (
+                          <tr key={promo.id} className="hover:bg-slate-50 transition-colors">
+                              <td className="px-6 py-4">
+                                  <div className="font-medium text-slate-800 flex items-center gap-2"><Tag size={14} className="text-emerald-500" /> {promo.name}</div>
+                                  <div className="text-xs text-slate-400 mt-0.5">
+                                      {describePromotion(promo, products.find(p => p.id === promo.productId)?.nameEn)}
+                                  </div>
+                              </td>
+                              <td className="px-6 py-4 text-slate-600 text-xs">
+                                  {promo.startDate || promo.endDate ? `${promo.startDate || '…'} → ${promo.endDate || '…'}` : 'Always'}
+                              </td>
+                              <td className="px-6 py-4">
+                                  <button disabled={!canManage} onClick={() => updatePromotion(promo.id, { active: !promo.active })}>
+                                      <Badge variant={promo.active ? 'success' : 'neutral'}>{promo.active ? 'ACTIVE' : 'PAUSED'}</Badge>
+                                  </button>
+                              </td>
+                              <td className="px-6 py-4 text-right">
+                                  {canManage && (
+                                      <div className="flex justify-end gap-2">
+                                          <button
+                                              onClick={() => { setFormData({ ...promo }); setErrorMessage(''); setIsModalOpen(true); }}
+                                              className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                                              title="Edit Promotion"
+                                          >
+                                              <Edit2 size={16} />
+                                          </button>
+                                          <button
+                                              onClick={() => { if (confirm(`Delete promotion "${promo.name}"?`)) deletePromotion(promo.id); }}
+                                              className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded transition-colors"
+                                              title="Delete Promotion"
+                                          >
+                                              <Trash2 size={16} />
+                                          </button>
+                                      </div>
+                                  )}
+                              </td>
+                          </tr>
+                      ))}
+                      {promotions.length === 0 && (
+                          <tr><td colSpan={4} className="px-6 py-10 text-center text-slate-400">No promotions configured.</td></tr>
+                      )}
+                  </tbody>
+              </table>
+          </Card>
+
+          {isModalOpen && (
+              <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+                  <div className="bg-white w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+                      <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+                          <h3 className="font-bold text-xl text-slate-800">{promotions.some(p => p.id === formData.id) ? 'Edit Promotion' : 'New Promotion'}</h3>
+                          <button onClick={() => setIsModalOpen(false)} className="text-slate-400 hover:text-slate-600 p-1 rounded-full hover:bg-slate-200 transition-colors">
+                              <X size={20} />
+                          </button>
+                      </div>
+
+                      <div className="p-6 space-y-4 overflow-y-auto">
+                          {errorMessage && (
+                              <div className="bg-red-50 border border-red-100 text-red-700 px-4 py-2 rounded-lg text-sm flex items-center gap-2">
+                                  <AlertTriangle size={16} /> {errorMessage}
+                              </div>
+                          )}
+
+                          <Input label="Promotion Name" value={formData.name} onChange={(e: any) => setFormData({...formData, name: e.target.value})} placeholder="e.g. Paracetamol Buy 2 Get 1" required />
+
+                          <div>
+                              <label className="block text-sm font-medium text-slate-700 mb-1.5">Type</label>
+                              <select
+                                  className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2.5 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                                  value={formData.type}
+                                  onChange={(e) => setFormData({ id: formData.id, name: formData.name, active: formData.active, startDate: formData.startDate, endDate: formData.endDate, type: e.target.value as PromotionType })}
+                              >
+                                  {PROMOTION_TYPES.map(t => <option key={t.code} value={t.code}>{t.label}</option>)}
+                              </select>
+                          </div>
+
+                          {formData.type === 'BUY_X_GET_Y' && (
+                              <>
+                                  <div>
+                                      <label className="block text-sm font-medium text-slate-700 mb-1.5">Product</label>
+                                      <select
+                                          className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2.5 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                                          value={formData.productId || ''}
+                                          onChange={(e) => setFormData({...formData, productId: e.target.value})}
+                                      >
+                                          <option value="">Select product...</option>
+                                          {products.map(p => <option key={p.id} value={p.id}>{p.nameEn}</option>)}
+                                      </select>
+                                  </div>
+                                  <div className="grid grid-cols-2 gap-4">
+                                      <Input label="Buy Qty" type="number" min="1" value={formData.buyQuantity || ''} onChange={(e: any) => setFormData({...formData, buyQuantity: parseInt(e.target.value) || 0})} />
+                                      <Input label="Free Qty" type="number" min="1" value={formData.freeQuantity || ''} onChange={(e: any) => setFormData({...formData, freeQuantity: parseInt(e.target.value) || 0})} />
+                                  </div>
+                              </>
+                          )}
+
+                          {formData.type === 'CATEGORY_PERCENT' && (
+                              <div>
+                                  <label className="block text-sm font-medium text-slate-700 mb-1.5">Category</label>
+                                  <select
+                                      className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2.5 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                                      value={formData.category || ''}
+                                      onChange={(e) => setFormData({...formData, category: e.target.value})}
+                                  >
+                                      <option value="">Select category...</option>
+                                      {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                                  </select>
+                              </div>
+                          )}
+
+                          {formData.type === 'TIER_PERCENT' && (
+                              <div>
+                                  <label className="block text-sm font-medium text-slate-700 mb-1.5">Customer Tier</label>
+                                  <select
+                                      className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2.5 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                                      value={formData.tier || ''}
+                                      onChange={(e) => setFormData({...formData, tier: e.target.value as Promotion['tier']})}
+                                  >
+                                      <option value="">Select tier...</option>
+                                      <option>Silver</option>
+                                      <option>Gold</option>
+                                      <option>Platinum</option>
+                                  </select>
+                              </div>
+                          )}
+
+                          {formData.type !== 'BUY_X_GET_Y' && (
+                              <Input label="Discount %" type="number" min="1" max="100" value={formData.percent || ''} onChange={(e: any) => setFormData({...formData, percent: parseFloat(e.target.value) || 0})} />
+                          )}
+
+                          <div className="grid grid-cols-2 gap-4">
+                              <Input label="Start Date (optional)" type="date" value={formData.startDate || ''} onChange={(e: any) => setFormData({...formData, startDate: e.target.value || undefined})} />
+                              <Input label="End Date (optional)" type="date" value={formData.endDate || ''} onChange={(e: any) => setFormData({...formData, endDate: e.target.value || undefined})} />
+                          </div>
+
+                          <label className="flex items-center justify-between p-3 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50 transition-colors">
+                              <span className="text-sm font-medium text-slate-700">Active</span>
+                              <input
+                                  type="checkbox"
+                                  checked={formData.active}
+                                  onChange={(e) => setFormData({...formData, active: e.target.checked})}
+                                  className="w-5 h-5 text-parami rounded focus:ring-parami"
+                              />
+                          </label>
+                      </div>
+
+                      <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+                          <Button variant="outline" onClick={() => setIsModalOpen(false)}>Cancel</Button>
+                          <Button variant="primary" onClick={handleSave}>Save Promotion</Button>
+                      </div>
+                  </div>
+              </div>
+          )}
+      </div>
+  );
+};
+
+const PriceListSettings = () => {
+  const { priceLists, addPriceList, updatePriceList, deletePriceList } = usePriceListStore();
+  const { products } = useProductStore();
+  const { allCustomers } = useCustomerStore();
+  const { user } = useAuthStore();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [formData, setFormData] = useState<PriceList>({ id: '', name: '', percentOff: 0, entries: [] });
+  const [newSku, setNewSku] = useState('');
+
+  // Lists are keyed by SKU, so each product appears once however many branches stock it
+  const catalog = Array.from(new Map(products.map(p => [p.sku, p])).values());
+  const canManage = user?.role === Role.ADMIN || user?.role === Role.MANAGER;
+
+  const handleAddNew = () => {
+      setFormData({ id: `pl-${Date.now()}`, name: '', percentOff: 0, entries: [] });
+      setErrorMessage('');
+      setIsModalOpen(true);
+  };
+
+  const addEntry = () => {
+      if (!newSku || formData.entries.some(e => e.sku === newSku)) return;
+      setFormData({ ...formData, entries: [...formData.entries, { sku: newSku, percentOff: formData.percentOff }] });
+      setNewSku('');
+  };
+
+  const updateEntry = (sku: string, updates: Partial<PriceListEntry>) => setFormData({
+      ...formData,
+      entries: formData.entries.map(e => e.sku === sku ? { ...e, ...updates } : e)
+  });
+
+  const handleSave = () => {
+      if (!formData.name.trim()) {
+          setErrorMessage("Price list name is required.");
+          return;
+      }
+      if (priceLists.some(l => l.id !== formData.id && l.name.toLowerCase() === formData.name.trim().toLowerCase())) {
+          setErrorMessage("A price list with this name already exists.");
+          return;
+      }
+      const percents = [formData.percentOff, ...formData.entries.map(e => e.percentOff ?? 0)];
+      if (percents.some(p => p < 0 || p > 100)) {
+          setErrorMessage("Discounts must be between 0 and 100%.");
+          return;
+      }
+      if (formData.entries.some(e => e.price !== undefined && e.price < 0)) {
+          setErrorMessage("Fixed prices cannot be negative.");
+          return;
+      }
+
+      const priceList = { ...formData, name: formData.name.trim() };
+      if (priceLists.some(l => l.id === formData.id)) {
+          updatePriceList(formData.id, priceList);
+      } else {
+          addPriceList(priceList);
+      }
+      setIsModalOpen(false);
+  };
+
+  return (
+      <div className="space-y-6 animate-in fade-in duration-300">
+          <div className="flex items-center justify-between">
+              <div>
+                  <h3 className="text-lg font-bold text-slate-800">Price Lists</h3>
+                  <p className="text-sm text-slate-500">Wholesale and institutional prices. Assign a list to a customer and the POS and distribution orders price from it.</p>
+              </div>
+              {canManage && (
+                  <Button variant="primary" onClick={handleAddNew} className="gap-2">
+                      <Plus size={16} /> Add Price List
+                  </Button>
+              )}
+          </div>
+
+          <Card className="p-0 overflow-hidden">
+              <table className="w-full text-left text-sm">
+                  <thead className="bg-slate-50 text-slate-500 border-b border-slate-200 uppercase text-xs font-semibold">
+                      <tr>
+                          <th className="px-6 py-4">Price List</th>
+                          <th className="px-6 py-4">Product Prices</th>
+                          <th className="px-6 py-4">Customers</th>
+                          <th className="px-6 py-4 text-right">Actions</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                      <tr className="bg-slate-50/50">
+                          <td className="px-6 py-4">
+                              <div className="font-medium text-slate-800 flex items-center gap-2"><Layers size={14} className="text-slate-400" /> Retail</div>
+                              <div className="text-xs text-slate-400 mt-0.5">Shelf price of each product</div>
+                          </td>
+                          <td className="px-6 py-4 text-slate-400 text-xs">—</td>
+                          <td className="px-6 py-4 text-slate-600">{allCustomers.filter(c => !c.priceListId).length}</td>
+                          <td className="px-6 py-4"></td>
+                      </tr>
+                      {priceLists.map(list => (
+                          <tr key={list.id} className="hover:bg-slate-50 transition-colors">
+                              <td className="px-6 py-4">
+                                  <div className="font-medium text-slate-800 flex items-center gap-2"><Layers size={14} className="text-indigo-500" /> {list.name}</div>
+                                  <div className="text-xs text-slate-400 mt-0.5">{list.percentOff > 0 ? `${list.percentOff}% off retail` : 'Retail'} for other products</div>
+                              </td>
+                              <td className="px-6 py-4 text-slate-600 text-xs">{list.entries.length} product{list.entries.length === 1 ? '' : 's'}</td>
+                              <td className="px-6 py-4 text-slate-600">{allCustomers.filter(c => c.priceListId === list.id).length}</td>
+                              <td className="px-6 py-4 text-right">
+                                  {canManage && (
+                                      <div className="flex justify-end gap-2">
+                                          <button
+                                              onClick={() => { setFormData({ ...list }); setErrorMessage(''); setIsModalOpen(true); }}
+                                              className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                                              title="Edit Price List"
+                                          >
+                                              <Edit2 size={16} />
+                                          </button>
+                                          <button
+                                              onClick={() => { if (confirm(`Delete price list "${list.name}"? Its customers go back to retail prices.`)) deletePriceList(list.id); }}
+                                              className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded transition-colors"
+                                              title="Delete Price List"
+                                          >
+                                              <Trash2 size={16} />
+                                          </button>
+                                      </div>
+                                  )}
+                              </td>
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+          </Card>
+
+          {isModalOpen && (
+              <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+                  <div className="bg-white w-full max-w-2xl rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+                      <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+                          <h3 className="font-bold text-xl text-slate-800">{priceLists.some(l => l.id === formData.id) ? 'Edit Price List' : 'New Price List'}</h3>
+                          <button onClick={() => setIsModalOpen(false)} className="text-slate-400 hover:text-slate-600 p-1 rounded-full hover:bg-slate-200 transition-colors">
+                              <X size={20} />
+                          </button>
+                      </div>
+
+                      <div className="p-6 space-y-4 overflow-y-auto">
+                          {errorMessage && (
+                              <div className="bg-red-50 border border-red-100 text-red-700 px-4 py-2 rounded-lg text-sm flex items-center gap-2">
+                                  <AlertTriangle size={16} /> {errorMessage}
+                              </div>
+                          )}
+
+                          <div className="grid grid-cols-3 gap-4">
+                              <Input label="Price List Name" containerClassName="col-span-2" value={formData.name} onChange={(e: any) => setFormData({...formData, name: e.target.value})} placeholder="e.g. Wholesale" required />
+                              <Input label="Default % Off Retail" type="number" min="0" max="100" value={formData.percentOff} onChange={(e: any) => setFormData({...formData, percentOff: parseFloat(e.target.value) || 0})} />
+                          </div>
+
+                          <div>
+                              <label className="block text-sm font-medium text-slate-700 mb-1.5">Product Prices</label>
+                              <p className="text-xs text-slate-500 mb-3">Set a fixed price per base unit or a product-specific discount. Pack units scale from the base unit price.</p>
+                              <div className="space-y-2">
+                                  {formData.entries.map(entry => {
+                                      const product = catalog.find(p => p.sku === entry.sku);
+                                      const fixed = entry.price !== undefined;
+                                      return (
+                                          <div key={entry.sku} className="flex items-center gap-3 p-3 bg-slate-50 rounded-lg border border-slate-100">
+                                              <div className="flex-1 min-w-0">
+                                                  <p className="text-sm font-medium text-slate-700 truncate">{product?.nameEn || entry.sku}</p>
+                                                  <p className="text-[10px] text-slate-400 font-mono">{entry.sku}{product ? ` · Retail ${product.price.toLocaleString()} Ks` : ''}</p>
+                                              </div>
+                                              <select
+                                                  className="bg-white border border-slate-300 rounded-lg px-2 py-2 text-xs focus:ring-2 focus:ring-a7/20 outline-none"
+                                                  value={fixed ? 'price' : 'percent'}
+                                                  onChange={(e) => updateEntry(entry.sku, e.target.value === 'price'
+                                                      ? { price: product?.price ?? 0, percentOff: undefined }
+                                                      : { price: undefined, percentOff: formData.percentOff })}
+                                              >
+                                                  <option value="price">Fixed price (Ks)</option>
+                                                  <option value="percent">% off retail</option>
+                                              </select>
+                                              <input
+                                                  type="number"
+                                                  min="0"
+                                                  value={fixed ? entry.price : entry.percentOff ?? 0}
+                                                  onChange={(e) => updateEntry(entry.sku, fixed ? { price: parseFloat(e.target.value) || 0 } : { percentOff: parseFloat(e.target.value) || 0 })}
+                                                  className="w-24 bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm text-right font-mono focus:ring-2 focus:ring-a7/20 outline-none"
+                                              />
+                                              <button
+                                                  onClick={() => setFormData({ ...formData, entries: formData.entries.filter(e => e.sku !== entry.sku) })}
+                                                  className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                                  title="Remove"
+                                              >
+                                                  <Trash2 size={14} />
+                                              </button>
+                                          </div>
+                                      );
+                                  })}
+                              </div>
+                              <div className="flex gap-2 mt-3">
+                                  <select
+                                      className="flex-1 bg-white border border-slate-300 rounded-lg px-3 py-2.5 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                                      value={newSku}
+                                      onChange={(e) => setNewSku(e.target.value)}
+                                  >
+                                      <option value="">Add a product...</option>
+                                      {catalog.filter(p => !formData.entries.some(e => e.sku === p.sku)).map(p => <option key={p.sku} value={p.sku}>{p.nameEn}</option>)}
+                                  </select>
+                                  <Button variant="outline" onClick={addEntry} disabled={!newSku}><Plus size={16} /> Add</Button>
+                              </div>
+                          </div>
+                      </div>
+
+                      <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+                          <Button variant="outline" onClick={() => setIsModalOpen(false)}>Cancel</Button>
+                          <Button variant="primary" onClick={handleSave}>Save Price List</Button>
+                      </div>
+                  </div>
+              </div>
+          )}
+      </div>
+  );
+};
+
+const LoyaltySettings = () => {
+  const { rules, updateRules } = useLoyaltyStore();
+  const { products } = useProductStore();
+  const { user } = useAuthStore();
+  const [draft, setDraft] = useState(rules);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  const categories = Array.from(new Set(products.map(p => p.category)));
+  const canManage = user?.role === Role.ADMIN || user?.role === Role.MANAGER;
+
+  const updateTier = (index: number, field: 'minPoints' | 'earnMultiplier', value: number) => {
+      setDraft({ ...draft, tiers: draft.tiers.map((t, i) => i === index ? { ...t, [field]: value } : t) });
+      setSaved(false);
+  };
+
+  const toggleCategory = (category: string) => {
+      const excluded = draft.excludedCategories.includes(category)
+          ? draft.excludedCategories.filter(c => c !== category)
+          : [...draft.excludedCategories, category];
+      setDraft({ ...draft, excludedCategories: excluded });
+      setSaved(false);
+  };
+
+  const handleSave = () => {
+      if (draft.kyatsPerPoint <= 0 || draft.pointValue <= 0) {
+          setErrorMessage('Earn rate and point value must be greater than zero.');
+          return;
+      }
+      const thresholds = draft.tiers.map(t => t.minPoints);
+      if (thresholds.some((m, i) => i > 0 && m <= thresholds[i - 1])) {
+          setErrorMessage('Each tier needs a higher points threshold than the one below it.');
+          return;
+      }
+      updateRules(draft);
+      setErrorMessage('');
+      setSaved(true);
+      setTimeout(() => setSaved(false), 3000);
+  };
+
+  const numberInput = (value: number, onChange: (v: number) => void, step = '1') => (
+      <input
+          type="number"
+          min="0"
+          step={step}
+          disabled={!canManage}
+          value={value}
+          onChange={(e) => { onChange(parseFloat(e.target.value) || 0); setSaved(false); }}
+          className="w-28 bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm text-right font-mono focus:ring-2 focus:ring-a7/20 outline-none disabled:bg-slate-50"
+      />
+  );
+
+  return (
+      <div className="space-y-6 animate-in fade-in duration-300">
+          <div>
+              <h3 className="text-lg font-bold text-slate-800">Loyalty Points</h3>
+              <p className="text-sm text-slate-500">How customers earn and redeem points, and the balance each tier starts at.</p>
+          </div>
+
+          <Card title="Earning & Redemption">
+              <div className="space-y-4">
+                  <label className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-slate-700">Loyalty program enabled</span>
+                      <input type="checkbox" disabled={!canManage} checked={draft.enabled} onChange={(e) => { setDraft({ ...draft, enabled: e.target.checked }); setSaved(false); }} className="w-4 h-4" />
+                  </label>
+                  <div className="flex items-center justify-between gap-4">
+                      <div>
+                          <p className="text-sm font-medium text-slate-700">Spend per point (Ks)</p>
+                          <p className="text-xs text-slate-500">Money paid that earns one point at the base rate. Points redemptions earn nothing.</p>
+                      </div>
+                      {numberInput(draft.kyatsPerPoint, v => setDraft({ ...draft, kyatsPerPoint: v }))}
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                      <div>
+                          <p className="text-sm font-medium text-slate-700">Point value (Ks)</p>
+                          <p className="text-xs text-slate-500">What one point pays for at the POS.</p>
+                      </div>
+                      {numberInput(draft.pointValue, v => setDraft({ ...draft, pointValue: v }))}
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                      <div>
+                          <p className="text-sm font-medium text-slate-700">Minimum redemption (points)</p>
+                      </div>
+                      {numberInput(draft.minRedeemPoints, v => setDraft({ ...draft, minRedeemPoints: Math.floor(v) }))}
+                  </div>
+                  <div>
+                      <p className="text-sm font-medium text-slate-700 mb-2">Categories that earn no points</p>
+                      <div className="flex flex-wrap gap-2">
+                          {categories.map(c => (
+                              <button
+                                  key={c}
+                                  disabled={!canManage}
+                                  onClick={() => toggleCategory(c)}
+                                  className={`px-3 py-1 rounded-full text-xs font-medium border ${draft.excludedCategories.includes(c) ? 'bg-red-50 text-red-700 border-red-200' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'}`}
+                              >
+                                  {c}
+                              </button>
+                          ))}
+                      </div>
+                  </div>
+              </div>
+          </Card>
+
+          <Card title="Tiers">
+              <p className="text-xs text-slate-500 mb-4">Customers move up or down automatically whenever their balance crosses a threshold.</p>
+              <div className="space-y-3">
+                  {draft.tiers.map((t, index) => (
+                      <div key={t.tier} className="flex items-center justify-between gap-4 p-3 bg-slate-50 rounded-lg border border-slate-100">
+                          <Badge variant={t.tier === 'Platinum' ? 'info' : t.tier === 'Gold' ? 'warning' : 'neutral'}>{t.tier}</Badge>
+                          <div className="flex items-center gap-2 text-sm text-slate-500">
+                              from {numberInput(t.minPoints, v => updateTier(index, 'minPoints', Math.floor(v)))} pts
+                          </div>
+                          <div className="flex items-center gap-2 text-sm text-slate-500">
+                              earns × {numberInput(t.earnMultiplier, v => updateTier(index, 'earnMultiplier', v), '0.1')}
+                          </div>
+                      </div>
+                  ))}
+              </div>
+          </Card>
+
+          {errorMessage && (
+              <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+                  <AlertTriangle size={16} className="shrink-0" /> {errorMessage}
+              </div>
+          )}
+
+          {canManage && (
+              <div className="flex items-center justify-end gap-3">
+                  {saved && <span className="text-sm text-emerald-600 flex items-center gap-1"><Check size={14} /> Saved, tiers recalculated</span>}
+                  <Button variant="primary" onClick={handleSave} className="gap-2"><Save size={16} /> Save Loyalty Rules</Button>
+              </div>
+          )}
+      </div>
+  );
+};
+
+const EMPTY_RULE: InteractionRule = { id: '', genericA: '', genericB: '', severity: 'MODERATE', note: '' };
+
+const DrugInteractionSettings = () => {
+  const { rules, duplicateSeverity, addRule, updateRule, deleteRule, setDuplicateSeverity } = useInteractionStore();
+  const { products } = useProductStore();
+  const { user } = useAuthStore();
+  const [form, setForm] = useState<InteractionRule>(EMPTY_RULE);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  // Pharmacists own the clinical rules
+  const canEdit = user?.role === Role.ADMIN || user?.role === Role.MANAGER || user?.role === Role.PHARMACIST;
+  const generics = Array.from(new Set(products.flatMap(p => getIngredients(p)))).sort();
+  const isEditing = rules.some(r => r.id === form.id);
+
+  const handleSave = () => {
+      const genericA = form.genericA.trim();
+      const genericB = form.genericB.trim();
+      if (!genericA || !genericB) {
+          setErrorMessage('Enter both generic names.');
+          return;
+      }
+      if (genericA.toLowerCase() === genericB.toLowerCase()) {
+          setErrorMessage('Same-ingredient duplicates are already checked; pick two different generics.');
+          return;
+      }
+      const samePair = (r: InteractionRule) =>
+          [r.genericA.toLowerCase(), r.genericB.toLowerCase()].sort().join('|') === [genericA.toLowerCase(), genericB.toLowerCase()].sort().join('|');
+      if (rules.some(r => r.id !== form.id && samePair(r))) {
+          setErrorMessage('A rule for these two generics already exists.');
+          return;
+      }
+
+      const rule = { ...form, genericA, genericB, note: form.note.trim() };
+      if (isEditing) {
+          updateRule(form.id, rule);
+      } else {
+          addRule({ ...rule, id: `ir-${Date.now()}` });
+      }
+      setForm(EMPTY_RULE);
+      setErrorMessage('');
+  };
+
+  return (
+      <div className="space-y-6 animate-in fade-in duration-300">
+          <div>
+              <h3 className="text-lg font-bold text-slate-800">Drug Interactions</h3>
+              <p className="text-sm text-slate-500">Warnings shown at the POS when the cart holds interacting generics or the same ingredient twice. A pharmacist must acknowledge them before payment.</p>
+          </div>
+
+          <Card title="Duplicate Therapy">
+              <div className="flex items-center justify-between gap-4">
+                  <div>
+                      <p className="text-sm font-medium text-slate-700">Severity</p>
+                      <p className="text-xs text-slate-500">Raised when two different products share an ingredient, e.g. two paracetamol-containing products.</p>
+                  </div>
+                  <select
+                      disabled={!canEdit}
+                      value={duplicateSeverity}
+                      onChange={(e) => setDuplicateSeverity(e.target.value as AlertSeverity)}
+                      className="bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-a7/20 outline-none disabled:bg-slate-50"
+                  >
+                      {ALERT_SEVERITIES.map(s => <option key={s} value={s}>{SEVERITY_STYLES[s].label}</option>)}
+                  </select>
+              </div>
+          </Card>
+
+          <Card className="p-0 overflow-hidden">
+              <table className="w-full text-left text-sm">
+                  <thead className="bg-slate-50 text-slate-500 border-b border-slate-200 uppercase text-xs font-semibold">
+                      <tr>
+                          <th className="px-6 py-4">Generics</th>
+                          <th className="px-6 py-4">Severity</th>
+                          <th className="px-6 py-4">Advice</th>
+                          <th className="px-6 py-4 text-right">Actions</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                      {rules.map(rule => (
+                          <tr key={rule.id} className={`hover:bg-slate-50 transition-colors ${form.id === rule.id ? 'bg-blue-50/50' : ''}`}>
+                              <td className="px-6 py-4 font-medium text-slate-800">{rule.genericA} + {rule.genericB}</td>
+                              <td className="px-6 py-4">
+                                  <span className={`px-2 py-0.5 rounded-full border text-[11px] font-bold ${SEVERITY_STYLES[rule.severity].className}`}>{SEVERITY_STYLES[rule.severity].label}</span>
+                              </td>
+                              <td className="px-6 py-4 text-xs text-slate-500">{rule.note || '—'}</td>
+                              <td className="px-6 py-4 text-right">
+                                  {canEdit && (
+                                      <div className="flex justify-end gap-2">
+                                          <button
+                                              onClick={() => { setForm(rule); setErrorMessage(''); }}
+                                              className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                                              title="Edit Rule"
+                                          >
+                                              <Edit2 size={16} />
+                                          </button>
+                                          <button
+                                              onClick={() => { if (confirm(`Delete the ${rule.genericA} + ${rule.genericB} rule?`)) deleteRule(rule.id); }}
+                                              className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded transition-colors"
+                                              title="Delete Rule"
+                                          >
+                                              <Trash2 size={16} />
+                                          </button>
+                                      </div>
+                                  )}
+                              </td>
+                          </tr>
+                      ))}
+                      {rules.length === 0 && (
+                          <tr><td colSpan={4} className="px-6 py-10 text-center text-slate-400">No interaction rules.</td></tr>
+                      )}
+                  </tbody>
+              </table>
+          </Card>
+
+          {canEdit && (
+              <Card title={isEditing ? 'Edit Rule' : 'Add Rule'}>
+                  <div className="space-y-4">
+                      {errorMessage && (
+                          <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+                              <AlertTriangle size={16} className="shrink-0" /> {errorMessage}
+                          </div>
+                      )}
+                      <datalist id="interaction-generics">
+                          {generics.map(g => <option key={g} value={g.replace(/\b\w/g, c => c.toUpperCase())} />)}
+                      </datalist>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <Input label="Generic A" list="interaction-generics" value={form.genericA} onChange={(e: any) => setForm({ ...form, genericA: e.target.value })} placeholder="e.g. Warfarin" />
+                          <Input label="Generic B" list="interaction-generics" value={form.genericB} onChange={(e: any) => setForm({ ...form, genericB: e.target.value })} placeholder="e.g. Aspirin" />
+                          <div>
+                              <label className="block text-sm font-medium text-slate-700 mb-1.5">Severity</label>
+                              <select
+                                  className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2.5 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                                  value={form.severity}
+                                  onChange={(e) => setForm({ ...form, severity: e.target.value as AlertSeverity })}
+                              >
+                                  {ALERT_SEVERITIES.map(s => <option key={s} value={s}>{SEVERITY_STYLES[s].label}</option>)}
+                              </select>
+                          </div>
+                      </div>
+                      <Input label="Advice" value={form.note} onChange={(e: any) => setForm({ ...form, note: e.target.value })} placeholder="What the pharmacist should check or tell the customer" />
+                      <div className="flex justify-end gap-3">
+                          {isEditing && <Button variant="outline" onClick={() => { setForm(EMPTY_RULE); setErrorMessage(''); }}>Cancel</Button>}
+                          <Button variant="primary" onClick={handleSave} className="gap-2">
+                              {isEditing ? <><Save size={16} /> Save Rule</> : <><Plus size={16} /> Add Rule</>}
+                          </Button>
+                      </div>
+                  </div>
+              </Card>
+          )}
+      </div>
+  );
+};
+
+const EMPTY_LIMIT: QuantityLimit = { id: '', scope: 'CATEGORY', target: '', maxPerSale: undefined, maxPerPeriod: undefined, periodDays: 30, action: 'ESCALATE' };
+
+const QuantityLimitSettings = () => {
+  const { limits, addLimit, updateLimit, deleteLimit } = useQuantityLimitStore();
+  const { products } = useProductStore();
+  const { user } = useAuthStore();
+  const [form, setForm] = useState<QuantityLimit>(EMPTY_LIMIT);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const canEdit = user?.role === Role.ADMIN || user?.role === Role.MANAGER || user?.role === Role.PHARMACIST;
+  const categories = Array.from(new Set(products.map(p => p.category)));
+  const catalog = Array.from(new Map(products.map(p => [p.sku, p])).values());
+  const isEditing = limits.some(l => l.id === form.id);
+
+  const describeTarget = (limit: QuantityLimit) =>
+      limit.scope === 'CATEGORY' ? `All ${limit.target}` : catalog.find(p => p.sku === limit.target)?.nameEn || limit.target;
+
+  const numberValue = (value: string) => value === '' ? undefined : Math.max(0, parseInt(value) || 0);
 
-            <div className="space-y-3 pt-2">
-                <label className="flex items-center justify-between p-3 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50 transition-colors">
-                  <span className="text-sm font-medium text-slate-700">Auto-print receipt after sale</span>
-                  <input 
-                    type="checkbox" 
-                    checked={settings.autoPrint} 
-                    onChange={(e) => updateSettings({ autoPrint: e.target.checked })}
-                    className="w-5 h-5 text-parami rounded focus:ring-parami" 
-                  />
-                </label>
-                <label className="flex items-center justify-between p-3 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50 transition-colors">
-                  <span className="text-sm font-medium text-slate-700">Show product images on POS</span>
-                  <input 
-                    type="checkbox" 
-                    checked={settings.showImages} 
-                    onChange={(e) => updateSettings({ showImages: e.target.checked })}
-                    className="w-5 h-5 text-parami rounded focus:ring-parami" 
+  const handleSave = () => {
+      if (!form.target) {
+          setErrorMessage(form.scope === 'CATEGORY' ? 'Choose a category.' : 'Choose a product.');
+          return;
+      }
+      if (form.maxPerSale === undefined && form.maxPerPeriod === undefined) {
+          setErrorMessage('Set a per-sale limit, a per-customer limit, or both.');
+          return;
+      }
+      if (form.maxPerPeriod !== undefined && form.periodDays <= 0) {
+          setErrorMessage('The period must be at least one day.');
+          return;
+      }
+      if (limits.some(l => l.id !== form.id && l.scope === form.scope && l.target === form.target)) {
+          setErrorMessage('There is already a limit for this product or category.');
+          return;
+      }
+
+      if (isEditing) {
+          updateLimit(form.id, form);
+      } else {
+          addLimit({ ...form, id: `ql-${Date.now()}` });
+      }
+      setForm(EMPTY_LIMIT);
+      setErrorMessage('');
+  };
+
+  return (
+      <div className="space-y-6 animate-in fade-in duration-300">
+          <div>
+              <h3 className="text-lg font-bold text-slate-800">Quantity Limits</h3>
+              <p className="text-sm text-slate-500">Maximum base units (tablets, capsules) of antibiotics and controlled medicines per sale and per customer. Blocked limits cannot be overridden; escalated ones need a manager or pharmacist, and every override is logged.</p>
+          </div>
+
+          <Card className="p-0 overflow-hidden">
+              <table className="w-full text-left text-sm">
+                  <thead className="bg-slate-50 text-slate-500 border-b border-slate-200 uppercase text-xs font-semibold">
+                      <tr>
+                          <th className="px-6 py-4">Applies To</th>
+                          <th className="px-6 py-4 text-right">Per Sale</th>
+                          <th className="px-6 py-4 text-right">Per Customer</th>
+                          <th className="px-6 py-4">When Exceeded</th>
+                          <th className="px-6 py-4 text-right">Actions</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                      {limits.map(limit => (
+                          <tr key={limit.id} className={`hover:bg-slate-50 transition-colors ${form.id === limit.id ? 'bg-blue-50/50' : ''}`}>
+                              <td className="px-6 py-4">
+                                  <div className="font-medium text-slate-800">{describeTarget(limit)}</div>
+                                  <div className="text-xs text-slate-400 mt-0.5">{limit.scope === 'CATEGORY' ? 'Category' : `SKU ${limit.target}`}</div>
+                              </td>
+                              <td className="px-6 py-4 text-right font-mono text-slate-700">{limit.maxPerSale ?? '—'}</td>
+                              <td className="px-6 py-4 text-right text-slate-700">
+                                  {limit.maxPerPeriod !== undefined ? <><span className="font-mono">{limit.maxPerPeriod}</span> <span className="text-xs text-slate-400">/ {limit.periodDays} days</span></> : '—'}
+                              </td>
+                              <td className="px-6 py-4">
+                                  <Badge variant={limit.action === 'BLOCK' ? 'danger' : 'warning'}>{limit.action === 'BLOCK' ? 'BLOCK' : 'OVERRIDE'}</Badge>
+                              </td>
+                              <td className="px-6 py-4 text-right">
+                                  {canEdit && (
+                                      <div className="flex justify-end gap-2">
+                                          <button
+                                              onClick={() => { setForm(limit); setErrorMessage(''); }}
+                                              className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                                              title="Edit Limit"
+                                          >
+                                              <Edit2 size={16} />
+                                          </button>
+                                          <button
+                                              onClick={() => { if (confirm(`Delete the limit for ${describeTarget(limit)}?`)) deleteLimit(limit.id); }}
+                                              className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded transition-colors"
+                                              title="Delete Limit"
+                                          >
+                                              <Trash2 size={16} />
+                                          </button>
+                                      </div>
+                                  )}
+                              </td>
+                          </tr>
+                      ))}
+                      {limits.length === 0 && (
+                          <tr><td colSpan={5} className="px-6 py-10 text-center text-slate-400">No quantity limits.</td></tr>
+                      )}
+                  </tbody>
+              </table>
+          </Card>
+
+          {canEdit && (
+              <Card title={isEditing ? 'Edit Limit' : 'Add Limit'}>
+                  <div className="space-y-4">
+                      {errorMessage && (
+                          <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+                              <AlertTriangle size={16} className="shrink-0" /> {errorMessage}
+                          </div>
+                      )}
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <div>
+                              <label className="block text-sm font-medium text-slate-700 mb-1.5">Applies To</label>
+                              <select
+                                  className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2.5 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                                  value={form.scope}
+                                  onChange={(e) => setForm({ ...form, scope: e.target.value as QuantityLimit['scope'], target: '' })}
+                              >
+                                  <option value="CATEGORY">Category</option>
+                                  <option value="PRODUCT">Product</option>
+                              </select>
+                          </div>
+                          <div className="md:col-span-2">
+                              <label className="block text-sm font-medium text-slate-700 mb-1.5">{form.scope === 'CATEGORY' ? 'Category' : 'Product'}</label>
+                              <select
+                                  className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2.5 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                                  value={form.target}
+                                  onChange={(e) => setForm({ ...form, target: e.target.value })}
+                              >
+                                  <option value="">Select...</option>
+                                  {form.scope === 'CATEGORY'
+                                      ? categories.map(c => <option key={c} value={c}>{c}</option>)
+                                      : catalog.map(p => <option key={p.sku} value={p.sku}>{p.nameEn}</option>)}
+                              </select>
+                          </div>
+                      </div>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                          <Input label="Max per Sale" type="number" min="0" value={form.maxPerSale ?? ''} onChange={(e: any) => setForm({ ...form, maxPerSale: numberValue(e.target.value) })} placeholder="No limit" />
+                          <Input label="Max per Customer" type="number" min="0" value={form.maxPerPeriod ?? ''} onChange={(e: any) => setForm({ ...form, maxPerPeriod: numberValue(e.target.value) })} placeholder="No limit" />
+                          <Input label="Period (days)" type="number" min="1" value={form.periodDays} onChange={(e: any) => setForm({ ...form, periodDays: parseInt(e.target.value) || 0 })} />
+                          <div>
+                              <label className="block text-sm font-medium text-slate-700 mb-1.5">When Exceeded</label>
+                              <select
+                                  className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2.5 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                                  value={form.action}
+                                  onChange={(e) => setForm({ ...form, action: e.target.value as QuantityLimit['action'] })}
+                              >
+                                  <option value="ESCALATE">Allow with override</option>
+                                  <option value="BLOCK">Block the sale</option>
+                              </select>
+                          </div>
+                      </div>
+                      <div className="flex justify-end gap-3">
+                          {isEditing && <Button variant="outline" onClick={() => { setForm(EMPTY_LIMIT); setErrorMessage(''); }}>Cancel</Button>}
+                          <Button variant="primary" onClick={handleSave} className="gap-2">
+                              {isEditing ? <><Save size={16} /> Save Limit</> : <><Plus size={16} /> Add Limit</>}
+                          </Button>
+                      </div>
+                  </div>
+              </Card>
+          )}
+      </div>
+  );
+};
+
+const TaxSettings = () => {
+  const { settings, updateSettings } = useSettingsStore();
+  const { products } = useProductStore();
+  const { user } = useAuthStore();
+  const [draft, setDraft] = useState({
+      pricesIncludeTax: settings.pricesIncludeTax,
+      defaultTaxRate: settings.defaultTaxRate,
+      taxRates: settings.taxRates
+  });
+  const [errorMessage, setErrorMessage] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  const categories = Array.from(new Set([...products.map(p => p.category), ...draft.taxRates.map(r => r.category)]));
+  const canManage = user?.role === Role.ADMIN || user?.role === Role.MANAGER;
+
+  // Blank means the category follows the default rate
+  const setCategoryRate = (category: string, value: string) => {
+      const others = draft.taxRates.filter(r => r.category !== category);
+      setDraft({ ...draft, taxRates: value === '' ? others : [...others, { category, rate: parseFloat(value) || 0 }] });
+      setSaved(false);
+  };
+
+  const handleSave = () => {
+      const rates = [draft.defaultTaxRate, ...draft.taxRates.map(r => r.rate)];
+      if (rates.some(r => r < 0 || r > 100)) {
+          setErrorMessage('Tax rates must be between 0 and 100%.');
+          return;
+      }
+      updateSettings(draft);
+      setErrorMessage('');
+      setSaved(true);
+      setTimeout(() => setSaved(false), 3000);
+  };
+
+  return (
+      <div className="space-y-6 animate-in fade-in duration-300">
+          <div>
+              <h3 className="text-lg font-bold text-slate-800">Commercial Tax</h3>
+              <p className="text-sm text-slate-500">Tax rates by product category and how shelf prices are treated. Changes apply to new sales only.</p>
+          </div>
+
+          <Card title="Pricing">
+              <div className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {[
+                          { value: true, title: 'Prices include tax', hint: 'The tax is taken out of the shelf price; the customer pays the price shown.' },
+                          { value: false, title: 'Prices exclude tax', hint: 'The tax is added on top of the shelf price at checkout.' }
+                      ].map(option => (
+                          <button
+                              key={option.title}
+                              disabled={!canManage}
+                              onClick={() => { setDraft({ ...draft, pricesIncludeTax: option.value }); setSaved(false); }}
+                              className={`text-left p-4 rounded-xl border-2 transition-all ${draft.pricesIncludeTax === option.value ? 'border-a7 bg-blue-50/50' : 'border-slate-200 hover:border-slate-300'}`}
+                          >
+                              <p className="text-sm font-bold text-slate-800">{option.title}</p>
+                              <p className="text-xs text-slate-500 mt-1">{option.hint}</p>
+                          </button>
+                      ))}
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                      <div>
+                          <p className="text-sm font-medium text-slate-700">Default rate (%)</p>
+                          <p className="text-xs text-slate-500">Used for every category without its own rate.</p>
+                      </div>
+                      <input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          disabled={!canManage}
+                          value={draft.defaultTaxRate}
+                          onChange={(e) => { setDraft({ ...draft, defaultTaxRate: parseFloat(e.target.value) || 0 }); setSaved(false); }}
+                          className="w-28 bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm text-right font-mono focus:ring-2 focus:ring-a7/20 outline-none disabled:bg-slate-50"
+                      />
+                  </div>
+              </div>
+          </Card>
+
+          <Card title="Rates by Category">
+              <p className="text-xs text-slate-500 mb-4">Leave a category blank to use the default rate. Enter 0 for exempt categories.</p>
+              <div className="space-y-2">
+                  {categories.map(c => (
+                      <div key={c} className="flex items-center justify-between gap-4 p-3 bg-slate-50 rounded-lg border border-slate-100">
+                          <span className="text-sm font-medium text-slate-700">{c}</span>
+                          <div className="flex items-center gap-2 text-sm text-slate-500">
+                              <input
+                                  type="number"
+                                  min="0"
+                                  step="0.5"
+                                  disabled={!canManage}
+                                  placeholder={String(draft.defaultTaxRate)}
+                                  value={draft.taxRates.find(r => r.category === c)?.rate ?? ''}
+                                  onChange={(e) => setCategoryRate(c, e.target.value)}
+                                  className="w-28 bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm text-right font-mono focus:ring-2 focus:ring-a7/20 outline-none disabled:bg-slate-50"
+                              />
+                              %
+                          </div>
+                      </div>
+                  ))}
+              </div>
+          </Card>
+
+          {errorMessage && (
+              <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+                  <AlertTriangle size={16} className="shrink-0" /> {errorMessage}
+              </div>
+          )}
+
+          {canManage && (
+              <div className="flex items-center justify-end gap-3">
+                  {saved && <span className="text-sm text-emerald-600 flex items-center gap-1"><Check size={14} /> Saved</span>}
+                  <Button variant="primary" onClick={handleSave} className="gap-2"><Save size={16} /> Save Tax Settings</Button>
+              </div>
+          )}
+      </div>
+  );
+};
+
+const NumberingSettings = () => {
+  const { settings, updateSettings } = useSettingsStore();
+  const { branches } = useBranchStore();
+  const { register, voidNumber } = useNumberingStore();
+  const { user } = useAuthStore();
+  const [branchFilter, setBranchFilter] = useState('ALL');
+  const [typeFilter, setTypeFilter] = useState<DocumentType | 'ALL'>('ALL');
+  const [voiding, setVoiding] = useState<string | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const canManage = user?.role === Role.ADMIN || user?.role === Role.MANAGER;
+  const visible = register.filter(r => (branchFilter === 'ALL' || r.branchId === branchFilter) && (typeFilter === 'ALL' || r.docType === typeFilter));
+
+  const handleVoid = async (number: string) => {
+      const result = await voidNumber(number, { reason: voidReason, by: user?.name || 'Unknown' });
+      if (!result.success) {
+          setErrorMessage(result.error || 'Could not void the number.');
+          return;
+      }
+      setVoiding(null);
+      setVoidReason('');
+      setErrorMessage('');
+  };
+
+  return (
+      <div className="space-y-6 animate-in fade-in duration-300">
+          <div>
+              <h3 className="text-lg font-bold text-slate-800">Document Numbering</h3>
+              <p className="text-sm text-slate-500">Each branch numbers its invoices, returns and orders in its own gap-free sequence, e.g. PARAMI-1/INV/2026/000123.</p>
+          </div>
+
+          <Card title="Sequences">
+              <div className="flex items-center justify-between gap-4">
+                  <div>
+                      <p className="text-sm font-medium text-slate-700">Restart numbering every year</p>
+                      <p className="text-xs text-slate-500">The first document of a new year starts again at 000001. Off keeps counting across years.</p>
+                  </div>
+                  <input
+                      type="checkbox"
+                      disabled={!canManage}
+                      checked={settings.resetNumbersYearly}
+                      onChange={(e) => updateSettings({ resetNumbersYearly: e.target.checked })}
+                      className="w-5 h-5 accent-a7"
                   />
-                </label>
-            </div>
+              </div>
+          </Card>
+
+          <Card className="p-0 overflow-hidden">
+              <div className="px-6 py-4 border-b border-slate-100 flex flex-wrap justify-between items-center gap-3">
+                  <div>
+                      <h3 className="font-bold text-slate-800">Number Register</h3>
+                      <p className="text-xs text-slate-500 mt-0.5">Every number ever issued. Void a number to record why it was not used; it is never issued again.</p>
+                  </div>
+                  <div className="flex gap-2">
+                      <select
+                          value={branchFilter}
+                          onChange={(e) => setBranchFilter(e.target.value)}
+                          className="bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                      >
+                          <option value="ALL">All Branches</option>
+                          {branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                      </select>
+                      <select
+                          value={typeFilter}
+                          onChange={(e) => setTypeFilter(e.target.value as DocumentType | 'ALL')}
+                          className="bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                      >
+                          <option value="ALL">All Documents</option>
+                          {DOCUMENT_TYPES.map(t => <option key={t.code} value={t.code}>{t.label}</option>)}
+                      </select>
+                  </div>
+              </div>
+
+              {errorMessage && (
+                  <div className="mx-6 mt-4 p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+                      <AlertTriangle size={16} className="shrink-0" /> {errorMessage}
+                  </div>
+              )}
+
+              <div className="overflow-x-auto max-h-[480px]">
+                  <table className="w-full text-left text-sm">
+                      <thead className="bg-slate-50 text-slate-500 border-b border-slate-200 uppercase text-xs font-semibold">
+                          <tr>
+                              <th className="px-6 py-4">Number</th>
+                              <th className="px-6 py-4">Issued</th>
+                              <th className="px-6 py-4">Status</th>
+                              <th className="px-6 py-4"></th>
+                          </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                          {visible.map(entry => (
+                              <tr key={entry.number} className="hover:bg-slate-50 transition-colors align-top">
+                                  <td className="px-6 py-4">
+                                      <p className="font-mono font-medium text-slate-800">{entry.number}</p>
+                                      <p className="text-xs text-slate-500">{DOCUMENT_TYPES.find(t => t.code === entry.docType)?.label}{entry.reference ? ` · ${entry.reference}` : ''}</p>
+                                  </td>
+                                  <td className="px-6 py-4">
+                                      <p className="text-slate-600 whitespace-nowrap">{new Date(entry.issuedAt).toLocaleString()}</p>
+                                      <p className="text-xs text-slate-500">{entry.issuedBy}</p>
+                                  </td>
+                                  <td className="px-6 py-4">
+                                      <Badge variant={entry.status === 'VOID' ? 'danger' : 'success'}>{entry.status === 'VOID' ? 'Void' : 'Issued'}</Badge>
+                                      {entry.status === 'VOID' && (
+                                          <p className="text-xs text-slate-500 mt-1">{entry.voidReason} · {entry.voidedBy}</p>
+                                      )}
+                                  </td>
+                                  <td className="px-6 py-4 text-right">
+                                      {canManage && entry.status === 'ISSUED' && (voiding === entry.number ? (
+                                          <div className="flex items-center justify-end gap-2">
+                                              <input
+                                                  autoFocus
+                                                  placeholder="Reason"
+                                                  value={voidReason}
+                                                  onChange={(e) => { setVoidReason(e.target.value); setErrorMessage(''); }}
+                                                  className="w-40 bg-white border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+                                              />
+                                              <Button variant="danger" size="sm" onClick={() => handleVoid(entry.number)}>Void</Button>
+                                              <button onClick={() => { setVoiding(null); setVoidReason(''); setErrorMessage(''); }} className="p-1.5 text-slate-400 hover:text-slate-600"><X size={16} /></button>
+                                          </div>
+                                      ) : (
+                                          <button onClick={() => { setVoiding(entry.number); setVoidReason(''); setErrorMessage(''); }} className="text-xs font-medium text-red-600 hover:underline">Void</button>
+                                      ))}
+                                  </td>
+                              </tr>
+                          ))}
+                          {visible.length === 0 && (
+                              <tr>
+                                  <td colSpan={4} className="px-6 py-8 text-center text-slate-400">No numbers issued yet.</td>
+                              </tr>
+                          )}
+                      </tbody>
+                  </table>
+              </div>
+          </Card>
+      </div>
+  );
+};
+
+const ShortcutSettings = () => {
+  const { bindings, setBinding, resetBindings } = useShortcutStore();
+  const [capturingId, setCapturingId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const conflicts = findShortcutConflicts(bindings);
+  const scopes = Array.from(new Set(SHORTCUT_ACTIONS.map(a => a.scope)));
+
+  // The capture button swallows the key so the shortcut engine never sees it
+  const handleCapture = (e: React.KeyboardEvent, actionId: string) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const key = normalizeKey(e.nativeEvent);
+      if (!key) return;
+      if (key === 'ESC') {
+          setCapturingId(null);
+          return;
+      }
+      const result = setBinding(actionId, key);
+      setErrorMessage(result.success ? '' : result.error || 'Could not assign that key.');
+      setCapturingId(null);
+  };
+
+  return (
+      <div className="space-y-6 animate-in fade-in duration-300">
+          <div className="flex items-start justify-between gap-4">
+              <div>
+                  <h3 className="text-lg font-bold text-slate-800">Keyboard Shortcuts</h3>
+                  <p className="text-sm text-slate-500">Click a key, then press the new key or combination. ESC cancels. Keys are saved on this device.</p>
+              </div>
+              <Button variant="outline" onClick={() => { resetBindings(); setErrorMessage(''); }} className="gap-2 shrink-0"><RefreshCw size={16} /> Reset to Defaults</Button>
           </div>
-      </Card>
-      <div className="flex justify-end">
-        <Button variant="primary" onClick={onSave} disabled={loading} className="min-w-[120px]">
-          {loading ? 'Saving...' : 'Save Changes'}
-        </Button>
+
+          {errorMessage && (
+              <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+                  <AlertTriangle size={16} className="shrink-0" /> {errorMessage}
+              </div>
+          )}
+          {conflicts.length > 0 && (
+              <div className="p-3 rounded-xl text-sm bg-amber-50 text-amber-800 border border-amber-100 space-y-1">
+                  {conflicts.map(c => (
+                      <p key={c.actions.map(a => a.id).join()} className="flex items-center gap-2">
+                          <AlertTriangle size={14} className="shrink-0" /> {c.key} is bound to both "{c.actions[0].label}" and "{c.actions[1].label}".
+                      </p>
+                  ))}
+              </div>
+          )}
+
+          {scopes.map(scope => (
+              <Card key={scope} title={SHORTCUT_SCOPES[scope] || scope}>
+                  <div className="space-y-2">
+                      {SHORTCUT_ACTIONS.filter(a => a.scope === scope).map(action => {
+                          const key = getShortcutKey(action, bindings);
+                          const inConflict = conflicts.some(c => c.actions.some(a => a.id === action.id));
+                          return (
+                              <div key={action.id} className="flex items-center justify-between gap-4 p-3 bg-slate-50 rounded-lg border border-slate-100">
+                                  <div>
+                                      <p className="text-sm font-medium text-slate-700">{action.label}</p>
+                                      <p className="text-xs text-slate-500 font-mm">{action.mm}</p>
+                                  </div>
+                                  <div className="flex items-center gap-2">
+                                      {bindings[action.id] && <span className="text-xs text-slate-400">default {action.defaultKey}</span>}
+                                      <button
+                                          onClick={(e) => { e.currentTarget.focus(); setCapturingId(action.id); setErrorMessage(''); }}
+                                          onKeyDown={(e) => capturingId === action.id && handleCapture(e, action.id)}
+                                          onBlur={() => capturingId === action.id && setCapturingId(null)}
+                                          className={`min-w-[5rem] px-3 py-1.5 rounded-lg border-b-2 text-xs font-bold font-mono transition-all ${
+                                              capturingId === action.id ? 'bg-blue-50 border-blue-400 text-blue-700 animate-pulse'
+                                              : inConflict ? 'bg-red-50 border-red-400 text-red-600'
+                                              : 'bg-white border-slate-300 text-slate-700 hover:border-blue-300'
+                                          }`}
+                                      >
+                                          {capturingId === action.id ? 'Press key…' : key}
+                                      </button>
+                                  </div>
+                              </div>
+                          );
+                      })}
+                  </div>
+              </Card>
+          ))}
       </div>
-    </div>
   );
 };
 
@@ -677,6 +2007,172 @@ const BackupSettings = ({ onExport, onClearData, isAdmin }: any) => (
   </div>
 );
 
+/**
+ * Zawgyi Repair
+ * Myanmar text is converted to Unicode as it is saved; this one-time tool converts text stored
+ * before that, in the app's data or in an exported backup file (downloaded as a converted copy).
+ * Backend products are shared by every branch, so their changes are listed for review before anything is written.
+ */
+const ZawgyiRepair = ({ isAdmin }: { isAdmin: boolean }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [results, setResults] = useState<{ store: string; converted: number }[] | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [productFixes, setProductFixes] = useState<ProductTextFix[] | null>(null);
+  const [selectedFixes, setSelectedFixes] = useState<Set<string>>(new Set());
+  const [failedFixes, setFailedFixes] = useState<{ name: string; error: string }[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const handleRepairData = () => {
+    if (!window.confirm('Convert all Zawgyi text stored in the app to Unicode? Text already in Unicode is not changed.')) return;
+    setResults(repairZawgyiStores());
+    setMessage(null);
+  };
+
+  const handleCheckProducts = async () => {
+    setBusy(true);
+    setMessage(null);
+    setFailedFixes([]);
+    try {
+      const fixes = await findZawgyiProducts();
+      setProductFixes(fixes);
+      setSelectedFixes(new Set(fixes.map(f => f.id)));
+    } catch (e) {
+      console.error('Error checking backend products', e);
+      setMessage({ type: 'error', text: 'Could not load backend products. Check the connection and try again.' });
+    }
+    setBusy(false);
+  };
+
+  const toggleFix = (id: string) => {
+    const next = new Set(selectedFixes);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelectedFixes(next);
+  };
+
+  const handleApplyProducts = async () => {
+    const fixes = (productFixes || []).filter(f => selectedFixes.has(f.id));
+    if (fixes.length === 0) return;
+    if (!window.confirm(`Rewrite the text of ${fixes.length} backend product(s) as Unicode? This changes the products for every branch.`)) return;
+    setBusy(true);
+    const failed = await applyProductTextFixes(fixes);
+    setBusy(false);
+    setProductFixes(null);
+    setFailedFixes(failed);
+    setMessage(failed.length === 0
+      ? { type: 'success', text: `${fixes.length} backend product(s) converted.` }
+      : { type: 'error', text: `${fixes.length - failed.length} of ${fixes.length} backend product(s) converted; the rest could not be updated.` });
+  };
+
+  const handleRepairFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      try {
+        const { value, converted } = repairZawgyi(JSON.parse(reader.result as string));
+        const blob = new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = file.name.replace(/\.json$/i, '') + '-unicode.json';
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+        setMessage({ type: 'success', text: `${converted} text value(s) converted in ${file.name}.` });
+      } catch {
+        setMessage({ type: 'error', text: `${file.name} is not a valid JSON backup.` });
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const total = results?.reduce((sum, r) => sum + r.converted, 0) || 0;
+
+  return (
+    <Card title="Myanmar Text Repair">
+      <p className="text-xs text-slate-500 mb-4">
+        Converts product names, customer names and addresses typed with a Zawgyi keyboard to Unicode, so they display and search correctly.
+      </p>
+      <div className="flex flex-wrap gap-3">
+        <Button variant="outline" onClick={handleRepairData} disabled={!isAdmin} className="text-xs" title={!isAdmin ? "Requires Admin privileges" : ""}>
+          <RefreshCw size={14} className="mr-1" /> Repair App Data
+        </Button>
+        <Button variant="outline" onClick={handleCheckProducts} disabled={!isAdmin || busy} className="text-xs" title={!isAdmin ? "Requires Admin privileges" : ""}>
+          <Database size={14} className="mr-1" /> Check Backend Products
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={!isAdmin} className="text-xs" title={!isAdmin ? "Requires Admin privileges" : ""}>
+          <Upload size={14} className="mr-1" /> Repair Backup File
+        </Button>
+        <input type="file" ref={fileInputRef} onChange={handleRepairFile} className="hidden" accept=".json,application/json" />
+      </div>
+
+      {results && (
+        <div className="mt-4 p-3 rounded-xl text-sm bg-slate-50 border border-slate-200">
+          <p className="font-medium text-slate-800 mb-2">
+            {total === 0 ? 'No Zawgyi text found.' : `${total} text value(s) converted.`}
+          </p>
+          {total > 0 && (
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs text-slate-600">
+              {results.filter(r => r.converted > 0).map(r => (
+                <div key={r.store} className="flex justify-between"><span>{r.store}</span><span className="font-mono">{r.converted}</span></div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {productFixes && (
+        <div className="mt-4 p-3 rounded-xl text-sm bg-slate-50 border border-slate-200 space-y-3">
+          {productFixes.length === 0 ? (
+            <p className="font-medium text-slate-800">No Zawgyi text found in backend products.</p>
+          ) : (
+            <>
+              <p className="font-medium text-slate-800">{productFixes.length} backend product(s) look like Zawgyi. Untick any that are already correct.</p>
+              <div className="max-h-64 overflow-y-auto divide-y divide-slate-200">
+                {productFixes.map(fix => (
+                  <label key={fix.id} className="flex items-start gap-3 py-2 cursor-pointer">
+                    <input type="checkbox" checked={selectedFixes.has(fix.id)} onChange={() => toggleFix(fix.id)} className="mt-1" />
+                    <div className="min-w-0 text-xs">
+                      <p className="font-semibold text-slate-800">{fix.name}</p>
+                      {fix.changes.map(c => (
+                        <p key={c.field} className="text-slate-600">
+                          <span className="text-slate-400">{c.field}:</span> <span className="font-mm">{c.from}</span> → <span className="font-mm text-slate-800">{c.to}</span>
+                        </p>
+                      ))}
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" size="sm" onClick={() => setProductFixes(null)} disabled={busy}>Close</Button>
+            {productFixes.length > 0 && (
+              <Button variant="primary" size="sm" onClick={handleApplyProducts} disabled={busy || selectedFixes.size === 0}>
+                Convert {selectedFixes.size} Product(s)
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div className={`mt-4 p-3 rounded-xl text-sm flex items-center gap-2 ${message.type === 'success' ? 'bg-emerald-50 text-emerald-700 border border-emerald-100' : 'bg-red-50 text-red-700 border border-red-100'}`}>
+          {message.type === 'success' ? <Check size={16} /> : <AlertTriangle size={16} />} {message.text}
+        </div>
+      )}
+
+      {failedFixes.length > 0 && (
+        <div className="mt-2 p-3 rounded-xl text-xs bg-red-50 text-red-700 border border-red-100 space-y-1">
+          {failedFixes.map((f, i) => <p key={i}><span className="font-semibold">{f.name}:</span> {f.error}</p>)}
+        </div>
+      )}
+    </Card>
+  );
+};
+
 const NotificationSettings = ({ onSave, loading }: any) => {
   const { settings, updateSettings } = useSettingsStore();
 
@@ -768,6 +2264,74 @@ const NotificationSettings = ({ onSave, loading }: any) => {
   );
 };
 
+// Counter overrides for the current branch, newest first
+const OverrideAuditLog = () => {
+  const { audits } = useOverrideAuditStore();
+  const [typeFilter, setTypeFilter] = useState<OverrideType | 'ALL'>('ALL');
+
+  const visible = audits.filter(a => typeFilter === 'ALL' || a.type === typeFilter);
+  const overrideTypes = Object.keys(OVERRIDE_LABELS) as OverrideType[];
+
+  return (
+      <Card className="p-0 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-100 flex flex-wrap justify-between items-center gap-3">
+              <div>
+                  <h3 className="font-bold text-slate-800">Override Audit Log</h3>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                      {overrideTypes.map(t => `${OVERRIDE_LABELS[t]}: ${OVERRIDE_ROLES[t].join('/')}`).join(' · ')}
+                  </p>
+              </div>
+              <select
+                  value={typeFilter}
+                  onChange={(e) => setTypeFilter(e.target.value as OverrideType | 'ALL')}
+                  className="bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-a7/20 outline-none"
+              >
+                  <option value="ALL">All Overrides</option>
+                  {overrideTypes.map(t => <option key={t} value={t}>{OVERRIDE_LABELS[t]}</option>)}
+              </select>
+          </div>
+          <div className="overflow-x-auto max-h-[480px]">
+              <table className="w-full text-left text-sm">
+                  <thead className="bg-slate-50 text-slate-500 border-b border-slate-200 uppercase text-xs font-semibold">
+                      <tr>
+                          <th className="px-6 py-4">Date</th>
+                          <th className="px-6 py-4">Type</th>
+                          <th className="px-6 py-4">Item / Batch</th>
+                          <th className="px-6 py-4">Approved By</th>
+                          <th className="px-6 py-4">Reason</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                      {visible.map(audit => (
+                          <tr key={audit.id} className="hover:bg-slate-50 transition-colors align-top">
+                              <td className="px-6 py-4 text-slate-500 whitespace-nowrap">{new Date(audit.date).toLocaleString()}</td>
+                              <td className="px-6 py-4">
+                                  <Badge variant={audit.type === 'VOID' ? 'danger' : 'warning'}>{OVERRIDE_LABELS[audit.type]}</Badge>
+                              </td>
+                              <td className="px-6 py-4">
+                                  <p className="font-medium text-slate-800">{audit.productName || 'Whole sale'}</p>
+                                  {audit.batchNumber && <p className="text-xs font-mono text-slate-500">Batch {audit.batchNumber}</p>}
+                                  <p className="text-xs text-slate-500">{audit.details}</p>
+                              </td>
+                              <td className="px-6 py-4">
+                                  <p className="font-medium text-slate-800">{audit.approvedBy}</p>
+                                  <p className="text-xs text-slate-500">{audit.approverRole} · requested by {audit.requestedBy}</p>
+                              </td>
+                              <td className="px-6 py-4 text-slate-600">{audit.reason}</td>
+                          </tr>
+                      ))}
+                      {visible.length === 0 && (
+                          <tr>
+                              <td colSpan={5} className="px-6 py-8 text-center text-slate-400">No overrides recorded for this branch.</td>
+                          </tr>
+                      )}
+                  </tbody>
+              </table>
+          </div>
+      </Card>
+  );
+};
+
 const SecuritySettings = ({ onSave, loading }: any) => (
    <div className="space-y-6 animate-in fade-in duration-300">
       <Card title="Change Password">
@@ -795,6 +2359,8 @@ const SecuritySettings = ({ onSave, loading }: any) => (
               </div>
           </div>
       </div>
+
+      <OverrideAuditLog />
    </div>
 );
 
@@ -868,6 +2434,14 @@ const Settings = () => {
           <TabButton id="general" label="General" icon={SettingsIcon} active={activeTab === 'general'} onClick={setActiveTab} />
           <TabButton id="branches" label="Branch Management" icon={Building2} active={activeTab === 'branches'} onClick={setActiveTab} />
           <TabButton id="printing" label="Printing & POS" icon={Printer} active={activeTab === 'printing'} onClick={setActiveTab} />
+          <TabButton id="promotions" label="Promotions" icon={Tag} active={activeTab === 'promotions'} onClick={setActiveTab} />
+          <TabButton id="pricelists" label="Price Lists" icon={Layers} active={activeTab === 'pricelists'} onClick={setActiveTab} />
+          <TabButton id="loyalty" label="Loyalty" icon={Star} active={activeTab === 'loyalty'} onClick={setActiveTab} />
+          <TabButton id="interactions" label="Drug Interactions" icon={ShieldAlert} active={activeTab === 'interactions'} onClick={setActiveTab} />
+          <TabButton id="limits" label="Quantity Limits" icon={Scale} active={activeTab === 'limits'} onClick={setActiveTab} />
+          <TabButton id="tax" label="Tax" icon={Percent} active={activeTab === 'tax'} onClick={setActiveTab} />
+          <TabButton id="numbering" label="Numbering" icon={Hash} active={activeTab === 'numbering'} onClick={setActiveTab} />
+          <TabButton id="shortcuts" label="Keyboard Shortcuts" icon={Keyboard} active={activeTab === 'shortcuts'} onClick={setActiveTab} />
           <TabButton id="notifications" label="Notifications" icon={Bell} active={activeTab === 'notifications'} onClick={setActiveTab} />
           
           <p className="px-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 mt-6">Security</p>
@@ -891,14 +2465,25 @@ const Settings = () => {
            {activeTab === 'general' && <GeneralSettings onSave={handleSave} loading={isLoading} />}
            {activeTab === 'branches' && <BranchManagement />}
            {activeTab === 'printing' && <PrintingSettings onSave={handleSave} loading={isLoading} />}
+           {activeTab === 'promotions' && <PromotionSettings />}
+           {activeTab === 'pricelists' && <PriceListSettings />}
+           {activeTab === 'loyalty' && <LoyaltySettings />}
+           {activeTab === 'interactions' && <DrugInteractionSettings />}
+           {activeTab === 'limits' && <QuantityLimitSettings />}
+           {activeTab === 'tax' && <TaxSettings />}
+           {activeTab === 'numbering' && <NumberingSettings />}
+           {activeTab === 'shortcuts' && <ShortcutSettings />}
            {activeTab === 'notifications' && <NotificationSettings onSave={handleSave} loading={isLoading} />}
            {activeTab === 'security' && <SecuritySettings onSave={handleSave} loading={isLoading} />}
            {activeTab === 'backup' && (
-              <BackupSettings 
-                onExport={handleExportData} 
-                onClearData={handleClearData} 
-                isAdmin={user?.role === Role.ADMIN} 
-              />
+              <div className="space-y-6">
+                <BackupSettings 
+                  onExport={handleExportData} 
+                  onClearData={handleClearData} 
+                  isAdmin={user?.role === Role.ADMIN} 
+                />
+                <ZawgyiRepair isAdmin={user?.role === Role.ADMIN} />
+              </div>
            )}
         </div>
       </div>
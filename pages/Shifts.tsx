@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { Card, Button, Badge } from '../components/UI';
+import { useShiftStore, useAuthStore, useSalesStore, useReturnStore } from '../store';
+import { Wallet, ArrowDownCircle, ArrowUpCircle, Lock, AlertCircle, ChevronDown, ChevronRight, FileText } from 'lucide-react';
+import { PaymentMethod, Shift, ShiftReport, PAYMENT_METHODS } from '../types';
+import { buildShiftReport } from '../utils/shiftReport';
+
+const getMethodName = (code: string) => PAYMENT_METHODS.find(m => m.code === code)?.nameEn || code;
+
+const Metric = ({ label, value, tone = 'text-slate-800' }: { label: string, value: string, tone?: string }) => (
+  <div className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+    <p className="text-[10px] uppercase tracking-wider font-semibold text-slate-400">{label}</p>
+    <p className={`text-lg font-bold ${tone}`}>{value}</p>
+  </div>
+);
+
+const ReportView = ({ report, title }: { report: ShiftReport, title: string }) => (
+  <div className="space-y-4">
+    <div className="flex items-center justify-between">
+      <h4 className="font-bold text-slate-800 flex items-center gap-2"><FileText size={16} className="text-blue-600" /> {title}</h4>
+      <span className="text-xs text-slate-400">{new Date(report.generatedAt).toLocaleString()}</span>
+    </div>
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      <Metric label="Sales" value={`${report.salesCount} · ${report.grossSales.toLocaleString()} Ks`} />
+      <Metric label="Refunds" value={`${report.refundsCount} · ${report.refundsTotal.toLocaleString()} Ks`} tone="text-rose-600" />
+      <Metric label="Discounts" value={`${report.discountTotal.toLocaleString()} Ks`} tone="text-emerald-600" />
+      <Metric label="Overrides" value={String(report.overrideCount)} tone={report.overrideCount > 0 ? 'text-amber-600' : 'text-slate-800'} />
+      <Metric label="Opening Float" value={`${report.openingFloat.toLocaleString()} Ks`} />
+      <Metric label="Cash In" value={`${report.cashIn.toLocaleString()} Ks`} />
+      <Metric label="Cash Out" value={`${report.cashOut.toLocaleString()} Ks`} />
+    </div>
+    <table className="w-full text-left text-sm">
+      <thead className="text-slate-400 text-xs uppercase tracking-wider font-semibold border-b border-slate-200">
+        <tr>
+          <th className="py-2">Tender</th>
+          <th className="py-2 text-right">Expected</th>
+          <th className="py-2 text-right">Counted</th>
+          <th className="py-2 text-right">Variance</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {report.tenders.map(t => (
+          <tr key={t.method}>
+            <td className="py-2 font-medium text-slate-700">{getMethodName(t.method)}</td>
+            <td className="py-2 text-right text-slate-700">{t.expected.toLocaleString()}</td>
+            <td className="py-2 text-right text-slate-700">{t.counted !== undefined ? t.counted.toLocaleString() : '—'}</td>
+            <td className={`py-2 text-right font-bold ${!t.variance ? 'text-slate-500' : t.variance > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+              {t.variance !== undefined ? `${t.variance > 0 ? '+' : ''}${t.variance.toLocaleString()}` : '—'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const Shifts = () => {
+  const { user } = useAuthStore();
+  const { shifts, openShift, addCashMovement, closeShift } = useShiftStore();
+  const { allSales } = useSalesStore();
+  const { allReturns } = useReturnStore();
+
+  const currentShift = shifts.find(s => s.cashierId === user?.id && s.status === 'OPEN');
+
+  const [floatInput, setFloatInput] = useState('');
+  const [movementType, setMovementType] = useState<'CASH_IN' | 'CASH_OUT'>('CASH_IN');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [counted, setCounted] = useState<Partial<Record<PaymentMethod, string>>>({});
+  const [error, setError] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const liveReport = (shift: Shift) => buildShiftReport(shift, allSales, allReturns);
+
+  const handleOpen = () => {
+    const result = openShift(user?.id || 'unknown', user?.name || 'Unknown', parseFloat(floatInput) || 0);
+    if (!result.success) {
+      setError(result.error || 'Could not open shift');
+      return;
+    }
+    setError('');
+    setFloatInput('');
+  };
+
+  const handleMovement = () => {
+    if (!currentShift) return;
+    if (!movementReason.trim()) {
+      setError('Enter a reason for the cash movement.');
+      return;
+    }
+    const result = addCashMovement(currentShift.id, {
+      type: movementType,
+      amount: parseFloat(movementAmount) || 0,
+      reason: movementReason.trim(),
+      by: user?.name || 'Unknown'
+    });
+    if (!result.success) {
+      setError(result.error || 'Could not record cash movement');
+      return;
+    }
+    setError('');
+    setMovementAmount('');
+    setMovementReason('');
+  };
+
+  const handleClose = () => {
+    if (!currentShift) return;
+    if (counted.CASH === undefined || counted.CASH === '') {
+      setError('Count the cash drawer before closing the shift.');
+      return;
+    }
+    if (!confirm('Close this shift? The Z report is final and the shift will be locked.')) return;
+
+    const countedAmounts: Partial<Record<PaymentMethod, number>> = {};
+    PAYMENT_METHODS.forEach(m => {
+      if (counted[m.code] !== undefined && counted[m.code] !== '') countedAmounts[m.code] = parseFloat(counted[m.code]!) || 0;
+    });
+
+    const result = closeShift(currentShift.id, countedAmounts);
+    if (!result.success) {
+      setError(result.error || 'Could not close shift');
+      return;
+    }
+    setError('');
+    setCounted({});
+    setExpandedId(currentShift.id);
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+          Cashier Shifts
+          <span className="text-base font-normal text-slate-400 font-mm ml-2">ငွေကိုင်အလှည့်</span>
+        </h1>
+        <p className="text-slate-500 text-sm">Open the till with a float, record cash in and out, and close with an X/Z report.</p>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+          <AlertCircle size={16} className="shrink-0" /> {error}
+        </div>
+      )}
+
+      {!currentShift ? (
+        <Card title="Open Shift">
+          <div className="flex flex-col md:flex-row gap-3 md:items-end">
+            <div className="flex-1 max-w-xs">
+              <label className="block text-sm font-medium text-slate-700 mb-1.5">Opening Float (Ks)</label>
+              <input
+                type="number"
+                min="0"
+                value={floatInput}
+                onChange={(e) => setFloatInput(e.target.value)}
+                placeholder="0"
+                className="w-full px-3 py-2.5 bg-white border border-slate-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-a7/20"
+              />
+            </div>
+            <Button variant="primary" onClick={handleOpen} className="gap-2">
+              <Wallet size={16} /> Open Shift for {user?.name}
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <ReportView report={liveReport(currentShift)} title={`X Report · opened ${new Date(currentShift.openedAt).toLocaleString()}`} />
+            </Card>
+
+            <Card title="Close Shift">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {/* Points are settled in the customer ledger, not counted in the till */}
+                {PAYMENT_METHODS.filter(m => m.code !== 'POINTS').map(m => (
+                  <div key={m.code}>
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Counted {m.nameEn}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={counted[m.code] ?? ''}
+                      onChange={(e) => setCounted({ ...counted, [m.code]: e.target.value })}
+                      className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-a7/20"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end mt-4">
+                <Button variant="primary" onClick={handleClose} className="gap-2 bg-slate-800 hover:bg-slate-900">
+                  <Lock size={16} /> Close Shift & Z Report
+                </Button>
+              </div>
+            </Card>
+          </div>
+
+          <Card title="Cash In / Out">
+            <div className="space-y-3">
+              <div className="flex bg-slate-100 rounded-lg p-1 border border-slate-200">
+                <button onClick={() => setMovementType('CASH_IN')} className={`flex-1 py-1.5 rounded-md text-xs font-bold ${movementType === 'CASH_IN' ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}>Cash In</button>
+                <button onClick={() => setMovementType('CASH_OUT')} className={`flex-1 py-1.5 rounded-md text-xs font-bold ${movementType === 'CASH_OUT' ? 'bg-white shadow-sm text-rose-700' : 'text-slate-500'}`}>Cash Out</button>
+              </div>
+              <input
+                type="number"
+                min="0"
+                value={movementAmount}
+                onChange={(e) => setMovementAmount(e.target.value)}
+                placeholder="Amount (Ks)"
+                className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-a7/20"
+              />
+              <input
+                value={movementReason}
+                onChange={(e) => setMovementReason(e.target.value)}
+                placeholder="Reason, e.g. Change from bank / Paid delivery"
+                className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-a7/20"
+              />
+              <Button variant="outline" onClick={handleMovement} className="w-full">Record</Button>
+
+              <div className="pt-2 space-y-2">
+                {currentShift.movements.map(m => (
+                  <div key={m.id} className="flex items-center justify-between text-xs">
+                    <span className="flex items-center gap-1.5 text-slate-600">
+                      {m.type === 'CASH_IN' ? <ArrowDownCircle size={14} className="text-emerald-500" /> : <ArrowUpCircle size={14} className="text-rose-500" />}
+                      {m.reason}
+                    </span>
+                    <span className={`font-bold ${m.type === 'CASH_IN' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                      {m.type === 'CASH_IN' ? '+' : '-'}{m.amount.toLocaleString()}
+                    </span>
+                  </div>
+                ))}
+                {currentShift.movements.length === 0 && <p className="text-xs text-slate-400 text-center">No cash movements yet.</p>}
+              </div>
+            </div>
+          </Card>
+        </div>
+      )}
+
+      <Card title="Shift History" className="p-0 overflow-hidden">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider font-semibold border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3">Cashier</th>
+              <th className="px-6 py-3">Opened</th>
+              <th className="px-6 py-3">Closed</th>
+              <th className="px-6 py-3 text-right">Sales</th>
+              <th className="px-6 py-3 text-right">Cash Variance</th>
+              <th className="px-6 py-3">Status</th>
+            </tr>
+          </thead>
+          {shifts.map(shift => {
+            const report = shift.zReport || liveReport(shift);
+            const cashVariance = report.tenders.find(t => t.method === 'CASH')?.variance;
+            return (
+              <tbody key={shift.id} className="border-b border-slate-100">
+                <tr onClick={() => setExpandedId(expandedId === shift.id ? null : shift.id)} className="hover:bg-slate-50 cursor-pointer">
+                  <td className="px-6 py-3 font-medium text-slate-800">
+                    <span className="flex items-center gap-2">
+                      {expandedId === shift.id ? <ChevronDown size={14} className="text-slate-400" /> : <ChevronRight size={14} className="text-slate-400" />}
+                      {shift.cashierName}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-slate-600">{new Date(shift.openedAt).toLocaleString()}</td>
+                  <td className="px-6 py-3 text-slate-600">{shift.closedAt ? new Date(shift.closedAt).toLocaleString() : '—'}</td>
+                  <td className="px-6 py-3 text-right text-slate-700">{report.grossSales.toLocaleString()}</td>
+                  <td className={`px-6 py-3 text-right font-bold ${!cashVariance ? 'text-slate-500' : cashVariance > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                    {cashVariance !== undefined ? cashVariance.toLocaleString() : '—'}
+                  </td>
+                  <td className="px-6 py-3">
+                    <Badge variant={shift.status === 'OPEN' ? 'success' : 'neutral'} className="flex items-center gap-1 w-fit">
+                      {shift.status === 'CLOSED' && <Lock size={10} />} {shift.status}
+                    </Badge>
+                  </td>
+                </tr>
+                {expandedId === shift.id && (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-4 bg-slate-50/70">
+                      <ReportView report={report} title={shift.zReport ? 'Z Report' : 'X Report'} />
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            );
+          })}
+          {shifts.length === 0 && (
+            <tbody>
+              <tr><td colSpan={6} className="px-6 py-10 text-center text-slate-400">No shifts at this branch yet.</td></tr>
+            </tbody>
+          )}
+        </table>
+      </Card>
+    </div>
+  );
+};
+
+export default Shifts;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { 
   Package, Plus, Save, X, Search, Calendar, MapPin, 
@@ -6,9 +6,11 @@ import {
 } from 'lucide-react';
 import { Card, Button, Input, Badge } from '../components/UI';
 import CameraScanner from '../components/CameraScanner';
-import { useProductStore, useSupplierStore, useAuthStore } from '../store';
+import { useShortcuts } from '../components/ShortcutPanel';
+import { useProductStore, useSupplierStore, useAuthStore, useSerialStore, useSalesStore } from '../store';
 import { UNIT_TYPES, ScannedItem, Product } from '../types';
 import { parseBarcode } from '../utils/gs1Parser';
+import { buildSearchIndex, getSalesFrequency, searchProducts } from '../utils/search';
 
 const StockEntry = () => {
   const navigate = useNavigate();
@@ -19,11 +21,17 @@ const StockEntry = () => {
   const { allProducts, incrementStock, addProduct } = useProductStore();
   const { suppliers } = useSupplierStore();
   const { user } = useAuthStore();
+  const { checkSerial, recordSerial } = useSerialStore();
+  const { allSales } = useSalesStore();
 
   // State
   const [isScannerOpen, setIsScannerOpen] = useState(false);
   const [successMsg, setSuccessMsg] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
+  const [suggestionsOpen, setSuggestionsOpen] = useState(false);
+
+  const searchIndex = useMemo(() => buildSearchIndex(allProducts, getSalesFrequency(allSales)), [allProducts, allSales]);
+  const suggestions = suggestionsOpen && searchTerm.trim() ? searchProducts(searchIndex, searchTerm).slice(0, 6) : [];
   
   // Form Data
   const [formData, setFormData] = useState({
@@ -31,6 +39,7 @@ const StockEntry = () => {
     productName: '',
     batchNumber: '',
     expiryDate: '',
+    serialNumber: '',
     quantity: '',
     unit: 'STRIP',
     location: '',
@@ -60,6 +69,7 @@ const StockEntry = () => {
           productName: existingProduct?.nameEn || data.productName || '',
           batchNumber: data.batchNumber || '',
           expiryDate: data.expiryDate || '',
+          serialNumber: data.serialNumber || '',
           unit: existingProduct?.unit || 'STRIP',
           location: existingProduct?.location || '',
           sellingPrice: existingProduct?.price.toString() || '',
@@ -79,34 +89,58 @@ const StockEntry = () => {
           rawData: result.rawData,
           batchNumber: result.batchNumber,
           expiryDate: result.expiryDate,
+          serialNumber: result.serialNumber,
       };
       
       populateForm(scannedItem as ScannedItem);
       setIsScannerOpen(false);
   };
 
+  const selectProduct = (product: Product) => {
+      populateForm({ 
+          gtin: product.gtin, 
+          rawData: product.id, 
+          productName: product.nameEn 
+      } as ScannedItem);
+      setSuggestionsOpen(false);
+  };
+
+  // A full SKU or barcode picks the product straight away; anything else offers the closest matches
   const handleProductSearch = (term: string) => {
       setSearchTerm(term);
-      // Simple lookup logic (could be a dropdown in real app)
-      const found = allProducts.find(p => p.sku === term || p.nameEn.toLowerCase().includes(term.toLowerCase()));
-      if (found) {
-          populateForm({ 
-              gtin: found.gtin, 
-              rawData: found.id, 
-              productName: found.nameEn 
-          } as ScannedItem);
+      const exact = allProducts.find(p => p.sku === term || p.gtin === term);
+      if (exact) {
+          selectProduct(exact);
+          return;
       }
+      setSuggestionsOpen(!!term.trim());
   };
 
+  const serialCheck = formData.serialNumber && formData.gtin ? checkSerial(formData.gtin, formData.serialNumber, 'RECEIVED') : null;
+  const serialWarning = serialCheck && !serialCheck.success ? `Duplicate serial: ${serialCheck.error}` : '';
+
   const handleSave = (createAnother: boolean = false) => {
       if (!formData.productName || !formData.quantity || !formData.unit) {
           alert("Please fill in Product Name, Quantity, and Unit.");
           return;
       }
 
+      // A serial the registry already knows is a duplicate pack, possibly counterfeit
+      if (serialWarning && !window.confirm(`${serialWarning}\n\nReceive the stock anyway? The serial will not be registered again.`)) {
+          return;
+      }
+
       // Logic to update inventory
       // 1. Find product ID or create new placeholder if not exists (simplified here)
       const product = allProducts.find(p => p.gtin === formData.gtin || p.nameEn === formData.productName);
+
+      if (formData.serialNumber && formData.gtin && !serialWarning) {
+          recordSerial(
+              { gtin: formData.gtin, serialNumber: formData.serialNumber, productId: product?.id, batchNumber: formData.batchNumber || null },
+              'RECEIVED',
+              { by: user?.name || 'Unknown', reference: formData.invoiceNo || undefined }
+          );
+      }
       
       if (product) {
           incrementStock(
@@ -157,6 +191,7 @@ const StockEntry = () => {
               productName: '',
               batchNumber: '',
               expiryDate: '',
+              serialNumber: '',
               quantity: '',
               costPrice: '',
               sellingPrice: ''
@@ -168,17 +203,13 @@ const StockEntry = () => {
   };
 
   // Keyboard Shortcuts
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'F3') { e.preventDefault(); setIsScannerOpen(true); }
-      if (e.key === 'F2') { e.preventDefault(); document.getElementById('productSearch')?.focus(); }
-      if (e.key === 'F10') { e.preventDefault(); handleSave(false); }
-      if (e.key === 'F11') { e.preventDefault(); handleSave(true); }
-      if (e.key === 'Escape') { e.preventDefault(); setIsScannerOpen(false); }
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [formData]); // Re-bind on form change to capture latest state
+  useShortcuts({
+    'stock.search': () => document.getElementById('productSearch')?.focus(),
+    'stock.scan': () => setIsScannerOpen(true),
+    'stock.save': () => handleSave(false),
+    'stock.saveNext': () => handleSave(true),
+    'stock.cancel': () => setIsScannerOpen(false)
+  });
 
   return (
     <div className="p-6 max-w-5xl mx-auto space-y-6 pb-20">
@@ -221,6 +252,20 @@ const StockEntry = () => {
                                    value={searchTerm}
                                    onChange={e => handleProductSearch(e.target.value)}
                                />
+                               {suggestions.length > 0 && (
+                                   <div className="absolute left-0 right-0 top-full mt-1 bg-white border border-slate-200 rounded-xl shadow-lg z-20 overflow-hidden">
+                                       {suggestions.map(p => (
+                                           <button
+                                               key={p.id}
+                                               onClick={() => selectProduct(p)}
+                                               className="w-full text-left px-4 py-2.5 hover:bg-blue-50 border-b border-slate-50 last:border-0 transition-colors"
+                                           >
+                                               <p className="text-sm font-medium text-slate-800">{p.nameEn} <span className="font-mm text-slate-500 ml-1">{p.nameMm}</span></p>
+                                               <p className="text-xs text-slate-500">{p.genericName || p.category} · <span className="font-mono">{p.sku}</span></p>
+                                           </button>
+                                       ))}
+                                   </div>
+                               )}
                            </div>
                        </div>
                        
@@ -264,7 +309,19 @@ const StockEntry = () => {
                                <Calendar className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" size={16} />
                            </div>
                        </div>
+                       <Input 
+                           label="Serial Number (AI 21)" 
+                           value={formData.serialNumber}
+                           onChange={(e: any) => setFormData({...formData, serialNumber: e.target.value})}
+                           placeholder="Serialised packs only"
+                           className="font-mono"
+                       />
                    </div>
+                   {serialWarning && (
+                       <div className="mt-4 p-3 rounded-xl text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+                           <AlertTriangle size={16} className="shrink-0" /> {serialWarning}
+                       </div>
+                   )}
                </Card>
 
                {/* Step 4: Quantity & Unit */}
@@ -4,13 +4,29 @@ import { persist } from 'zustand/middleware';
 import { 
   CartItem, Product, User, Role, Transaction, Customer, Branch, 
   DistributionOrder, PurchaseOrder, Expense, Payable, Receivable, Supplier, AppSettings,
-  ScannedItem, SyncLog, SyncStatus, UNIT_TYPES
+  ScannedItem, SyncLog, SyncStatus, UNIT_TYPES, BatchAllocation, Sale,
+  CartDiscount, CartTotals, DiscountType, Promotion, ParkedCart, SaleReturn,
+  Shift, CashMovement, PaymentMethod, Prescription, OverrideAudit,
+  LoyaltyRules, PointsEntryType, PointsLedgerEntry, SerialRecord, SerialStatus,
+  SHORTCUT_ACTIONS, SHORTCUT_SCOPES, PriceList, InteractionRule, AlertSeverity, DrugAlert, DrugAlertAck,
+  QuantityLimit, LimitApproval, DocumentType, IssuedNumber, Quotation, QuotedPriceChange
 } from './types';
 import { 
   mockProducts, mockUsers, mockTransactions, mockCustomers, 
-  mockDistributionOrders, mockPurchaseOrders, mockExpenses, mockPayables, mockReceivables, mockSuppliers 
+  mockDistributionOrders, mockPurchaseOrders, mockExpenses, mockPayables, mockReceivables, mockSuppliers,
+  mockPromotions, defaultSettings, defaultLoyaltyRules, mockPriceLists, defaultInteractionRules, defaultQuantityLimits
 } from './data';
 import { GS1ParsedData } from './utils/gs1Parser';
+import { allocateBatches, getAvailableStock, getBatchAvailability, getFEFOBatch, splitAcrossBatches } from './utils/batchAllocation';
+import { calculateCartTotals, lineDiscount, lineNet } from './utils/pricing';
+import { buildShiftReport } from './utils/shiftReport';
+import { getSellingUnits } from './utils/units';
+import { getListPrice } from './utils/priceLists';
+import { getTierForPoints } from './utils/loyalty';
+import { findShortcutConflicts } from './utils/shortcuts';
+import { formatDocumentNumber, getSequenceKey, withNumberingLock } from './utils/numbering';
+import { isQuotationExpired, repriceCartItems, repriceOrderItems } from './utils/quotations';
+import { repairZawgyi, toUnicode, toUnicodeDeep } from './utils/myanmar';
 
 // --- Shared Helper for Persistence ---
 const getInitialBranchId = () => {
@@ -67,6 +83,12 @@ export const useBranchStore = create<BranchState>((set, get) => ({
     useCustomerStore.getState().syncWithBranch(id);
     useTransactionStore.getState().syncWithBranch(id);
     useCartStore.getState().clearCart(); // Clear cart on branch switch
+    useSalesStore.getState().syncWithBranch(id);
+    useParkedCartStore.getState().syncWithBranch(id);
+    useQuotationStore.getState().syncWithBranch(id);
+    useReturnStore.getState().syncWithBranch(id);
+    useShiftStore.getState().syncWithBranch(id);
+    useOverrideAuditStore.getState().syncWithBranch(id);
     useDistributionStore.getState().syncWithBranch(id);
     usePurchaseStore.getState().syncWithBranch(id);
     useFinanceStore.getState().syncWithBranch(id);
@@ -76,11 +98,11 @@ export const useBranchStore = create<BranchState>((set, get) => ({
   getCurrentBranch: () => get().branches.find(b => b.id === get().currentBranchId),
 
   addBranch: (branch) => set((state) => ({ 
-    branches: [...state.branches, branch] 
+    branches: [...state.branches, toUnicodeDeep(branch)] 
   })),
 
   updateBranch: (id, updates) => set((state) => ({
-    branches: state.branches.map(b => b.id === id ? { ...b, ...updates } : b)
+    branches: state.branches.map(b => b.id === id ? { ...b, ...toUnicodeDeep(updates) } : b)
   })),
 
   deleteBranch: (id) => set((state) => {
@@ -100,6 +122,30 @@ export const useBranchStore = create<BranchState>((set, get) => ({
             allTransactions: s.allTransactions.filter(t => t.branchId !== id),
             transactions: s.transactions.filter(t => t.branchId !== id)
         }));
+        useSalesStore.setState(s => ({
+             allSales: s.allSales.filter(sale => sale.branchId !== id),
+             sales: s.sales.filter(sale => sale.branchId !== id)
+        }));
+        useReturnStore.setState(s => ({
+             allReturns: s.allReturns.filter(r => r.branchId !== id),
+             returns: s.returns.filter(r => r.branchId !== id)
+        }));
+        useShiftStore.setState(s => ({
+             allShifts: s.allShifts.filter(shift => shift.branchId !== id),
+             shifts: s.shifts.filter(shift => shift.branchId !== id)
+        }));
+        useOverrideAuditStore.setState(s => ({
+             allAudits: s.allAudits.filter(a => a.branchId !== id),
+             audits: s.audits.filter(a => a.branchId !== id)
+        }));
+        useParkedCartStore.setState(s => ({
+             allParkedCarts: s.allParkedCarts.filter(c => c.branchId !== id),
+             parkedCarts: s.parkedCarts.filter(c => c.branchId !== id)
+        }));
+        useQuotationStore.setState(s => ({
+             allQuotations: s.allQuotations.filter(q => q.branchId !== id),
+             quotations: s.quotations.filter(q => q.branchId !== id)
+        }));
         useDistributionStore.setState(s => ({
              allOrders: s.allOrders.filter(o => o.branchId !== id),
              orders: s.orders.filter(o => o.branchId !== id)
@@ -144,6 +190,7 @@ interface AuthState {
   login: (email: string) => void;
   logout: () => void;
   updateUser: (updates: Partial<User>) => void;
+  verifyPin: (login: string, pin: string, roles: Role[]) => User | null;
 }
 
 export const useAuthStore = create<AuthState>((set) => ({
@@ -157,6 +204,12 @@ export const useAuthStore = create<AuthState>((set) => ({
   updateUser: (updates) => set((state) => ({
     user: state.user ? { ...state.user, ...updates } : null
   })),
+  // Counter authorization: any staff member with one of the roles, by user id or email
+  verifyPin: (login, pin, roles) => {
+    const staff = mockUsers.find(u => u.id === login || u.email.toLowerCase() === login.toLowerCase());
+    if (!staff || !staff.pin || staff.pin !== pin || !roles.includes(staff.role)) return null;
+    return staff;
+  },
 }));
 
 // --- Cart Store ---
@@ -165,34 +218,98 @@ interface AddItemOptions {
   transactionData?: CartItem['transaction_data'];
   warnings?: string[];
   override?: boolean;
+  unit?: string; // Selling unit code; the product's base unit when unset
 }
 
 interface CartState {
   items: CartItem[];
   customer: any | null;
+  cartDiscount: CartDiscount | null;
+  discountApproval: { approvedBy: string; percent: number } | null; // Manager sign-off for discounts above the threshold
+  prescription: Prescription | null;
+  drugAlertAcks: DrugAlertAck[]; // Interaction / duplicate-therapy alerts a pharmacist has reviewed
+  limitApprovals: LimitApproval[]; // Sign-offs to sell past a quantity limit
+  quotationId: string | null; // Quotation being converted into this sale
   setCustomer: (customer: any) => void;
   addItem: (product: Product, options?: AddItemOptions) => void;
   removeItem: (cartId: string) => void;
   updateQuantity: (cartId: string, qty: number) => void;
+  setLineDiscount: (cartId: string, value: number, type: DiscountType) => void;
+  setCartDiscount: (discount: CartDiscount | null) => void;
+  setLinePrice: (cartId: string, price: number) => void;
+  setLineUnit: (cartId: string, unit: string) => void;
+  setLineBatch: (cartId: string, batchId: string) => void;
+  splitLineAcrossBatches: (cartId: string) => void;
+  approveDiscount: (approvedBy: string, percent: number) => void;
+  setPrescription: (prescription: Prescription | null) => void;
+  verifyPrescription: (pharmacist: User) => void;
+  acknowledgeDrugAlerts: (alerts: DrugAlert[], pharmacist: User) => void;
+  approveLimit: (approval: LimitApproval) => void;
   clearCart: () => void;
+  loadCart: (cart: Pick<ParkedCart, 'items' | 'customer' | 'cartDiscount' | 'discountApproval' | 'prescription' | 'drugAlertAcks' | 'limitApprovals' | 'quotationId'>) => void;
+  totals: () => CartTotals;
   total: () => number;
 }
 
+// Price list of the customer on the cart; retail when none
+const getCustomerPriceList = (customer: Customer | null) =>
+  customer?.priceListId ? usePriceListStore.getState().priceLists.find(l => l.id === customer.priceListId) : undefined;
+
 export const useCartStore = create<CartState>((set, get) => ({
   items: [],
   customer: null,
-  setCustomer: (customer) => set({ customer }),
+  cartDiscount: null,
+  discountApproval: null,
+  prescription: null,
+  drugAlertAcks: [],
+  limitApprovals: [],
+  quotationId: null,
+  // Lines still at their list price follow the new customer's price list; manual prices are kept
+  setCustomer: (customer) => {
+    const priceList = getCustomerPriceList(customer);
+    const products = useProductStore.getState().allProducts;
+    set({
+      customer,
+      items: get().items.map(i => {
+        if (i.originalPrice !== undefined) return i;
+        const product = products.find(p => p.id === i.id) || i;
+        const sellingUnit = getSellingUnits(product).find(u => u.unit === (i.saleUnit || i.unit));
+        if (!sellingUnit) return i;
+        return { ...i, price: getListPrice(product, sellingUnit, priceList), priceListId: priceList?.id };
+      })
+    });
+  },
   addItem: (product, options) => {
-    const { batchId, transactionData, warnings, override } = options || {};
+    const { batchId, transactionData, warnings, override, unit } = options || {};
+    const units = getSellingUnits(product);
+    const sellingUnit = units.find(u => u.unit === unit) || units[0];
+    const priceList = getCustomerPriceList(get().customer);
+
+    // A new prescription-only product must be checked against the script again
+    const prescription = get().prescription;
+    if (product.requiresPrescription && prescription && !prescription.productIds.includes(product.id)) {
+      set({
+        prescription: {
+          ...prescription,
+          productIds: [...prescription.productIds, product.id],
+          verifiedById: undefined,
+          verifiedBy: undefined,
+          verifiedAt: undefined
+        }
+      });
+    }
 
     const existing = get().items.find(i => {
       const productMatch = i.id === product.id;
       const scannedBatchMatch = transactionData?.scanned_batch 
           ? i.transaction_data?.scanned_batch === transactionData.scanned_batch
-          : i.selectedBatchId === batchId;
+          : !i.transaction_data?.scanned_batch && i.selectedBatchId === (batchId || getFEFOBatch(product)?.id);
       const overrideMatch = i.manager_override === override;
+      const priceMatch = i.originalPrice === undefined; // Re-priced lines keep their own quantity
+      const unitMatch = (i.saleUnit || i.unit) === sellingUnit.unit;
+      const serialMatch = !transactionData?.scanned_serial && !i.transaction_data?.scanned_serial; // One line per serialised unit
 
-      return productMatch && scannedBatchMatch && overrideMatch;
+      return productMatch && scannedBatchMatch && overrideMatch && priceMatch && unitMatch && serialMatch;
     });
 
     if (existing) {
@@ -201,14 +318,19 @@ export const useCartStore = create<CartState>((set, get) => ({
           i.cartId === existing.cartId ? { ...i, quantity: i.quantity + 1 } : i
         )
       });
+      get().splitLineAcrossBatches(existing.cartId);
     } else {
       set({ 
         items: [...get().items, { 
           ...product, 
           cartId: Math.random().toString(), 
+          price: getListPrice(product, sellingUnit, priceList),
+          priceListId: priceList?.id,
+          saleUnit: sellingUnit.unit,
+          unitFactor: sellingUnit.factor,
           quantity: 1, 
           discount: 0,
-          selectedBatchId: batchId || product.batches[0]?.id,
+          selectedBatchId: batchId || getFEFOBatch(product)?.id,
           transaction_data: transactionData,
           warning_flags: warnings,
           manager_override: override
@@ -217,13 +339,219 @@ export const useCartStore = create<CartState>((set, get) => ({
     }
   },
   removeItem: (cartId) => set({ items: get().items.filter(i => i.cartId !== cartId) }),
-  updateQuantity: (cartId, qty) => set({
-    items: get().items.map(i => i.cartId === cartId ? { ...i, quantity: Math.max(1, qty) } : i)
+  // A raised quantity may no longer fit the line's batch; the rest moves to the next batches
+  updateQuantity: (cartId, qty) => {
+    set({
+      items: get().items.map(i => i.cartId === cartId ? { ...i, quantity: i.transaction_data?.scanned_serial ? 1 : Math.max(1, qty) } : i)
+    });
+    get().splitLineAcrossBatches(cartId);
+  },
+  setLineDiscount: (cartId, value, type) => set({
+    items: get().items.map(i => i.cartId === cartId ? { ...i, discount: Math.max(0, value), discountType: type } : i)
+  }),
+  setCartDiscount: (discount) => set({ cartDiscount: discount && discount.value > 0 ? discount : null }),
+  setLinePrice: (cartId, price) => set({
+    items: get().items.map(i => {
+      if (i.cartId !== cartId) return i;
+      const originalPrice = i.originalPrice ?? i.price;
+      const newPrice = Math.max(0, price);
+      return { ...i, price: newPrice, originalPrice: newPrice === originalPrice ? undefined : originalPrice };
+    })
+  }),
+  // Switching unit re-prices the line at that unit's list price
+  setLineUnit: (cartId, unit) => set({
+    items: get().items.map(i => {
+      if (i.cartId !== cartId) return i;
+      const product = useProductStore.getState().allProducts.find(p => p.id === i.id) || i;
+      const sellingUnit = getSellingUnits(product).find(u => u.unit === unit);
+      if (!sellingUnit) return i;
+      const priceList = getCustomerPriceList(get().customer);
+      return { ...i, saleUnit: sellingUnit.unit, unitFactor: sellingUnit.factor, price: getListPrice(product, sellingUnit, priceList), priceListId: priceList?.id, originalPrice: undefined };
+    })
+  }),
+  // Picking a batch that cannot cover the line spreads it over further batches
+  setLineBatch: (cartId, batchId) => {
+    set({ items: get().items.map(i => i.cartId === cartId ? { ...i, selectedBatchId: batchId } : i) });
+    get().splitLineAcrossBatches(cartId);
+  },
+  // One line per batch, the picked batch first and then FEFO. A Ks line discount is shared across the
+  // parts by quantity; if per-part rounding would change what the line charges, the line is left whole
+  splitLineAcrossBatches: (cartId) => {
+    const items = get().items;
+    const line = items.find(i => i.cartId === cartId);
+    const product = line && useProductStore.getState().allProducts.find(p => p.id === line.id);
+    if (!line || !product || product.batches.length === 0 || line.transaction_data?.scanned_batch) return;
+
+    const available = getBatchAvailability(product, items, cartId);
+    const parts = splitAcrossBatches(product, line.quantity, line.unitFactor || 1, line.selectedBatchId, available);
+    if (parts.length === 1 && parts[0].batchId === line.selectedBatchId) return; // Already covered by its batch
+    let discountLeft = lineDiscount(line);
+    let quantityLeft = line.quantity;
+    const lines = parts.map((part, idx) => {
+      let discount = line.discount;
+      if (line.discountType !== 'PERCENT' && parts.length > 1) {
+        discount = Math.round((discountLeft * part.quantity) / quantityLeft);
+        discountLeft -= discount;
+        quantityLeft -= part.quantity;
+      }
+      return { ...line, cartId: idx === 0 ? line.cartId : Math.random().toString(), quantity: part.quantity, selectedBatchId: part.batchId, discount };
+    });
+    if (lines.reduce((sum, l) => sum + lineNet(l), 0) !== lineNet(line)) return;
+
+    set({ items: items.flatMap(i => i.cartId === cartId ? lines : [i]) });
+  },
+  approveDiscount: (approvedBy, percent) => set({ discountApproval: { approvedBy, percent } }),
+  setPrescription: (prescription) => set({ prescription }),
+  verifyPrescription: (pharmacist) => set(state => ({
+    prescription: state.prescription ? {
+      ...state.prescription,
+      verifiedById: pharmacist.id,
+      verifiedBy: pharmacist.name,
+      verifiedAt: new Date().toISOString()
+    } : null
+  })),
+  acknowledgeDrugAlerts: (alerts, pharmacist) => set(state => ({
+    drugAlertAcks: [
+      ...state.drugAlertAcks.filter(a => !alerts.some(alert => alert.key === a.key)),
+      ...alerts.map(alert => ({
+        ...alert,
+        acknowledgedById: pharmacist.id,
+        acknowledgedBy: pharmacist.name,
+        acknowledgedAt: new Date().toISOString()
+      }))
+    ]
+  })),
+  approveLimit: (approval) => set(state => ({
+    limitApprovals: [...state.limitApprovals.filter(a => a.limitId !== approval.limitId || a.kind !== approval.kind), approval]
+  })),
+  clearCart: () => set({ items: [], customer: null, cartDiscount: null, discountApproval: null, prescription: null, drugAlertAcks: [], limitApprovals: [], quotationId: null }),
+  loadCart: ({ items, customer, cartDiscount, discountApproval, prescription, drugAlertAcks, limitApprovals, quotationId }) => set({
+    items, customer, cartDiscount, discountApproval,
+    prescription: prescription || null,
+    drugAlertAcks: drugAlertAcks || [],
+    limitApprovals: limitApprovals || [],
+    quotationId: quotationId || null
   }),
-  clearCart: () => set({ items: [], customer: null }),
-  total: () => get().items.reduce((sum, item) => sum + (item.price * item.quantity), 0),
+  totals: () => calculateCartTotals(get().items, get().cartDiscount, usePromotionStore.getState().promotions, get().customer, useSettingsStore.getState().settings),
+  total: () => get().totals().total,
 }));
 
+// --- Price List Store (Persisted) ---
+interface PriceListState {
+  priceLists: PriceList[];
+  addPriceList: (priceList: PriceList) => void;
+  updatePriceList: (id: string, updates: Partial<PriceList>) => void;
+  deletePriceList: (id: string) => void;
+}
+
+export const usePriceListStore = create<PriceListState>()(
+    persist(
+        (set) => ({
+            priceLists: mockPriceLists,
+
+            addPriceList: (priceList) => set(state => ({ priceLists: [...state.priceLists, toUnicodeDeep(priceList)] })),
+            updatePriceList: (id, updates) => set(state => ({
+                priceLists: state.priceLists.map(l => l.id === id ? { ...l, ...toUnicodeDeep(updates) } : l)
+            })),
+            deletePriceList: (id) => {
+                set(state => ({ priceLists: state.priceLists.filter(l => l.id !== id) }));
+                // Customers on the deleted list go back to retail
+                const unassign = (c: Customer) => c.priceListId === id ? { ...c, priceListId: undefined } : c;
+                useCustomerStore.setState(state => ({
+                    allCustomers: state.allCustomers.map(unassign),
+                    customers: state.customers.map(unassign)
+                }));
+            }
+        }),
+        {
+            name: 'price-list-store-v1',
+        }
+    )
+);
+
+// --- Drug Interaction Store (Persisted) ---
+interface InteractionState {
+  rules: InteractionRule[];
+  duplicateSeverity: AlertSeverity; // Severity of two products sharing an ingredient
+  addRule: (rule: InteractionRule) => void;
+  updateRule: (id: string, updates: Partial<InteractionRule>) => void;
+  deleteRule: (id: string) => void;
+  setDuplicateSeverity: (severity: AlertSeverity) => void;
+}
+
+export const useInteractionStore = create<InteractionState>()(
+    persist(
+        (set) => ({
+            rules: defaultInteractionRules,
+            duplicateSeverity: 'MODERATE',
+
+            addRule: (rule) => set(state => ({ rules: [...state.rules, toUnicodeDeep(rule)] })),
+            updateRule: (id, updates) => set(state => ({
+                rules: state.rules.map(r => r.id === id ? { ...r, ...toUnicodeDeep(updates) } : r)
+            })),
+            deleteRule: (id) => set(state => ({ rules: state.rules.filter(r => r.id !== id) })),
+            setDuplicateSeverity: (severity) => set({ duplicateSeverity: severity })
+        }),
+        {
+            name: 'interaction-store-v1',
+        }
+    )
+);
+
+// --- Quantity Limit Store (Persisted) ---
+interface QuantityLimitState {
+  limits: QuantityLimit[];
+  addLimit: (limit: QuantityLimit) => void;
+  updateLimit: (id: string, updates: Partial<QuantityLimit>) => void;
+  deleteLimit: (id: string) => void;
+}
+
+export const useQuantityLimitStore = create<QuantityLimitState>()(
+    persist(
+        (set) => ({
+            limits: defaultQuantityLimits,
+
+            addLimit: (limit) => set(state => ({ limits: [...state.limits, limit] })),
+            updateLimit: (id, updates) => set(state => ({
+                limits: state.limits.map(l => l.id === id ? { ...l, ...updates } : l)
+            })),
+            deleteLimit: (id) => set(state => ({ limits: state.limits.filter(l => l.id !== id) }))
+        }),
+        {
+            name: 'quantity-limit-store-v1',
+        }
+    )
+);
+
+// --- Promotions Store (Persisted) ---
+interface PromotionState {
+  promotions: Promotion[];
+  approvalThresholdPercent: number; // Manual discounts above this % of the subtotal need a manager
+  addPromotion: (promotion: Promotion) => void;
+  updatePromotion: (id: string, updates: Partial<Promotion>) => void;
+  deletePromotion: (id: string) => void;
+  setApprovalThreshold: (percent: number) => void;
+}
+
+export const usePromotionStore = create<PromotionState>()(
+    persist(
+        (set) => ({
+            promotions: mockPromotions,
+            approvalThresholdPercent: 10,
+
+            addPromotion: (promotion) => set(state => ({ promotions: [...state.promotions, toUnicodeDeep(promotion)] })),
+            updatePromotion: (id, updates) => set(state => ({
+                promotions: state.promotions.map(p => p.id === id ? { ...p, ...toUnicodeDeep(updates) } : p)
+            })),
+            deletePromotion: (id) => set(state => ({ promotions: state.promotions.filter(p => p.id !== id) })),
+            setApprovalThreshold: (percent) => set({ approvalThresholdPercent: Math.max(0, percent) })
+        }),
+        {
+            name: 'promotion-store-v1',
+        }
+    )
+);
+
 // --- Global UI Store ---
 interface GlobalState {
   isSidebarOpen: boolean;
@@ -236,6 +564,18 @@ export const useGlobalStore = create<GlobalState>((set) => ({
 }));
 
 // --- Inventory / Product Management Store ---
+export interface StockDeductionRequest {
+  productId: string;
+  quantity: number;
+  preferredBatchId?: string; // Scanned or cashier-selected batch, consumed before FEFO order
+}
+
+export interface StockDeductionResult {
+  success: boolean;
+  allocations: BatchAllocation[][]; // One entry per request, in request order
+  error?: string;
+}
+
 interface ProductState {
   allProducts: Product[]; // Master DB
   products: Product[];    // Filtered View
@@ -246,6 +586,8 @@ interface ProductState {
   deleteProduct: (id: string) => void;
   incrementStock: (id: string, batchNumber: string | null, quantity: number, unit?: string, location?: string, expiryDate?: string, costPrice?: number) => void;
   removeBatchStock: (productId: string, batchNumber: string, quantity: number, reason?: string) => void;
+  deductStock: (requests: StockDeductionRequest[]) => StockDeductionResult;
+  restockReturn: (productId: string, quantity: number, allocations: BatchAllocation[], quarantine: boolean) => void;
 }
 
 export const useProductStore = create<ProductState>((set, get) => ({
@@ -262,7 +604,7 @@ export const useProductStore = create<ProductState>((set, get) => ({
   
   addProduct: (product) => {
     const currentBranchId = useBranchStore.getState().currentBranchId;
-    const newProduct = { ...product, branchId: currentBranchId };
+    const newProduct = { ...toUnicodeDeep(product), branchId: currentBranchId };
     set((state) => ({ 
       allProducts: [newProduct, ...state.allProducts],
       products: [newProduct, ...state.products] 
@@ -270,7 +612,7 @@ export const useProductStore = create<ProductState>((set, get) => ({
   },
   
   updateProduct: (id, updates) => set((state) => {
-    const updatedAll = state.allProducts.map((p) => (p.id === id ? { ...p, ...updates } : p));
+    const updatedAll = state.allProducts.map((p) => (p.id === id ? { ...p, ...toUnicodeDeep(updates) } : p));
     const currentBranchId = useBranchStore.getState().currentBranchId;
     return {
       allProducts: updatedAll,
@@ -293,6 +635,9 @@ export const useProductStore = create<ProductState>((set, get) => ({
     
     const updatedAll = state.allProducts.map(p => {
         if (p.id === id) {
+            // Receiving in a pack unit is converted to the base unit stock is counted in
+            const pack = p.packUnits?.find(u => u.unit === unit?.toUpperCase());
+            const baseQuantity = pack ? quantity * pack.factor : quantity;
             let updatedBatches = [...p.batches];
             // If batch provided, try to find and update it
             if (batchNumber) {
@@ -300,14 +645,14 @@ export const useProductStore = create<ProductState>((set, get) => ({
                 if (batchIndex >= 0) {
                     updatedBatches[batchIndex] = {
                         ...updatedBatches[batchIndex],
-                        quantity: updatedBatches[batchIndex].quantity + quantity
+                        quantity: updatedBatches[batchIndex].quantity + baseQuantity
                     };
                 } else {
                     // Create new batch with passed expiry and cost
                     updatedBatches.push({
                         id: `batch-${Date.now()}`,
                         batchNumber: batchNumber,
-                        quantity: quantity,
+                        quantity: baseQuantity,
                         expiryDate: expiryDate || new Date(Date.now() + 31536000000).toISOString().split('T')[0], // Default 1 year if not provided
                         costPrice: costPrice || 0
                     });
@@ -315,16 +660,16 @@ export const useProductStore = create<ProductState>((set, get) => ({
             } else {
                // No batch info, just update main stock (or default batch)
                if (updatedBatches.length > 0) {
-                   updatedBatches[0].quantity += quantity;
+                   updatedBatches[0].quantity += baseQuantity;
                }
             }
             
             return {
                 ...p,
-                stockLevel: p.stockLevel + quantity,
+                stockLevel: p.stockLevel + baseQuantity,
                 batches: updatedBatches,
                 location: location || p.location, // Update location if provided
-                unit: unit || p.unit // Update unit if provided
+                unit: pack || p.packUnits?.length ? p.unit : (unit || p.unit) // Base unit is fixed once packs are defined
             };
         }
         return p;
@@ -367,6 +712,93 @@ export const useProductStore = create<ProductState>((set, get) => ({
         return p;
     });
 
+    return {
+        allProducts: updatedAll,
+        products: updatedAll.filter(p => p.branchId === currentBranchId)
+    };
+  }),
+
+  // Used by POS Checkout: all-or-nothing FEFO deduction across batches
+  deductStock: (requests) => {
+    const working = new Map<string, Product>();
+    const allocations: BatchAllocation[][] = [];
+
+    for (const request of requests) {
+        const product = working.get(request.productId) || get().allProducts.find(p => p.id === request.productId);
+        if (!product) {
+            return { success: false, allocations: [], error: `Product ${request.productId} not found` };
+        }
+
+        // Quick-added products have no batches, only a stock counter
+        if (product.batches.length === 0) {
+            if (product.stockLevel < request.quantity) {
+                return { success: false, allocations: [], error: `Insufficient stock for ${product.nameEn}: ${product.stockLevel} available, ${request.quantity} requested` };
+            }
+            working.set(product.id, { ...product, stockLevel: product.stockLevel - request.quantity });
+            allocations.push([]);
+            continue;
+        }
+
+        const { allocations: lineAllocations, shortfall } = allocateBatches(product, request.quantity, request.preferredBatchId);
+        if (shortfall > 0) {
+            return { success: false, allocations: [], error: `Insufficient stock for ${product.nameEn}: ${getAvailableStock(product)} available, ${request.quantity} requested` };
+        }
+
+        working.set(product.id, {
+            ...product,
+            stockLevel: Math.max(0, product.stockLevel - request.quantity),
+            batches: product.batches.map(b => {
+                const taken = lineAllocations.find(a => a.batchId === b.id);
+                return taken ? { ...b, quantity: b.quantity - taken.quantity } : b;
+            })
+        });
+        allocations.push(lineAllocations);
+    }
+
+    const currentBranchId = useBranchStore.getState().currentBranchId;
+    const updatedAll = get().allProducts.map(p => working.get(p.id) || p);
+    set({
+        allProducts: updatedAll,
+        products: updatedAll.filter(p => p.branchId === currentBranchId)
+    });
+
+    return { success: true, allocations };
+  },
+
+  // Used by Returns: units go back to the batch they were sold from, or into its quarantine if opened
+  restockReturn: (productId, quantity, allocations, quarantine) => set((state) => {
+    const currentBranchId = useBranchStore.getState().currentBranchId;
+
+    const updatedAll = state.allProducts.map(p => {
+        if (p.id !== productId) return p;
+
+        let batches = [...p.batches];
+        allocations.forEach(a => {
+            const idx = batches.findIndex(b => b.id === a.batchId);
+            if (idx < 0) {
+                // Batch was written off since the sale, bring it back with the sold details
+                batches.push({
+                    id: a.batchId,
+                    batchNumber: a.batchNumber,
+                    expiryDate: a.expiryDate,
+                    quantity: quarantine ? 0 : a.quantity,
+                    costPrice: 0,
+                    quarantineQuantity: quarantine ? a.quantity : 0
+                });
+                return;
+            }
+            batches[idx] = quarantine
+                ? { ...batches[idx], quarantineQuantity: (batches[idx].quarantineQuantity || 0) + a.quantity }
+                : { ...batches[idx], quantity: batches[idx].quantity + a.quantity };
+        });
+
+        return {
+            ...p,
+            stockLevel: quarantine ? p.stockLevel : p.stockLevel + quantity,
+            batches
+        };
+    });
+
     return {
         allProducts: updatedAll,
         products: updatedAll.filter(p => p.branchId === currentBranchId)
@@ -374,6 +806,867 @@ export const useProductStore = create<ProductState>((set, get) => ({
   })
 }));
 
+// --- Sales Journal Store (Persisted) ---
+interface SalesState {
+  allSales: Sale[]; // Master DB
+  sales: Sale[];    // Filtered View
+  syncWithBranch: (branchId: string) => void;
+  addSale: (sale: Sale) => void;
+  getSaleByInvoice: (invoiceNumber: string) => Sale | undefined;
+}
+
+export const useSalesStore = create<SalesState>()(
+    persist(
+        (set, get) => ({
+            allSales: [],
+            sales: [],
+
+            syncWithBranch: (branchId) => {
+                set(state => ({
+                    sales: state.allSales.filter(s => s.branchId === branchId)
+                }));
+            },
+
+            addSale: (sale) => set(state => ({
+                allSales: [sale, ...state.allSales],
+                sales: sale.branchId === useBranchStore.getState().currentBranchId ? [sale, ...state.sales] : state.sales
+            })),
+
+            getSaleByInvoice: (invoiceNumber) => get().allSales.find(s => s.invoiceNumber === invoiceNumber)
+        }),
+        {
+            name: 'sales-store-v1',
+            partialize: (state) => ({ allSales: state.allSales }),
+            // Rebuild the branch view from the persisted master list
+            merge: (persisted, current) => {
+                const allSales = (persisted as Partial<SalesState>)?.allSales || [];
+                return {
+                    ...current,
+                    allSales,
+                    sales: allSales.filter(s => s.branchId === initialBranchId)
+                };
+            }
+        }
+    )
+);
+
+// --- Sales Returns Store (Persisted) ---
+interface ReturnState {
+  allReturns: SaleReturn[]; // Master DB
+  returns: SaleReturn[];    // Filtered View
+  syncWithBranch: (branchId: string) => void;
+  addReturn: (saleReturn: SaleReturn) => void;
+  getReturnsForSale: (saleId: string) => SaleReturn[];
+}
+
+export const useReturnStore = create<ReturnState>()(
+    persist(
+        (set, get) => ({
+            allReturns: [],
+            returns: [],
+
+            syncWithBranch: (branchId) => {
+                set(state => ({
+                    returns: state.allReturns.filter(r => r.branchId === branchId)
+                }));
+            },
+
+            addReturn: (saleReturn) => set(state => ({
+                allReturns: [saleReturn, ...state.allReturns],
+                returns: saleReturn.branchId === useBranchStore.getState().currentBranchId ? [saleReturn, ...state.returns] : state.returns
+            })),
+
+            getReturnsForSale: (saleId) => get().allReturns.filter(r => r.saleId === saleId)
+        }),
+        {
+            name: 'return-store-v1',
+            partialize: (state) => ({ allReturns: state.allReturns }),
+            merge: (persisted, current) => {
+                const allReturns = (persisted as Partial<ReturnState>)?.allReturns || [];
+                return {
+                    ...current,
+                    allReturns,
+                    returns: allReturns.filter(r => r.branchId === initialBranchId)
+                };
+            }
+        }
+    )
+);
+
+// --- Document Numbering Store (Persisted) ---
+interface NumberingState {
+  sequences: Record<string, number>; // Last number issued per sequence key
+  register: IssuedNumber[];          // Every number ever issued, voided ones included, newest first
+  reserveNumber: (branchId: string, docType: DocumentType, meta: { by: string; reference?: string }) => Promise<string>;
+  voidNumber: (number: string, meta: { reason: string; by: string }) => Promise<{ success: boolean; error?: string }>;
+}
+
+export const useNumberingStore = create<NumberingState>()(
+    persist(
+        (set, get) => ({
+            sequences: {},
+            register: [],
+
+            // Counters are re-read under the lock, so a number another tab just took is never handed out again
+            reserveNumber: (branchId, docType, { by, reference }) => withNumberingLock(async () => {
+                await useNumberingStore.persist.rehydrate();
+                const branch = useBranchStore.getState().branches.find(b => b.id === branchId);
+                const now = new Date();
+                const year = now.getFullYear();
+                const key = getSequenceKey(branchId, docType, useSettingsStore.getState().settings.resetNumbersYearly ? year : null);
+                const sequence = (get().sequences[key] || 0) + 1;
+                const number = formatDocumentNumber(branch?.code || branchId, docType, year, sequence);
+
+                set(state => ({
+                    sequences: { ...state.sequences, [key]: sequence },
+                    register: [{ number, branchId, docType, issuedAt: now.toISOString(), issuedBy: by, reference, status: 'ISSUED' }, ...state.register]
+                }));
+                return number;
+            }),
+
+            // Numbers are never reused or removed; a voided one stays in the register with its reason
+            voidNumber: (number, { reason, by }) => withNumberingLock(async () => {
+                await useNumberingStore.persist.rehydrate();
+                const entry = get().register.find(r => r.number === number);
+                if (!entry) return { success: false, error: `${number} was never issued.` };
+                if (entry.status === 'VOID') return { success: false, error: `${number} is already void.` };
+                if (!reason.trim()) return { success: false, error: 'A reason is required to void a number.' };
+
+                set(state => ({
+                    register: state.register.map(r => r.number === number
+                        ? { ...r, status: 'VOID', voidReason: reason.trim(), voidedBy: by, voidedAt: new Date().toISOString() }
+                        : r)
+                }));
+                return { success: true };
+            })
+        }),
+        {
+            name: 'numbering-store-v1',
+        }
+    )
+);
+
+// Keep the register on screen current when another tab issues or voids a number
+if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (e) => {
+        if (e.key === 'numbering-store-v1') useNumberingStore.persist.rehydrate();
+    });
+}
+
+// --- Serial Registry Store (Persisted) ---
+// Shared by every branch: a pack sold in one shop must not be sold again in another
+interface SerialResult {
+  success: boolean;
+  error?: string;
+}
+
+interface SerialUnit {
+  gtin: string;
+  serialNumber: string;
+  productId?: string;
+  batchNumber?: string | null;
+}
+
+interface SerialState {
+  serials: SerialRecord[];
+  getSerial: (gtin: string, serialNumber: string) => SerialRecord | undefined;
+  checkSerial: (gtin: string, serialNumber: string, status: SerialStatus) => SerialResult;
+  recordSerial: (unit: SerialUnit, status: SerialStatus, meta: { by: string; reference?: string }) => SerialResult;
+  decommissionBatch: (productId: string, batchNumber: string, meta: { by: string; reference?: string }) => number;
+}
+
+export const serialKey = (gtin: string, serialNumber: string) => `${gtin}|${serialNumber}`;
+
+// Status a unit may hold before moving to each status; null is a serial not seen before
+const SERIAL_TRANSITIONS: Record<SerialStatus, (SerialStatus | null)[]> = {
+  RECEIVED: [null],
+  SOLD: [null, 'RECEIVED', 'RETURNED'],
+  RETURNED: ['SOLD'],
+  DECOMMISSIONED: [null, 'RECEIVED', 'RETURNED', 'SOLD']
+};
+
+const SERIAL_STATUS_TEXT: Record<SerialStatus, string> = {
+  RECEIVED: 'already received',
+  SOLD: 'already sold',
+  RETURNED: 'returned',
+  DECOMMISSIONED: 'decommissioned'
+};
+
+export const useSerialStore = create<SerialState>()(
+    persist(
+        (set, get) => ({
+            serials: [],
+
+            getSerial: (gtin, serialNumber) => get().serials.find(s => s.key === serialKey(gtin, serialNumber)),
+
+            checkSerial: (gtin, serialNumber, status) => {
+                const record = get().getSerial(gtin, serialNumber);
+                if (SERIAL_TRANSITIONS[status].includes(record?.status || null)) return { success: true };
+                const last = record!.history[record!.history.length - 1];
+                return {
+                    success: false,
+                    error: `Serial ${serialNumber} is ${SERIAL_STATUS_TEXT[record!.status]}${last?.reference ? ` (${last.reference})` : ''}.`
+                };
+            },
+
+            recordSerial: (unit, status, meta) => {
+                const check = get().checkSerial(unit.gtin, unit.serialNumber, status);
+                if (!check.success) return check;
+
+                const branchId = useBranchStore.getState().currentBranchId;
+                const key = serialKey(unit.gtin, unit.serialNumber);
+                const event = { status, date: new Date().toISOString(), by: meta.by, reference: meta.reference, branchId };
+                const existing = get().getSerial(unit.gtin, unit.serialNumber);
+
+                const record: SerialRecord = existing
+                    ? { ...existing, status, branchId, batchNumber: existing.batchNumber ?? unit.batchNumber, history: [...existing.history, event] }
+                    : { key, gtin: unit.gtin, serialNumber: unit.serialNumber, productId: unit.productId, batchNumber: unit.batchNumber, status, branchId, history: [event] };
+
+                set(state => ({
+                    serials: existing ? state.serials.map(s => s.key === key ? record : s) : [record, ...state.serials]
+                }));
+                return { success: true };
+            },
+
+            // Units of a written-off batch that are still on the shelf leave the supply chain for good
+            decommissionBatch: (productId, batchNumber, meta) => {
+                const branchId = useBranchStore.getState().currentBranchId;
+                const event = { status: 'DECOMMISSIONED' as SerialStatus, date: new Date().toISOString(), by: meta.by, reference: meta.reference, branchId };
+                const onShelf = (s: SerialRecord) =>
+                    s.productId === productId && s.batchNumber === batchNumber && s.branchId === branchId &&
+                    (s.status === 'RECEIVED' || s.status === 'RETURNED');
+
+                const count = get().serials.filter(onShelf).length;
+                if (count > 0) {
+                    set(state => ({
+                        serials: state.serials.map(s => onShelf(s) ? { ...s, status: 'DECOMMISSIONED', history: [...s.history, event] } : s)
+                    }));
+                }
+                return count;
+            }
+        }),
+        {
+            name: 'serial-store-v1',
+            partialize: (state) => ({ serials: state.serials })
+        }
+    )
+);
+
+// --- Loyalty Rules Store (Persisted) ---
+interface LoyaltyState {
+  rules: LoyaltyRules;
+  updateRules: (updates: Partial<LoyaltyRules>) => void;
+}
+
+export const useLoyaltyStore = create<LoyaltyState>()(
+    persist(
+        (set) => ({
+            rules: defaultLoyaltyRules,
+            updateRules: (updates) => {
+                set(state => ({ rules: { ...state.rules, ...updates } }));
+                // New thresholds apply to every customer straight away
+                if (updates.tiers) useCustomerStore.getState().recalculateTiers();
+            }
+        }),
+        {
+            name: 'loyalty-store-v1',
+        }
+    )
+);
+
+// --- Customer Store (Persisted) ---
+interface PointsPosting {
+  reference?: string;
+  saleId?: string;
+  note?: string;
+  by: string;
+}
+
+interface PointsResult {
+  success: boolean;
+  error?: string;
+  entry?: PointsLedgerEntry;
+}
+
+interface CustomerState {
+  allCustomers: Customer[]; // Master DB
+  customers: Customer[];    // Filtered View
+  ledger: PointsLedgerEntry[]; // Every earn and burn, newest first
+  syncWithBranch: (branchId: string) => void;
+  addCustomer: (customer: Customer) => void;
+  updateCustomer: (id: string, updates: Partial<Customer>) => void;
+  deleteCustomer: (id: string) => void;
+  postPoints: (customerId: string, points: number, type: PointsEntryType, posting: PointsPosting) => PointsResult;
+  recalculateTiers: () => void;
+  getLedger: (customerId: string) => PointsLedgerEntry[];
+}
+
+export const useCustomerStore = create<CustomerState>()(
+    persist(
+        (set, get) => {
+            const commit = (allCustomers: Customer[], ledger = get().ledger) => set({
+                allCustomers,
+                customers: allCustomers.filter(c => c.branchId === useBranchStore.getState().currentBranchId),
+                ledger
+            });
+
+            return {
+                allCustomers: mockCustomers,
+                customers: mockCustomers.filter(c => c.branchId === initialBranchId),
+                ledger: [],
+
+                syncWithBranch: (branchId) => {
+                    set(state => ({
+                        customers: state.allCustomers.filter(c => c.branchId === branchId)
+                    }));
+                },
+
+                addCustomer: (customer) => {
+                    const branchId = customer.branchId || useBranchStore.getState().currentBranchId;
+                    const tier = getTierForPoints(customer.points, useLoyaltyStore.getState().rules);
+                    commit([{ ...toUnicodeDeep(customer), branchId, tier }, ...get().allCustomers]);
+                },
+
+                // Points and tier only change through postPoints so the ledger stays complete
+                updateCustomer: (id, updates) => {
+                    const { points, tier, ...details } = updates;
+                    commit(get().allCustomers.map(c => c.id === id ? { ...c, ...toUnicodeDeep(details) } : c));
+                },
+
+                deleteCustomer: (id) => commit(get().allCustomers.filter(c => c.id !== id)),
+
+                postPoints: (customerId, points, type, posting) => {
+                    const customer = get().allCustomers.find(c => c.id === customerId);
+                    if (!customer) return { success: false, error: 'Customer not found' };
+                    if (!Number.isInteger(points) || points === 0) return { success: false, error: 'Points must be a whole, non-zero number' };
+
+                    const balanceAfter = customer.points + points;
+                    if (balanceAfter < 0) {
+                        return { success: false, error: `${customer.name} has only ${customer.points.toLocaleString()} points` };
+                    }
+
+                    const tierAfter = getTierForPoints(balanceAfter, useLoyaltyStore.getState().rules);
+                    const entry: PointsLedgerEntry = {
+                        id: `PTS-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+                        customerId,
+                        type,
+                        points,
+                        balanceAfter,
+                        tierAfter,
+                        reference: posting.reference,
+                        saleId: posting.saleId,
+                        note: posting.note,
+                        by: posting.by,
+                        date: new Date().toISOString(),
+                        branchId: useBranchStore.getState().currentBranchId
+                    };
+
+                    commit(
+                        get().allCustomers.map(c => c.id === customerId ? { ...c, points: balanceAfter, tier: tierAfter } : c),
+                        [entry, ...get().ledger]
+                    );
+                    return { success: true, entry };
+                },
+
+                recalculateTiers: () => {
+                    const rules = useLoyaltyStore.getState().rules;
+                    commit(get().allCustomers.map(c => ({ ...c, tier: getTierForPoints(c.points, rules) })));
+                },
+
+                getLedger: (customerId) => get().ledger.filter(e => e.customerId === customerId)
+            };
+        },
+        {
+            name: 'customer-store-v1',
+            partialize: (state) => ({ allCustomers: state.allCustomers, ledger: state.ledger }),
+            merge: (persisted, current) => {
+                const saved = persisted as Partial<CustomerState> | undefined;
+                const allCustomers = saved?.allCustomers || current.allCustomers;
+                return {
+                    ...current,
+                    allCustomers,
+                    customers: allCustomers.filter(c => c.branchId === initialBranchId),
+                    ledger: saved?.ledger || []
+                };
+            }
+        }
+    )
+);
+
+// --- Override Audit Store (Persisted) ---
+interface OverrideAuditState {
+  allAudits: OverrideAudit[]; // Master DB
+  audits: OverrideAudit[];    // Filtered View
+  syncWithBranch: (branchId: string) => void;
+  logOverride: (audit: OverrideAudit) => void;
+}
+
+export const useOverrideAuditStore = create<OverrideAuditState>()(
+    persist(
+        (set) => ({
+            allAudits: [],
+            audits: [],
+
+            syncWithBranch: (branchId) => {
+                set(state => ({
+                    audits: state.allAudits.filter(a => a.branchId === branchId)
+                }));
+            },
+
+            // Append-only: overrides are never edited or removed once written
+            logOverride: (audit) => set(state => ({
+                allAudits: [audit, ...state.allAudits],
+                audits: audit.branchId === useBranchStore.getState().currentBranchId ? [audit, ...state.audits] : state.audits
+            }))
+        }),
+        {
+            name: 'override-audit-store-v1',
+            partialize: (state) => ({ allAudits: state.allAudits }),
+            merge: (persisted, current) => {
+                const allAudits = (persisted as Partial<OverrideAuditState>)?.allAudits || [];
+                return {
+                    ...current,
+                    allAudits,
+                    audits: allAudits.filter(a => a.branchId === initialBranchId)
+                };
+            }
+        }
+    )
+);
+
+// --- Cashier Shift Store (Persisted) ---
+interface ShiftResult {
+  success: boolean;
+  error?: string;
+}
+
+interface ShiftState {
+  allShifts: Shift[]; // Master DB
+  shifts: Shift[];    // Filtered View
+  syncWithBranch: (branchId: string) => void;
+  getOpenShift: (cashierId: string) => Shift | undefined;
+  openShift: (cashierId: string, cashierName: string, openingFloat: number) => ShiftResult;
+  addCashMovement: (shiftId: string, movement: Omit<CashMovement, 'id' | 'date'>) => ShiftResult;
+  attachSale: (shiftId: string, saleId: string) => ShiftResult;
+  attachReturn: (shiftId: string, returnId: string) => ShiftResult;
+  closeShift: (shiftId: string, counted: Partial<Record<PaymentMethod, number>>) => ShiftResult;
+}
+
+export const useShiftStore = create<ShiftState>()(
+    persist(
+        (set, get) => {
+            // Every change goes through here so a closed shift can never be edited
+            const updateOpenShift = (shiftId: string, update: (shift: Shift) => Shift): ShiftResult => {
+                const shift = get().allShifts.find(s => s.id === shiftId);
+                if (!shift) return { success: false, error: 'Shift not found' };
+                if (shift.status === 'CLOSED') return { success: false, error: 'Shift is closed and locked' };
+
+                const updated = update(shift);
+                set(state => ({
+                    allShifts: state.allShifts.map(s => s.id === shiftId ? updated : s),
+                    shifts: state.shifts.map(s => s.id === shiftId ? updated : s)
+                }));
+                return { success: true };
+            };
+
+            return {
+                allShifts: [],
+                shifts: [],
+
+                syncWithBranch: (branchId) => {
+                    set(state => ({
+                        shifts: state.allShifts.filter(s => s.branchId === branchId)
+                    }));
+                },
+
+                // One till per cashier per branch
+                getOpenShift: (cashierId) => get().shifts.find(s => s.cashierId === cashierId && s.status === 'OPEN'),
+
+                openShift: (cashierId, cashierName, openingFloat) => {
+                    if (get().getOpenShift(cashierId)) {
+                        return { success: false, error: 'You already have an open shift at this branch' };
+                    }
+                    if (openingFloat < 0) return { success: false, error: 'Opening float cannot be negative' };
+
+                    const shift: Shift = {
+                        id: `SHIFT-${Date.now()}`,
+                        cashierId,
+                        cashierName,
+                        openedAt: new Date().toISOString(),
+                        openingFloat,
+                        movements: [],
+                        saleIds: [],
+                        returnIds: [],
+                        status: 'OPEN',
+                        branchId: useBranchStore.getState().currentBranchId
+                    };
+                    set(state => ({
+                        allShifts: [shift, ...state.allShifts],
+                        shifts: [shift, ...state.shifts]
+                    }));
+                    return { success: true };
+                },
+
+                addCashMovement: (shiftId, movement) => {
+                    if (movement.amount <= 0) return { success: false, error: 'Amount must be greater than zero' };
+                    return updateOpenShift(shiftId, shift => ({
+                        ...shift,
+                        movements: [...shift.movements, { ...movement, id: `CM-${Date.now()}`, date: new Date().toISOString() }]
+                    }));
+                },
+
+                attachSale: (shiftId, saleId) => updateOpenShift(shiftId, shift => ({ ...shift, saleIds: [...shift.saleIds, saleId] })),
+
+                attachReturn: (shiftId, returnId) => updateOpenShift(shiftId, shift => ({ ...shift, returnIds: [...shift.returnIds, returnId] })),
+
+                // Z report: freeze the figures with the counted drawer and lock the shift
+                closeShift: (shiftId, counted) => updateOpenShift(shiftId, shift => ({
+                    ...shift,
+                    status: 'CLOSED',
+                    closedAt: new Date().toISOString(),
+                    zReport: buildShiftReport(shift, useSalesStore.getState().allSales, useReturnStore.getState().allReturns, counted)
+                }))
+            };
+        },
+        {
+            name: 'shift-store-v1',
+            partialize: (state) => ({ allShifts: state.allShifts }),
+            merge: (persisted, current) => {
+                const allShifts = (persisted as Partial<ShiftState>)?.allShifts || [];
+                return {
+                    ...current,
+                    allShifts,
+                    shifts: allShifts.filter(s => s.branchId === initialBranchId)
+                };
+            }
+        }
+    )
+);
+
+// --- Parked Carts Store (Persisted) ---
+interface ParkedCartState {
+  allParkedCarts: ParkedCart[]; // Master DB
+  parkedCarts: ParkedCart[];    // Filtered View
+  syncWithBranch: (branchId: string) => void;
+  parkCart: (name: string, parkedBy: string) => ParkedCart | null;
+  recallCart: (id: string) => boolean;
+  discardParkedCart: (id: string) => void;
+}
+
+export const useParkedCartStore = create<ParkedCartState>()(
+    persist(
+        (set, get) => ({
+            allParkedCarts: [],
+            parkedCarts: [],
+
+            syncWithBranch: (branchId) => {
+                set(state => ({
+                    parkedCarts: state.allParkedCarts.filter(c => c.branchId === branchId)
+                }));
+            },
+
+            // Move the active cart into the parked list and leave the terminal with an empty cart
+            parkCart: (name, parkedBy) => {
+                const { items, customer, cartDiscount, discountApproval, prescription, drugAlertAcks, limitApprovals, quotationId, clearCart } = useCartStore.getState();
+                if (items.length === 0) return null;
+
+                const parked: ParkedCart = {
+                    id: `PARK-${Date.now()}`,
+                    name: name.trim() || customer?.name || `Cart ${get().parkedCarts.length + 1}`,
+                    parkedAt: new Date().toISOString(),
+                    parkedBy,
+                    items,
+                    customer,
+                    cartDiscount,
+                    discountApproval,
+                    prescription,
+                    drugAlertAcks,
+                    limitApprovals,
+                    quotationId,
+                    branchId: useBranchStore.getState().currentBranchId
+                };
+
+                set(state => ({
+                    allParkedCarts: [...state.allParkedCarts, parked],
+                    parkedCarts: [...state.parkedCarts, parked]
+                }));
+                clearCart();
+                return parked;
+            },
+
+            // Only recalls into an empty cart so nothing on the terminal is overwritten
+            recallCart: (id) => {
+                const parked = get().parkedCarts.find(c => c.id === id);
+                const cart = useCartStore.getState();
+                if (!parked || cart.items.length > 0) return false;
+
+                cart.loadCart(parked);
+                get().discardParkedCart(id);
+                return true;
+            },
+
+            discardParkedCart: (id) => set(state => ({
+                allParkedCarts: state.allParkedCarts.filter(c => c.id !== id),
+                parkedCarts: state.parkedCarts.filter(c => c.id !== id)
+            }))
+        }),
+        {
+            name: 'parked-cart-store-v1',
+            partialize: (state) => ({ allParkedCarts: state.allParkedCarts }),
+            merge: (persisted, current) => {
+                const allParkedCarts = (persisted as Partial<ParkedCartState>)?.allParkedCarts || [];
+                return {
+                    ...current,
+                    allParkedCarts,
+                    parkedCarts: allParkedCarts.filter(c => c.branchId === initialBranchId)
+                };
+            }
+        }
+    )
+);
+
+// --- Quotation Store (Persisted) ---
+interface QuotationResult {
+  success: boolean;
+  error?: string;
+  reference?: string; // Number of the order a quotation became
+  changes?: QuotedPriceChange[]; // Lines re-priced since the quote
+  missing?: string[]; // Quoted products no longer sold at this branch
+}
+
+interface QuotationState {
+  allQuotations: Quotation[]; // Master DB
+  quotations: Quotation[];    // Filtered View
+  syncWithBranch: (branchId: string) => void;
+  quoteCart: (customerName: string, validUntil: string, by: string) => Promise<Quotation | null>;
+  quoteOrder: (order: DistributionOrder, validUntil: string, by: string) => Promise<Quotation>;
+  loadIntoCart: (id: string) => QuotationResult;
+  convertToOrder: (id: string, by: string) => Promise<QuotationResult>;
+  markConverted: (id: string, reference: string) => void;
+  deleteQuotation: (id: string, by: string) => void;
+}
+
+// Quotations being turned into orders; a second convert while the number is reserved is refused
+const convertingQuotations = new Set<string>();
+
+// Shared checks before a quotation becomes a sale or an order
+const getConvertible = (quotation: Quotation | undefined): { error?: string } => {
+  if (!quotation) return { error: 'Quotation not found.' };
+  if (quotation.status === 'CONVERTED') return { error: `${quotation.id} was already converted to ${quotation.convertedTo}.` };
+  if (isQuotationExpired(quotation)) return { error: `${quotation.id} expired on ${quotation.validUntil}. Make a new quotation.` };
+  return {};
+};
+
+export const useQuotationStore = create<QuotationState>()(
+    persist(
+        (set, get) => ({
+            allQuotations: [],
+            quotations: [],
+
+            syncWithBranch: (branchId) => {
+                set(state => ({
+                    quotations: state.allQuotations.filter(q => q.branchId === branchId)
+                }));
+            },
+
+            // Save the active cart as a quotation and leave the terminal with an empty cart; stock is untouched
+            quoteCart: async (customerName, validUntil, by) => {
+                const cart = useCartStore.getState();
+                if (cart.items.length === 0) return null;
+
+                const branchId = useBranchStore.getState().currentBranchId;
+                const { items, customer, cartDiscount } = cart;
+                const totals = cart.totals();
+                const id = await useNumberingStore.getState().reserveNumber(branchId, 'QT', { by });
+                const quotation: Quotation = {
+                    id,
+                    source: 'POS',
+                    customerName: toUnicode(customerName.trim()) || customer?.name || 'Walk-in Customer',
+                    createdAt: new Date().toISOString(),
+                    createdBy: by,
+                    validUntil,
+                    subtotal: totals.subtotal,
+                    discountTotal: totals.discountTotal,
+                    total: totals.total,
+                    items,
+                    customer,
+                    cartDiscount,
+                    status: 'OPEN',
+                    branchId
+                };
+
+                set(state => ({
+                    allQuotations: [quotation, ...state.allQuotations],
+                    quotations: [quotation, ...state.quotations]
+                }));
+                useCartStore.getState().clearCart();
+                return quotation;
+            },
+
+            quoteOrder: async (order, validUntil, by) => {
+                const branchId = useBranchStore.getState().currentBranchId;
+                const total = order.itemsList.reduce((sum, item) => sum + item.price * item.quantity, 0);
+                const id = await useNumberingStore.getState().reserveNumber(branchId, 'QT', { by });
+                const quotation: Quotation = {
+                    id,
+                    source: 'DISTRIBUTION',
+                    customerName: order.customer,
+                    createdAt: new Date().toISOString(),
+                    createdBy: by,
+                    validUntil,
+                    subtotal: total,
+                    discountTotal: 0,
+                    total,
+                    order: { ...order, total, branchId },
+                    status: 'OPEN',
+                    branchId
+                };
+
+                set(state => ({
+                    allQuotations: [quotation, ...state.allQuotations],
+                    quotations: [quotation, ...state.quotations]
+                }));
+                return quotation;
+            },
+
+            // Loads re-priced lines into an empty cart; the quotation is marked converted when the sale is charged
+            loadIntoCart: (id) => {
+                const quotation = get().quotations.find(q => q.id === id);
+                const { error } = getConvertible(quotation);
+                if (error || !quotation) return { success: false, error };
+                const cart = useCartStore.getState();
+                if (cart.items.length > 0) return { success: false, error: 'Park or clear the current sale before converting a quotation.' };
+
+                const customer = quotation.customer
+                    ? useCustomerStore.getState().customers.find(c => c.id === quotation.customer!.id) || quotation.customer
+                    : null;
+                const priceList = getCustomerPriceList(customer);
+                const { items, changes, missing } = repriceCartItems(quotation.items || [], useProductStore.getState().products, priceList);
+                if (items.length === 0) return { success: false, error: 'None of the quoted products are sold at this branch any more.', missing };
+
+                // Discounts above the approval threshold are signed off again at payment
+                cart.loadCart({
+                    items,
+                    customer,
+                    cartDiscount: quotation.cartDiscount || null,
+                    discountApproval: null,
+                    quotationId: quotation.id
+                });
+                return { success: true, changes, missing };
+            },
+
+            convertToOrder: async (id, by) => {
+                const quotation = get().quotations.find(q => q.id === id);
+                const { error } = getConvertible(quotation);
+                if (error || !quotation) return { success: false, error };
+                if (!quotation.order) return { success: false, error: `${quotation.id} is not a distribution quotation.` };
+
+                const customer = useCustomerStore.getState().customers.find(c => c.name === quotation.order!.customer);
+                const priceList = usePriceListStore.getState().priceLists.find(l => l.id === customer?.priceListId);
+                const { items, changes, missing } = repriceOrderItems(quotation.order.itemsList, useProductStore.getState().products, priceList);
+                if (items.length === 0) return { success: false, error: 'None of the quoted products are sold at this branch any more.', missing };
+
+                if (convertingQuotations.has(quotation.id)) return { success: false, error: `${quotation.id} is already being converted.` };
+                convertingQuotations.add(quotation.id);
+                let number: string;
+                try {
+                    number = await useNumberingStore.getState().reserveNumber(quotation.branchId, 'DO', { by, reference: quotation.id });
+                } catch {
+                    return { success: false, error: 'Could not issue an order number. The quotation is still open; try again.' };
+                } finally {
+                    convertingQuotations.delete(quotation.id);
+                }
+
+                useDistributionStore.getState().addOrder({
+                    ...quotation.order,
+                    id: number,
+                    status: 'PENDING',
+                    date: new Date().toISOString().split('T')[0],
+                    itemsList: items,
+                    total: items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+                });
+                get().markConverted(quotation.id, number);
+                return { success: true, reference: number, changes, missing };
+            },
+
+            markConverted: (id, reference) => {
+                const update = (q: Quotation): Quotation => q.id === id
+                    ? { ...q, status: 'CONVERTED', convertedTo: reference, convertedAt: new Date().toISOString() }
+                    : q;
+                set(state => ({
+                    allQuotations: state.allQuotations.map(update),
+                    quotations: state.quotations.map(update)
+                }));
+            },
+
+            // The quotation number stays in the register as void
+            deleteQuotation: (id, by) => {
+                useNumberingStore.getState().voidNumber(id, { reason: 'Quotation deleted', by });
+                set(state => ({
+                    allQuotations: state.allQuotations.filter(q => q.id !== id),
+                    quotations: state.quotations.filter(q => q.id !== id)
+                }));
+            }
+        }),
+        {
+            name: 'quotation-store-v1',
+            partialize: (state) => ({ allQuotations: state.allQuotations }),
+            merge: (persisted, current) => {
+                const allQuotations = (persisted as Partial<QuotationState>)?.allQuotations || [];
+                return {
+                    ...current,
+                    allQuotations,
+                    quotations: allQuotations.filter(q => q.branchId === initialBranchId)
+                };
+            }
+        }
+    )
+);
+
+// --- Finance Ledger / Transaction Store (Persisted) ---
+interface TransactionState {
+  allTransactions: Transaction[]; // Master DB
+  transactions: Transaction[];    // Filtered View
+  syncWithBranch: (branchId: string) => void;
+  addTransaction: (transaction: Transaction) => void;
+  getTransactionsByDateRange: (start: string, end: string) => Transaction[];
+}
+
+export const useTransactionStore = create<TransactionState>()(
+    persist(
+        (set, get) => ({
+            allTransactions: mockTransactions,
+            transactions: mockTransactions.filter(t => t.branchId === initialBranchId),
+
+            syncWithBranch: (branchId) => {
+                set(state => ({
+                    transactions: state.allTransactions.filter(t => t.branchId === branchId)
+                }));
+            },
+
+            addTransaction: (transaction) => set(state => ({
+                allTransactions: [transaction, ...state.allTransactions],
+                transactions: transaction.branchId === useBranchStore.getState().currentBranchId ? [transaction, ...state.transactions] : state.transactions
+            })),
+
+            // Dates are ISO YYYY-MM-DD so string comparison is chronological
+            getTransactionsByDateRange: (start, end) => get().transactions.filter(t => t.date >= start && t.date <= end)
+        }),
+        {
+            name: 'transaction-store-v1',
+            partialize: (state) => ({ allTransactions: state.allTransactions }),
+            merge: (persisted, current) => {
+                const allTransactions = (persisted as Partial<TransactionState>)?.allTransactions || current.allTransactions;
+                return {
+                    ...current,
+                    allTransactions,
+                    transactions: allTransactions.filter(t => t.branchId === initialBranchId)
+                };
+            }
+        }
+    )
+);
+
 // --- Scanner History Store & Sync Logic (Persisted) ---
 
 interface ScannerState {
@@ -458,11 +1751,20 @@ export const useScannerStore = create<ScannerState>()(
                         verifiedItem.costPrice
                     );
 
+                    // Stock is still received; a duplicate serial is flagged for follow-up instead
+                    const serialResult = verifiedItem.serialNumber && verifiedItem.gtin
+                        ? useSerialStore.getState().recordSerial(
+                            { gtin: verifiedItem.gtin, serialNumber: verifiedItem.serialNumber, productId: product.id, batchNumber: verifiedItem.batchNumber },
+                            'RECEIVED',
+                            { by: user?.name || 'Unknown' }
+                        )
+                        : { success: true };
+
                     const finalItem: ScannedItem = {
                         ...verifiedItem,
                         productName: product.nameEn,
                         syncStatus: 'SYNCED',
-                        syncMessage: 'Verified & Added',
+                        syncMessage: serialResult.success ? 'Verified & Added' : `Added - duplicate serial: ${serialResult.error}`,
                         verified: true
                     };
 
@@ -515,11 +1817,223 @@ export const useScannerStore = create<ScannerState>()(
     )
 );
 
+// --- Distribution Order Store (Persisted) ---
+interface DistributionState {
+  allOrders: DistributionOrder[]; // Master DB
+  orders: DistributionOrder[];    // Filtered View
+  syncWithBranch: (branchId: string) => void;
+  addOrder: (order: DistributionOrder) => void;
+  updateOrder: (order: DistributionOrder) => void;
+  deleteOrder: (id: string) => void;
+}
+
+export const useDistributionStore = create<DistributionState>()(
+    persist(
+        (set, get) => {
+            const commit = (allOrders: DistributionOrder[]) => set({
+                allOrders,
+                orders: allOrders.filter(o => o.branchId === useBranchStore.getState().currentBranchId)
+            });
+
+            return {
+                allOrders: mockDistributionOrders,
+                orders: mockDistributionOrders.filter(o => o.branchId === initialBranchId),
+
+                syncWithBranch: (branchId) => {
+                    set(state => ({
+                        orders: state.allOrders.filter(o => o.branchId === branchId)
+                    }));
+                },
+
+                addOrder: (order) => commit([
+                    { ...order, branchId: order.branchId || useBranchStore.getState().currentBranchId },
+                    ...get().allOrders
+                ]),
+
+                updateOrder: (order) => commit(get().allOrders.map(o => o.id === order.id ? { ...o, ...order, branchId: o.branchId } : o)),
+
+                deleteOrder: (id) => commit(get().allOrders.filter(o => o.id !== id))
+            };
+        },
+        {
+            name: 'distribution-store-v1',
+            partialize: (state) => ({ allOrders: state.allOrders }),
+            merge: (persisted, current) => {
+                const allOrders = (persisted as Partial<DistributionState>)?.allOrders || current.allOrders;
+                return {
+                    ...current,
+                    allOrders,
+                    orders: allOrders.filter(o => o.branchId === initialBranchId)
+                };
+            }
+        }
+    )
+);
+
+// --- Purchase Order Store (Persisted) ---
+interface PurchaseState {
+  allPOs: PurchaseOrder[];         // Master DB
+  purchaseOrders: PurchaseOrder[]; // Filtered View
+  syncWithBranch: (branchId: string) => void;
+  addPO: (po: PurchaseOrder) => void;
+  updatePO: (po: PurchaseOrder) => void;
+  deletePO: (id: string) => void;
+}
+
+export const usePurchaseStore = create<PurchaseState>()(
+    persist(
+        (set, get) => {
+            const commit = (allPOs: PurchaseOrder[]) => set({
+                allPOs,
+                purchaseOrders: allPOs.filter(p => p.branchId === useBranchStore.getState().currentBranchId)
+            });
+
+            return {
+                allPOs: mockPurchaseOrders,
+                purchaseOrders: mockPurchaseOrders.filter(p => p.branchId === initialBranchId),
+
+                syncWithBranch: (branchId) => {
+                    set(state => ({
+                        purchaseOrders: state.allPOs.filter(p => p.branchId === branchId)
+                    }));
+                },
+
+                addPO: (po) => commit([
+                    { ...po, branchId: po.branchId || useBranchStore.getState().currentBranchId },
+                    ...get().allPOs
+                ]),
+
+                updatePO: (po) => commit(get().allPOs.map(p => p.id === po.id ? { ...p, ...po, branchId: p.branchId } : p)),
+
+                deletePO: (id) => commit(get().allPOs.filter(p => p.id !== id))
+            };
+        },
+        {
+            name: 'purchase-store-v1',
+            partialize: (state) => ({ allPOs: state.allPOs }),
+            merge: (persisted, current) => {
+                const allPOs = (persisted as Partial<PurchaseState>)?.allPOs || current.allPOs;
+                return {
+                    ...current,
+                    allPOs,
+                    purchaseOrders: allPOs.filter(p => p.branchId === initialBranchId)
+                };
+            }
+        }
+    )
+);
+
 // Other stores
-export const useCustomerStore = create<any>((set) => ({ customers: mockCustomers, allCustomers: mockCustomers, syncWithBranch: () => {}, addCustomer: () => {}, updateCustomer: () => {}, deleteCustomer: () => {} }));
-export const useTransactionStore = create<any>((set) => ({ transactions: mockTransactions, allTransactions: mockTransactions, syncWithBranch: () => {}, addTransaction: () => {}, getTransactionsByDateRange: () => [] }));
-export const useDistributionStore = create<any>((set) => ({ orders: mockDistributionOrders, allOrders: mockDistributionOrders, syncWithBranch: () => {}, addOrder: () => {}, updateOrder: () => {}, deleteOrder: () => {} }));
-export const usePurchaseStore = create<any>((set) => ({ purchaseOrders: mockPurchaseOrders, allPOs: mockPurchaseOrders, syncWithBranch: () => {}, addPO: () => {}, updatePO: () => {}, deletePO: () => {} }));
 export const useFinanceStore = create<any>((set) => ({ expenses: mockExpenses, allExpenses: mockExpenses, payables: mockPayables, allPayables: mockPayables, receivables: mockReceivables, allReceivables: mockReceivables, syncWithBranch: () => {}, addExpense: () => {}, removeExpense: () => {}, markPayablePaid: () => {}, markReceivableCollected: () => {} }));
 export const useSupplierStore = create<any>((set) => ({ suppliers: mockSuppliers, allSuppliers: mockSuppliers, syncWithBranch: () => {}, addSupplier: () => {}, updateSupplier: () => {}, deleteSupplier: () => {} }));
-export const useSettingsStore = create<any>((set) => ({ settings: { companyName: 'Parami Pharmacy' }, updateSettings: () => {} }));
+
+// --- App Settings Store (Persisted) ---
+interface SettingsState {
+  settings: AppSettings;
+  updateSettings: (updates: Partial<AppSettings>) => void;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+    persist(
+        (set) => ({
+            settings: defaultSettings,
+            updateSettings: (updates) => set(state => ({ settings: { ...state.settings, ...toUnicodeDeep(updates) } }))
+        }),
+        {
+            name: 'settings-store-v1',
+            // Fields added after a user saved their settings fall back to the defaults
+            merge: (persisted, current) => ({
+                ...current,
+                settings: { ...current.settings, ...((persisted as Partial<SettingsState>)?.settings || {}) }
+            })
+        }
+    )
+);
+
+// --- Keyboard Shortcut Store (Persisted) ---
+// Key bindings are persisted; handlers are registered by whichever page is mounted
+interface ShortcutResult {
+  success: boolean;
+  error?: string;
+}
+
+interface ShortcutState {
+  bindings: Record<string, string>; // Remapped keys by action id; unmapped actions use their default
+  handlers: Record<string, () => void>;
+  register: (handlers: Record<string, () => void>) => void;
+  unregister: (ids: string[]) => void;
+  setBinding: (actionId: string, key: string) => ShortcutResult;
+  resetBindings: () => void;
+}
+
+export const useShortcutStore = create<ShortcutState>()(
+    persist(
+        (set, get) => ({
+            bindings: {},
+            handlers: {},
+
+            register: (handlers) => set(state => ({ handlers: { ...state.handlers, ...handlers } })),
+
+            unregister: (ids) => set(state => ({
+                handlers: Object.fromEntries(Object.entries(state.handlers).filter(([id]) => !ids.includes(id)))
+            })),
+
+            setBinding: (actionId, key) => {
+                const action = SHORTCUT_ACTIONS.find(a => a.id === actionId);
+                if (!action) return { success: false, error: 'Unknown shortcut.' };
+
+                const bindings = { ...get().bindings, [actionId]: key };
+                const clash = findShortcutConflicts(bindings).find(c => c.actions.some(a => a.id === actionId));
+                if (clash) {
+                    const other = clash.actions.find(a => a.id !== actionId)!;
+                    return { success: false, error: `${key} is already used by "${other.label}" (${SHORTCUT_SCOPES[other.scope] || other.scope}).` };
+                }
+
+                // Storing only real remaps lets later default changes reach users who never touched the key
+                if (key === action.defaultKey) delete bindings[actionId];
+                set({ bindings });
+                return { success: true };
+            },
+
+            resetBindings: () => set({ bindings: {} })
+        }),
+        {
+            name: 'shortcut-store-v1',
+            partialize: (state) => ({ bindings: state.bindings })
+        }
+    )
+);
+
+// Stores holding free text that may have been typed in Zawgyi before input was converted on save
+interface TextStore {
+  getState(): object;
+  setState(state: object): void;
+}
+
+const TEXT_STORES: [string, TextStore][] = [
+    ['Branches', useBranchStore],
+    ['Products', useProductStore],
+    ['Customers', useCustomerStore],
+    ['Settings', useSettingsStore],
+    ['Sales', useSalesStore],
+    ['Returns', useReturnStore],
+    ['Parked sales', useParkedCartStore],
+    ['Quotations', useQuotationStore],
+    ['Promotions', usePromotionStore],
+    ['Price lists', usePriceListStore],
+    ['Drug interactions', useInteractionStore],
+    ['Distribution', useDistributionStore],
+    ['Suppliers', useSupplierStore],
+    ['Transactions', useTransactionStore]
+];
+
+/**
+ * One-time repair: convert Zawgyi text already stored in the app's data to Unicode.
+ * Returns how many text values changed in each store; stores with nothing to fix are left untouched.
+ */
+export const repairZawgyiStores = (): { store: string; converted: number }[] =>
+    TEXT_STORES.map(([store, hook]) => {
+        const { value, converted } = repairZawgyi(hook.getState());
+        if (converted > 0) hook.setState(value);
+        return { store, converted };
+    });
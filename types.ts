@@ -89,6 +89,7 @@ export interface User {
   role: Role;
   avatar?: string;
   branchId?: string; // Optional: if user is restricted to a branch
+  pin?: string; // Counter authorization PIN (pharmacist verification, manager overrides)
 }
 
 export interface Batch {
@@ -97,6 +98,22 @@ export interface Batch {
   expiryDate: string; // ISO date
   quantity: number;
   costPrice: number;
+  quarantineQuantity?: number; // Returned opened packs held back from sale
+}
+
+// Quantity taken from a single batch when stock leaves the shelf
+export interface BatchAllocation {
+  batchId: string;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: number;
+}
+
+// Larger pack sold alongside the base unit, e.g. a strip of 10 tablets
+export interface ProductUnit {
+  unit: string;   // UNIT_TYPES code
+  factor: number; // Base units per pack
+  price: number;  // Selling price per pack
 }
 
 export interface Product {
@@ -111,7 +128,8 @@ export interface Product {
   price: number;
   image: string;
   stockLevel: number;
-  unit: string; // Main tracking unit (e.g., 'STRIP')
+  unit: string; // Main tracking unit (e.g., 'STRIP'); stock and batches are counted in it
+  packUnits?: ProductUnit[]; // Other units the product is sold in
   minStockLevel: number;
   batches: Batch[];
   requiresPrescription: boolean;
@@ -125,14 +143,70 @@ export interface Customer {
   phone: string;
   points: number;
   tier: 'Silver' | 'Gold' | 'Platinum';
+  priceListId?: string; // Customers without a list buy at retail
   branchId: string;
 }
 
+// Price Lists (wholesale, hospital, ...); entries are keyed by SKU so one list covers every branch
+export interface PriceListEntry {
+  sku: string;
+  price?: number;      // Fixed price per base unit
+  percentOff?: number; // Or a discount off retail for this product
+}
+
+export interface PriceList {
+  id: string;
+  name: string;
+  percentOff: number; // Discount off retail for products without an entry
+  entries: PriceListEntry[];
+}
+
+// Loyalty (mirrors loyalty_tiers.min_points)
+export interface LoyaltyTierRule {
+  tier: Customer['tier'];
+  minPoints: number;      // Balance needed to hold the tier
+  earnMultiplier: number; // Applied to the base earn rate
+}
+
+export interface LoyaltyRules {
+  enabled: boolean;
+  kyatsPerPoint: number;   // Spend that earns one point at the base rate
+  pointValue: number;      // Ks one point is worth when redeemed
+  minRedeemPoints: number;
+  excludedCategories: string[]; // Spend on these categories earns nothing
+  tiers: LoyaltyTierRule[];
+}
+
+export type PointsEntryType = 'EARN' | 'REDEEM' | 'REVERSAL' | 'ADJUST';
+
+export interface PointsLedgerEntry {
+  id: string;
+  customerId: string;
+  type: PointsEntryType;
+  points: number;       // Signed: earned/credited positive, redeemed/reversed negative
+  balanceAfter: number;
+  tierAfter: Customer['tier'];
+  reference?: string;   // Invoice or return number
+  saleId?: string;
+  note?: string;
+  by: string;
+  date: string; // ISO datetime
+  branchId: string;
+}
+
+export type DiscountType = 'PERCENT' | 'AMOUNT';
+
+export interface CartDiscount {
+  type: DiscountType;
+  value: number; // Percentage (0-100) or Ks amount
+}
+
 export interface CartItem extends Product {
   cartId: string; // unique ID for cart entry
   selectedBatchId?: string;
   quantity: number;
   discount: number;
+  discountType?: DiscountType; // Defaults to AMOUNT (Ks off the line)
   // Enhanced Scanning Data
   transaction_data?: {
     scanned_batch: string | null;
@@ -143,16 +217,369 @@ export interface CartItem extends Product {
   };
   warning_flags?: string[]; // 'EXPIRED', 'NEAR_EXPIRY'
   manager_override?: boolean;
+  originalPrice?: number; // List price when the line price was overridden
+  saleUnit?: string;   // Unit the line is sold in; the product's base unit when unset
+  unitFactor?: number; // Base units per sold unit
+  priceListId?: string; // Price list the line was priced from
+}
+
+// Promotions
+export type PromotionType = 'BUY_X_GET_Y' | 'CATEGORY_PERCENT' | 'TIER_PERCENT';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  active: boolean;
+  startDate?: string; // ISO date, inclusive
+  endDate?: string;   // ISO date, inclusive
+  productId?: string;    // BUY_X_GET_Y
+  buyQuantity?: number;  // BUY_X_GET_Y
+  freeQuantity?: number; // BUY_X_GET_Y
+  category?: string;     // CATEGORY_PERCENT
+  tier?: Customer['tier']; // TIER_PERCENT
+  percent?: number;      // CATEGORY_PERCENT / TIER_PERCENT
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  cartId?: string; // Set when the promotion applies to a single line
+  amount: number;
+}
+
+export interface CartTotals {
+  subtotal: number;
+  lineDiscount: number;
+  promotionDiscount: number;
+  cartDiscount: number;
+  discountTotal: number;
+  manualDiscountPercent: number; // Cashier-entered discounts as % of subtotal
+  promotions: AppliedPromotion[];
+  taxTotal: number;
+  taxes: LineTax[];
+  total: number;
+}
+
+// Commercial tax rate for a product category, in percent
+export interface TaxRate {
+  category: string;
+  rate: number;
+}
+
+// Tax on one sold line, worked out on what the customer actually pays for it
+export interface LineTax {
+  cartId: string;
+  rate: number;
+  net: number; // Line value excluding tax, after every discount and promotion
+  tax: number;
+}
+
+// One rate on the tax summary report; returns are reported separately and netted off
+export interface TaxSummaryRow {
+  rate: number;
+  salesNet: number;
+  salesTax: number;
+  returnsNet: number;
+  returnsTax: number;
+}
+
+// Prescription captured at the counter for requiresPrescription products
+export interface Prescription {
+  id: string;
+  doctorName: string;
+  clinic: string;
+  prescriptionDate: string; // ISO date
+  patientName: string;
+  photo?: string; // Data URL of the scanned / photographed script
+  productIds: string[]; // Prescription-only products it covers on this sale
+  capturedBy: string;
+  capturedAt: string;
+  verifiedById?: string; // Pharmacist who checked the script
+  verifiedBy?: string;
+  verifiedAt?: string;
+}
+
+// Drug safety checks on the cart: the same ingredient twice, or generics that interact
+export type AlertSeverity = 'MINOR' | 'MODERATE' | 'MAJOR';
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['MAJOR', 'MODERATE', 'MINOR'];
+
+export interface InteractionRule {
+  id: string;
+  genericA: string;
+  genericB: string;
+  severity: AlertSeverity;
+  note: string; // Advice shown to the pharmacist
+}
+
+export interface DrugAlert {
+  key: string; // Rule plus the products involved; adding another product raises a fresh alert
+  type: 'DUPLICATE' | 'INTERACTION';
+  severity: AlertSeverity;
+  generics: string[];
+  productNames: string[];
+  message: string;
+}
+
+export interface DrugAlertAck extends DrugAlert {
+  acknowledgedById: string; // Pharmacist who reviewed the alert
+  acknowledgedBy: string;
+  acknowledgedAt: string;
+}
+
+// Sale limits for antibiotics and controlled medicines, counted in base units
+export interface QuantityLimit {
+  id: string;
+  scope: 'PRODUCT' | 'CATEGORY';
+  target: string; // SKU for a product, category name for a category
+  maxPerSale?: number;
+  maxPerPeriod?: number; // Per customer across all branches
+  periodDays: number;
+  action: 'BLOCK' | 'ESCALATE'; // ESCALATE lets an authorized approver override at the counter
+}
+
+// Sign-off to sell past a quantity limit on the current cart
+export interface LimitApproval {
+  limitId: string;
+  kind: 'SALE' | 'PERIOD'; // Per-sale and per-customer breaches of one limit are signed off separately
+  quantity: number; // Base units approved; selling more needs another sign-off
+  approvedBy: string;
+}
+
+// A cart put on hold at the POS so the cashier can serve someone else
+export interface ParkedCart {
+  id: string;
+  name: string;
+  parkedAt: string; // ISO datetime
+  parkedBy: string;
+  items: CartItem[]; // Kept whole, including scanned batch / serial data
+  customer: Customer | null;
+  cartDiscount: CartDiscount | null;
+  discountApproval: { approvedBy: string; percent: number } | null;
+  prescription?: Prescription | null;
+  drugAlertAcks?: DrugAlertAck[];
+  limitApprovals?: LimitApproval[];
+  quotationId?: string | null;
+  branchId: string;
+}
+
+// A priced offer saved from the POS cart or a distribution order draft. It holds no stock;
+// converting it re-prices every line at the current product price.
+export type QuotationSource = 'POS' | 'DISTRIBUTION';
+
+export interface Quotation {
+  id: string; // Quotation number from the branch QT sequence
+  source: QuotationSource;
+  customerName: string;
+  createdAt: string; // ISO datetime
+  createdBy: string;
+  validUntil: string; // YYYY-MM-DD, last day the quote can be converted
+  subtotal: number;
+  discountTotal: number;
+  total: number;
+  items?: CartItem[]; // POS quotations
+  customer?: Customer | null;
+  cartDiscount?: CartDiscount | null;
+  order?: DistributionOrder; // Distribution quotations: the order draft as quoted
+  status: 'OPEN' | 'CONVERTED';
+  convertedTo?: string; // Invoice or order number
+  convertedAt?: string;
+  branchId: string;
+}
+
+// Line whose price moved between the quote and its conversion
+export interface QuotedPriceChange {
+  name: string;
+  quoted: number;
+  current: number;
+}
+
+export type PaymentMethod = 'CASH' | 'CARD' | 'KBZ_PAY' | 'WAVE_PAY' | 'POINTS';
+
+export const PAYMENT_METHODS: { code: PaymentMethod; nameEn: string; nameMm: string; requiresReference: boolean }[] = [
+  { code: 'CASH', nameEn: 'Cash', nameMm: 'ငွေသား', requiresReference: false },
+  { code: 'KBZ_PAY', nameEn: 'KBZ Pay', nameMm: 'KBZ Pay', requiresReference: true },
+  { code: 'WAVE_PAY', nameEn: 'Wave Pay', nameMm: 'Wave Pay', requiresReference: true },
+  { code: 'CARD', nameEn: 'Card', nameMm: 'ကတ်', requiresReference: false },
+  { code: 'POINTS', nameEn: 'Loyalty Points', nameMm: 'ပွိုင့်', requiresReference: false }
+];
+
+// One payment applied to a sale; a sale may be settled by several tenders
+export interface Tender {
+  method: PaymentMethod;
+  amount: number;      // Amount applied to the sale total
+  tendered?: number;   // Cash handed over (CASH only), change = tendered - amount
+  reference?: string;  // Wallet / card transaction reference
+}
+
+// A cart line as it was sold, with the batches its stock was taken from
+export interface SaleItem extends CartItem {
+  allocations: BatchAllocation[];
 }
 
 export interface Sale {
   id: string;
-  date: string;
+  invoiceNumber: string;
+  date: string; // ISO datetime
   total: number;
-  items: CartItem[];
+  items: SaleItem[];
   customer?: Customer;
   cashierId: string;
-  paymentMethod: 'CASH' | 'CARD' | 'KBZ_PAY';
+  cashierName: string;
+  paymentMethod: PaymentMethod | 'SPLIT';
+  tenders: Tender[];
+  change: number;
+  subtotal: number;
+  discountTotal: number;
+  cartDiscount?: CartDiscount;
+  promotions: AppliedPromotion[];
+  discountApprovedBy?: string;
+  prescription?: Prescription;
+  drugAlerts?: DrugAlertAck[]; // Warnings on the cart and who acknowledged them
+  taxTotal?: number;
+  taxes?: LineTax[];
+  pricesIncludeTax?: boolean; // Pricing mode in force when the sale was rung up
+  shiftId?: string;
+  pointsEarned?: number;
+  pointsRedeemed?: number; // Points behind the POINTS tender
+  quotationId?: string; // Quotation the sale was converted from
+  branchId: string;
+}
+
+// GS1 serialised units (AI 21), tracked per GTIN + serial across all branches
+export type SerialStatus = 'RECEIVED' | 'SOLD' | 'RETURNED' | 'DECOMMISSIONED';
+
+export interface SerialEvent {
+  status: SerialStatus;
+  date: string; // ISO datetime
+  by: string;
+  reference?: string; // Invoice, return or receiving note
+  branchId: string;
+}
+
+export interface SerialRecord {
+  key: string; // `${gtin}|${serialNumber}`
+  gtin: string;
+  serialNumber: string;
+  productId?: string;
+  batchNumber?: string | null;
+  status: SerialStatus;
+  branchId: string; // Where the unit was last seen
+  history: SerialEvent[]; // Oldest first
+}
+
+// Returns
+export interface ReturnItem {
+  cartId: string;           // Line on the original sale
+  productId: string;
+  nameEn: string;
+  nameMm: string;
+  quantity: number;
+  unitRefund: number;       // Net price actually paid per unit, after discounts and promotions
+  unitFactor?: number;      // Base units per returned unit, as sold
+  allocations: BatchAllocation[]; // Batches the units go back to
+  opened: boolean;          // Opened packs are quarantined instead of restocked
+}
+
+export interface SaleReturn {
+  id: string;
+  returnNumber: string;
+  saleId: string;
+  invoiceNumber: string;
+  date: string; // ISO datetime
+  items: ReturnItem[];
+  refundTotal: number;
+  tenders: Tender[]; // Refund per original tender, index-aligned with the sale's tenders
+  taxTotal?: number; // Tax included in the refund
+  pointsReversed?: number; // Earned points taken back for the refunded value
+  pointsRestored?: number; // Redeemed points credited back through the POINTS tender
+  reason: string;
+  processedBy: string;
+  shiftId?: string;
+  branchId: string;
+}
+
+// Cashier Shifts
+export interface CashMovement {
+  id: string;
+  type: 'CASH_IN' | 'CASH_OUT';
+  amount: number;
+  reason: string;
+  date: string; // ISO datetime
+  by: string;
+}
+
+export interface ShiftTenderLine {
+  method: PaymentMethod;
+  expected: number;
+  counted?: number;
+  variance?: number; // counted - expected
+}
+
+// X report while the shift is open, Z report once it is closed
+export interface ShiftReport {
+  generatedAt: string;
+  openingFloat: number;
+  cashIn: number;
+  cashOut: number;
+  salesCount: number;
+  grossSales: number;
+  discountTotal: number;
+  refundsCount: number;
+  refundsTotal: number;
+  overrideCount: number;
+  tenders: ShiftTenderLine[];
+}
+
+export interface Shift {
+  id: string;
+  cashierId: string;
+  cashierName: string;
+  openedAt: string;
+  closedAt?: string;
+  openingFloat: number;
+  movements: CashMovement[];
+  saleIds: string[];
+  returnIds: string[];
+  status: 'OPEN' | 'CLOSED';
+  zReport?: ShiftReport;
+  branchId: string;
+}
+
+// Counter Overrides
+export type OverrideType = 'EXPIRED_ITEM' | 'PRICE_CHANGE' | 'DISCOUNT' | 'VOID' | 'QUANTITY_LIMIT';
+
+// Roles that may authorize each override with their own PIN
+export const OVERRIDE_ROLES: Record<OverrideType, Role[]> = {
+  EXPIRED_ITEM: [Role.ADMIN, Role.MANAGER, Role.PHARMACIST],
+  PRICE_CHANGE: [Role.ADMIN, Role.MANAGER],
+  DISCOUNT: [Role.ADMIN, Role.MANAGER],
+  VOID: [Role.ADMIN, Role.MANAGER],
+  QUANTITY_LIMIT: [Role.ADMIN, Role.MANAGER, Role.PHARMACIST],
+};
+
+export const OVERRIDE_LABELS: Record<OverrideType, string> = {
+  EXPIRED_ITEM: 'Expired Item',
+  PRICE_CHANGE: 'Price Change',
+  DISCOUNT: 'Discount',
+  VOID: 'Void',
+  QUANTITY_LIMIT: 'Quantity Limit',
+};
+
+export interface OverrideAudit {
+  id: string;
+  type: OverrideType;
+  approvedById: string;
+  approvedBy: string;
+  approverRole: Role;
+  requestedBy: string; // Cashier at the counter
+  reason: string;
+  productId?: string;
+  productName?: string;
+  batchNumber?: string;
+  details: string; // What was authorized, e.g. "Price 1,200 → 1,000 Ks"
+  date: string; // ISO datetime
   branchId: string;
 }
 
@@ -164,6 +591,7 @@ export interface Transaction {
   date: string; // ISO Date YYYY-MM-DD
   description: string;
   paymentMethod?: string;
+  tenders?: Tender[];
   branchId: string;
 }
 
@@ -250,6 +678,33 @@ export interface Receivable {
   branchId: string;
 }
 
+export type ReceiptLanguage = 'EN' | 'MM' | 'BOTH';
+
+// Document Numbering
+// Gap-free per branch, document type and (optionally) year, e.g. PARAMI-1/INV/2026/000123
+export type DocumentType = 'INV' | 'RTN' | 'PO' | 'DO' | 'QT';
+
+export const DOCUMENT_TYPES: { code: DocumentType; label: string }[] = [
+  { code: 'INV', label: 'Sales Invoice' },
+  { code: 'RTN', label: 'Sales Return' },
+  { code: 'PO', label: 'Purchase Order' },
+  { code: 'DO', label: 'Distribution Order' },
+  { code: 'QT', label: 'Quotation' },
+];
+
+export interface IssuedNumber {
+  number: string;
+  branchId: string;
+  docType: DocumentType;
+  issuedAt: string; // ISO datetime
+  issuedBy: string;
+  reference?: string; // Record the number was issued for
+  status: 'ISSUED' | 'VOID';
+  voidReason?: string;
+  voidedBy?: string;
+  voidedAt?: string;
+}
+
 export interface AppSettings {
   companyName: string;
   taxId: string;
@@ -259,9 +714,15 @@ export interface AppSettings {
   language: string;
   shopNameReceipt: string;
   receiptFooter: string;
+  pricesIncludeTax: boolean; // Shelf prices already contain commercial tax
+  defaultTaxRate: number;    // Percent, for categories without their own rate
+  taxRates: TaxRate[];
+  resetNumbersYearly: boolean; // Document sequences restart at 1 each calendar year
   paperSize: string;
   defaultPrinter: string;
   autoPrint: boolean;
+  receiptLanguage: ReceiptLanguage;
+  showBatchOnReceipt: boolean;
   showImages: boolean;
   lowStockLimit: number;
   expiryWarningDays: number;
@@ -269,3 +730,42 @@ export interface AppSettings {
   enableCriticalAlerts: boolean;
   notificationEmail: string;
 }
+
+// Keyboard Shortcuts
+// Every action a page can bind; pages register handlers for their own ids while mounted
+export interface ShortcutAction {
+  id: string;
+  scope: string; // Route the action lives on, or 'global'
+  label: string;
+  mm: string;
+  defaultKey: string; // e.g. 'F2', 'ESC', 'CTRL+K'
+}
+
+export const SHORTCUT_SCOPES: Record<string, string> = {
+  global: 'Everywhere',
+  '/pos': 'Point of Sale',
+  '/returns': 'Sales Returns',
+  '/sales': 'Sales Journal',
+  '/stock-entry': 'Stock Entry',
+  '/scanner': 'Scanner Utility'
+};
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+  { id: 'global.help', scope: 'global', label: 'Help', mm: 'အကူအညီ', defaultKey: 'F1' },
+  { id: 'pos.search', scope: '/pos', label: 'Search Product', mm: 'ဆေးရှာရန်', defaultKey: 'F2' },
+  { id: 'pos.scan', scope: '/pos', label: 'Scan Barcode', mm: 'ဘားကုတ် ဖတ်ရန်', defaultKey: 'F3' },
+  { id: 'pos.parked', scope: '/pos', label: 'Park / Recall Sale', mm: 'ခေတ္တရပ်ထားသော အရောင်း', defaultKey: 'F8' },
+  { id: 'pos.checkout', scope: '/pos', label: 'Charge', mm: 'ငွေရှင်းရန်', defaultKey: 'F10' },
+  { id: 'pos.cancel', scope: '/pos', label: 'Clear Search', mm: 'ရှာဖွေမှု ဖျက်ရန်', defaultKey: 'ESC' },
+  { id: 'returns.lookup', scope: '/returns', label: 'Find Invoice', mm: 'ပြေစာရှာရန်', defaultKey: 'F2' },
+  { id: 'sales.search', scope: '/sales', label: 'Search Sales', mm: 'အရောင်းရှာရန်', defaultKey: 'F2' },
+  { id: 'stock.search', scope: '/stock-entry', label: 'Search Product', mm: 'ဆေးရှာရန်', defaultKey: 'F2' },
+  { id: 'stock.scan', scope: '/stock-entry', label: 'Scan Barcode', mm: 'ဘားကုတ် ဖတ်ရန်', defaultKey: 'F3' },
+  { id: 'stock.save', scope: '/stock-entry', label: 'Confirm & Save', mm: 'အတည်ပြုပြီး သိမ်းရန်', defaultKey: 'F10' },
+  { id: 'stock.saveNext', scope: '/stock-entry', label: 'Save & Add Another', mm: 'သိမ်းပြီး ထပ်ထည့်ရန်', defaultKey: 'F11' },
+  { id: 'stock.cancel', scope: '/stock-entry', label: 'Close Scanner', mm: 'စကင်နာ ပိတ်ရန်', defaultKey: 'ESC' },
+  { id: 'scanner.scan', scope: '/scanner', label: 'Scan Barcode', mm: 'ဘားကုတ် ဖတ်ရန်', defaultKey: 'F3' },
+  { id: 'scanner.manual', scope: '/scanner', label: 'Manual Stock Entry', mm: 'လက်ဖြင့် ရိုက်ရန်', defaultKey: 'F4' },
+  { id: 'scanner.history', scope: '/scanner', label: 'View History', mm: 'မှတ်တမ်း ကြည့်ရန်', defaultKey: 'F8' },
+  { id: 'scanner.cancel', scope: '/scanner', label: 'Cancel / Back', mm: 'ပယ်ဖျက် / ပြန်ထွက်', defaultKey: 'ESC' }
+];
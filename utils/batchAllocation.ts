@@ -0,0 +1,124 @@
+import { Batch, BatchAllocation, CartItem, Product } from '../types';
+import { toBaseQuantity } from './units';
+
+export interface AllocationResult {
+  allocations: BatchAllocation[];
+  shortfall: number; // Units that could not be covered by any batch
+}
+
+/**
+ * Helper: Sort batches First-Expiry-First-Out (earliest expiry first)
+ */
+export const sortBatchesFEFO = (batches: Batch[]): Batch[] => {
+  return [...batches].sort((a, b) => new Date(a.expiryDate).getTime() - new Date(b.expiryDate).getTime());
+};
+
+/**
+ * Helper: Earliest-expiring batch that still has stock
+ */
+export const getFEFOBatch = (product: Product): Batch | undefined => {
+  return sortBatchesFEFO(product.batches).find(b => b.quantity > 0);
+};
+
+/**
+ * Helper: Sellable quantity for a product.
+ * Batch-tracked products count their batches; quick-added products without batches fall back to stockLevel.
+ */
+export const getAvailableStock = (product: Product): number => {
+  if (product.batches.length === 0) return product.stockLevel;
+  return product.batches.reduce((sum, b) => sum + Math.max(0, b.quantity), 0);
+};
+
+/**
+ * Plan which batches cover a quantity.
+ * The preferred batch (scanned or picked by the cashier) is consumed first,
+ * the remainder is taken FEFO, splitting across as many batches as needed.
+ */
+export const allocateBatches = (product: Product, quantity: number, preferredBatchId?: string): AllocationResult => {
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+
+  const preferred = product.batches.find(b => b.id === preferredBatchId);
+  const ordered = preferred
+    ? [preferred, ...sortBatchesFEFO(product.batches.filter(b => b.id !== preferred.id))]
+    : sortBatchesFEFO(product.batches);
+
+  for (const batch of ordered) {
+    if (remaining <= 0) break;
+    if (batch.quantity <= 0) continue;
+
+    const take = Math.min(batch.quantity, remaining);
+    allocations.push({
+      batchId: batch.id,
+      batchNumber: batch.batchNumber,
+      expiryDate: batch.expiryDate,
+      quantity: take
+    });
+    remaining -= take;
+  }
+
+  return { allocations, shortfall: remaining };
+};
+
+/**
+ * Helper: Batch a cart line draws from, the scanned pack's batch taking precedence over the picked one
+ */
+export const getLineBatchId = (item: CartItem): string | undefined =>
+  item.batches.find(b => b.batchNumber === item.transaction_data?.scanned_batch)?.id || item.selectedBatchId;
+
+/**
+ * Base units left in each batch once the other cart lines of the product are taken out
+ */
+export const getBatchAvailability = (product: Product, items: CartItem[], excludeCartId?: string): Map<string, number> => {
+  const available = new Map(product.batches.map(b => [b.id, Math.max(0, b.quantity)]));
+  items
+    .filter(i => i.id === product.id && i.cartId !== excludeCartId)
+    .forEach(i => {
+      const batchId = getLineBatchId(i);
+      if (batchId && available.has(batchId)) available.set(batchId, Math.max(0, available.get(batchId)! - toBaseQuantity(i)));
+    });
+  return available;
+};
+
+/**
+ * Earliest-expiring batch still in stock that expires before the chosen one, if any.
+ * Picking past it breaks FEFO, so the POS warns about it.
+ */
+export const findEarlierBatch = (product: Product, batchId: string, available: Map<string, number>): Batch | undefined => {
+  const chosen = product.batches.find(b => b.id === batchId);
+  if (!chosen) return undefined;
+  return sortBatchesFEFO(product.batches)
+    .find(b => b.id !== chosen.id && (available.get(b.id) || 0) > 0 && new Date(b.expiryDate) < new Date(chosen.expiryDate));
+};
+
+/**
+ * Split a line's quantity (in selling units) across batches: the chosen batch first, then FEFO.
+ * Only whole selling units go to a batch; any rest stays on the last part and is allocated
+ * across batches at checkout.
+ */
+export const splitAcrossBatches = (
+  product: Product,
+  quantity: number,
+  unitFactor: number,
+  preferredBatchId: string | undefined,
+  available: Map<string, number>
+): { batchId?: string; quantity: number }[] => {
+  const preferred = product.batches.find(b => b.id === preferredBatchId);
+  const ordered = preferred
+    ? [preferred, ...sortBatchesFEFO(product.batches.filter(b => b.id !== preferred.id))]
+    : sortBatchesFEFO(product.batches);
+
+  const parts: { batchId?: string; quantity: number }[] = [];
+  let remaining = quantity;
+  for (const batch of ordered) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, Math.floor((available.get(batch.id) || 0) / unitFactor));
+    if (take <= 0) continue;
+    parts.push({ batchId: batch.id, quantity: take });
+    remaining -= take;
+  }
+
+  if (parts.length === 0) return [{ batchId: preferred?.id || ordered[0]?.id, quantity }];
+  parts[parts.length - 1].quantity += remaining;
+  return parts;
+};
@@ -0,0 +1,73 @@
+import { Branch, CartItem, CartTotals, Customer } from '../types';
+import { lineDiscount, lineNet } from './pricing';
+import { getUnitName } from './units';
+
+// Same-origin windows on one machine talk over a BroadcastChannel; no server involved
+const CHANNEL_NAME = 'parami-customer-display';
+
+export interface DisplayLine {
+  nameEn: string;
+  nameMm: string;
+  quantity: number;
+  unit?: string;
+  price: number;
+  discount: number;
+  amount: number;
+}
+
+export interface DisplayCart {
+  lines: DisplayLine[];
+  customerName?: string;
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  pricesIncludeTax: boolean;
+  total: number;
+}
+
+export interface DisplayBranding {
+  shopName: string;
+  branchName?: string;
+  logoUrl?: string;
+}
+
+export type DisplayMessage =
+  | { type: 'CART'; branding: DisplayBranding; cart: DisplayCart }
+  | { type: 'PAID'; branding: DisplayBranding; total: number; paid: number; change: number }
+  | { type: 'HELLO' }; // Sent by a display when it opens, asking the POS for the current cart
+
+/**
+ * Helper: Open the channel, or null where the browser has no BroadcastChannel
+ */
+export const openDisplayChannel = (): BroadcastChannel | null =>
+  typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+
+/**
+ * Helper: What the customer sees of the cart; cost, batch and override details stay on the cashier's side
+ */
+export const toDisplayCart = (items: CartItem[], totals: CartTotals, customer: Customer | null, pricesIncludeTax: boolean): DisplayCart => ({
+  lines: items.map(i => ({
+    nameEn: i.nameEn,
+    nameMm: i.nameMm,
+    quantity: i.quantity,
+    unit: i.packUnits?.length ? getUnitName(i.saleUnit || i.unit) : undefined,
+    price: i.price,
+    discount: lineDiscount(i),
+    amount: lineNet(i)
+  })),
+  customerName: customer?.name,
+  subtotal: totals.subtotal,
+  discountTotal: totals.discountTotal,
+  taxTotal: totals.taxTotal,
+  pricesIncludeTax,
+  total: totals.total
+});
+
+/**
+ * Helper: Shop name, branch and logo for the display header and idle screen
+ */
+export const toDisplayBranding = (shopName: string, branch?: Branch): DisplayBranding => ({
+  shopName,
+  branchName: branch?.name,
+  logoUrl: branch?.logoUrl
+});
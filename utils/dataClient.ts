@@ -0,0 +1,54 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../amplify/data/resource';
+import { isZawgyi, zawgyiToUnicode } from './myanmar';
+
+// One Amplify Data client for every page that reads or writes backend models
+export const client = generateClient<Schema>();
+
+// Backend product fields that hold free text
+const PRODUCT_TEXT_FIELDS = ['name', 'myanmarName', 'description'] as const;
+
+export interface ProductTextFix {
+  id: string;
+  name: string;
+  changes: { field: typeof PRODUCT_TEXT_FIELDS[number]; from: string; to: string }[];
+}
+
+/**
+ * Backend products whose text looks like Zawgyi, with the Unicode it would become.
+ * Nothing is written; the list is shown for review before applyProductTextFixes.
+ */
+export const findZawgyiProducts = async (): Promise<ProductTextFix[]> => {
+  const fixes: ProductTextFix[] = [];
+  let nextToken: string | null | undefined;
+  do {
+    const page = await client.models.Product.list({ nextToken });
+    page.data.forEach(product => {
+      const changes = PRODUCT_TEXT_FIELDS.flatMap(field => {
+        const from = product[field] || '';
+        return isZawgyi(from) ? [{ field, from, to: zawgyiToUnicode(from) }] : [];
+      });
+      if (changes.length > 0) fixes.push({ id: product.id, name: product.name, changes });
+    });
+    nextToken = page.nextToken;
+  } while (nextToken);
+  return fixes;
+};
+
+/**
+ * Write reviewed fixes to the backend one product at a time.
+ * Returns the products that could not be updated, with the reason.
+ */
+export const applyProductTextFixes = async (fixes: ProductTextFix[]): Promise<{ name: string; error: string }[]> => {
+  const failed: { name: string; error: string }[] = [];
+  for (const fix of fixes) {
+    try {
+      const updates = Object.fromEntries(fix.changes.map(c => [c.field, c.to]));
+      const { errors } = await client.models.Product.update({ id: fix.id, ...updates });
+      if (errors) failed.push({ name: fix.name, error: errors.map(e => e.message).join('; ') });
+    } catch (e) {
+      failed.push({ name: fix.name, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return failed;
+};
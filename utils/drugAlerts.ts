@@ -0,0 +1,59 @@
+import { AlertSeverity, CartItem, DrugAlert, InteractionRule } from '../types';
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { MAJOR: 0, MODERATE: 1, MINOR: 2 };
+
+/**
+ * Helper: Active ingredients of a product, lower-cased.
+ * Combination products list theirs in genericName, e.g. "Paracetamol + Caffeine".
+ */
+export const getIngredients = (product: Pick<CartItem, 'genericName'>): string[] =>
+  (product.genericName || '')
+    .split(/\s*(?:\+|,|\/|&|\band\b)\s*/i)
+    .map(g => g.trim().toLowerCase())
+    .filter(Boolean);
+
+const titleCase = (generic: string) => generic.replace(/\b\w/g, c => c.toUpperCase());
+
+/**
+ * Duplicate-therapy and interaction alerts for the cart, most severe first.
+ * Lines of the same product (other batches or units) never alert against each other, and a
+ * combination product is not flagged for an interaction between its own ingredients.
+ */
+export const checkDrugAlerts = (items: CartItem[], rules: InteractionRule[], duplicateSeverity: AlertSeverity): DrugAlert[] => {
+  const products = Array.from(new Map(items.map(i => [i.id, i])).values());
+  const byIngredient = new Map<string, CartItem[]>();
+  products.forEach(p => getIngredients(p).forEach(g => byIngredient.set(g, [...(byIngredient.get(g) || []), p])));
+
+  const alerts: DrugAlert[] = [];
+  const productKey = (list: CartItem[]) => list.map(p => p.id).sort().join('|');
+
+  byIngredient.forEach((list, generic) => {
+    if (list.length < 2) return;
+    alerts.push({
+      key: `DUPLICATE:${generic}:${productKey(list)}`,
+      type: 'DUPLICATE',
+      severity: duplicateSeverity,
+      generics: [titleCase(generic)],
+      productNames: list.map(p => p.nameEn),
+      message: `${list.length} products contain ${titleCase(generic)}. Check the combined dose.`
+    });
+  });
+
+  rules.forEach(rule => {
+    const withA = byIngredient.get(rule.genericA.trim().toLowerCase()) || [];
+    const withB = byIngredient.get(rule.genericB.trim().toLowerCase()) || [];
+    const involved = [...withA, ...withB].filter((p, idx, all) => all.indexOf(p) === idx);
+    const separateProducts = withA.some(a => withB.some(b => b.id !== a.id));
+    if (!separateProducts) return;
+    alerts.push({
+      key: `INTERACTION:${rule.id}:${productKey(involved)}`,
+      type: 'INTERACTION',
+      severity: rule.severity,
+      generics: [rule.genericA, rule.genericB],
+      productNames: involved.map(p => p.nameEn),
+      message: rule.note || `${rule.genericA} interacts with ${rule.genericB}.`
+    });
+  });
+
+  return alerts.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+};
@@ -25,69 +25,315 @@ export interface GS1ParsedData {
   rawData: string;
 }
 
+// Character sets from the GS1 General Specifications: N numeric, X = CSET 82, Y = CSET 39, Z = CSET 64 (file-safe base64)
+type GS1Charset = 'N' | 'X' | 'Y' | 'Z';
+
+const CHARSETS: Record<GS1Charset, RegExp> = {
+  N: /^[0-9]*$/,
+  X: /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]*$/,
+  Y: /^[#\-/0-9A-Z]*$/,
+  Z: /^[\-0-9A-Z_a-z]*={0,2}$/
+};
+
 interface AIRule {
   label: string;
-  fixedLength?: number;
-  maxLength?: number;
-  type: 'date' | 'string' | 'number' | 'weight';
+  format: string; // Data format as printed in the GS1 AI table, e.g. 'N14', 'X..20', 'N13+X..17'; [..] marks an optional part
+  type: 'date' | 'string' | 'number' | 'measure' | 'price';
+  check?: 'digit' | 'pair'; // Mod 10 check digit or GMN check character pair, on the first part of the data
   decimalPos?: number;
+  unit?: string;
 }
 
 /**
  * GS1 Application Identifier Dictionary
- * Comprehensive list for Pharmacy & Healthcare
+ * Every AI in the GS1 General Specifications; measure and price families are generated below
  */
 const AI_RULES: Record<string, AIRule> = {
-  '00': { label: 'SSCC (Serial Shipping Container Code)', fixedLength: 18, type: 'string' },
-  '01': { label: 'GTIN (Global Trade Item Number)', fixedLength: 14, type: 'string' },
-  '02': { label: 'GTIN of Content', fixedLength: 14, type: 'string' },
-  '10': { label: 'Batch/Lot Number', maxLength: 20, type: 'string' },
-  '11': { label: 'Production Date (YYMMDD)', fixedLength: 6, type: 'date' },
-  '12': { label: 'Due Date', fixedLength: 6, type: 'date' },
-  '13': { label: 'Packaging Date', fixedLength: 6, type: 'date' },
-  '15': { label: 'Best Before Date', fixedLength: 6, type: 'date' },
-  '17': { label: 'Expiration Date (YYMMDD)', fixedLength: 6, type: 'date' },
-  '20': { label: 'Internal Variant', fixedLength: 2, type: 'string' },
-  '21': { label: 'Serial Number', maxLength: 20, type: 'string' },
-  '30': { label: 'Variable Count', maxLength: 8, type: 'number' },
-  '37': { label: 'Count of Items', maxLength: 8, type: 'number' },
-  // 310x - Net Weight (kg) logic handled dynamically in parser, but listed for reference
-  '240': { label: 'Additional Product ID', maxLength: 30, type: 'string' },
-  '241': { label: 'Customer Part Number', maxLength: 30, type: 'string' },
-  '250': { label: 'Secondary Serial Number', maxLength: 30, type: 'string' },
-  '400': { label: 'Customer Purchase Order', maxLength: 30, type: 'string' },
-  '410': { label: 'Ship To - Deliver To GLN', fixedLength: 13, type: 'string' },
-  '420': { label: 'Ship To Postal Code', maxLength: 20, type: 'string' },
-  '710': { label: 'NHRN (National Healthcare Reimbursement No)', maxLength: 20, type: 'string' },
-  '711': { label: 'NHRN Discount', maxLength: 20, type: 'string' },
-  '712': { label: 'NHRN Region', maxLength: 20, type: 'string' },
-  '713': { label: 'NHRN Tax', maxLength: 20, type: 'string' },
-  '7003': { label: 'Expiration Time', fixedLength: 10, type: 'date' },
-  '8003': { label: 'GRAI (Global Returnable Asset Identifier)', maxLength: 30, type: 'string' },
-  '8006': { label: 'ITIP (Component/Part)', fixedLength: 18, type: 'string' },
-  '8010': { label: 'CPID (Component/Part Identifier)', maxLength: 30, type: 'string' },
+  '00': { label: 'SSCC (Serial Shipping Container Code)', format: 'N18', type: 'string', check: 'digit' },
+  '01': { label: 'GTIN (Global Trade Item Number)', format: 'N14', type: 'string', check: 'digit' },
+  '02': { label: 'GTIN of Content', format: 'N14', type: 'string', check: 'digit' },
+  '03': { label: 'GTIN of Made-to-Order Item', format: 'N14', type: 'string', check: 'digit' },
+  '10': { label: 'Batch/Lot Number', format: 'X..20', type: 'string' },
+  '11': { label: 'Production Date (YYMMDD)', format: 'N6', type: 'date' },
+  '12': { label: 'Due Date', format: 'N6', type: 'date' },
+  '13': { label: 'Packaging Date', format: 'N6', type: 'date' },
+  '15': { label: 'Best Before Date', format: 'N6', type: 'date' },
+  '16': { label: 'Sell By Date', format: 'N6', type: 'date' },
+  '17': { label: 'Expiration Date (YYMMDD)', format: 'N6', type: 'date' },
+  '20': { label: 'Internal Variant', format: 'N2', type: 'string' },
+  '21': { label: 'Serial Number', format: 'X..20', type: 'string' },
+  '22': { label: 'Consumer Product Variant', format: 'X..20', type: 'string' },
+  '235': { label: 'Third Party Controlled Serialised Extension (TPX)', format: 'X..28', type: 'string' },
+  '240': { label: 'Additional Product ID', format: 'X..30', type: 'string' },
+  '241': { label: 'Customer Part Number', format: 'X..30', type: 'string' },
+  '242': { label: 'Made-to-Order Variation Number', format: 'N..6', type: 'number' },
+  '243': { label: 'Packaging Component Number', format: 'X..20', type: 'string' },
+  '250': { label: 'Secondary Serial Number', format: 'X..30', type: 'string' },
+  '251': { label: 'Reference to Source Entity', format: 'X..30', type: 'string' },
+  '253': { label: 'GDTI (Global Document Type Identifier)', format: 'N13+X..17', type: 'string', check: 'digit' },
+  '254': { label: 'GLN Extension Component', format: 'X..20', type: 'string' },
+  '255': { label: 'GCN (Global Coupon Number)', format: 'N13+N..12', type: 'string', check: 'digit' },
+  '30': { label: 'Variable Count', format: 'N..8', type: 'number' },
+  '37': { label: 'Count of Items', format: 'N..8', type: 'number' },
+  '400': { label: 'Customer Purchase Order', format: 'X..30', type: 'string' },
+  '401': { label: 'GINC (Global Identification Number for Consignment)', format: 'X..30', type: 'string' },
+  '402': { label: 'GSIN (Global Shipment Identification Number)', format: 'N17', type: 'string', check: 'digit' },
+  '403': { label: 'Routing Code', format: 'X..30', type: 'string' },
+  '410': { label: 'Ship To - Deliver To GLN', format: 'N13', type: 'string', check: 'digit' },
+  '411': { label: 'Bill To - Invoice To GLN', format: 'N13', type: 'string', check: 'digit' },
+  '412': { label: 'Purchased From GLN', format: 'N13', type: 'string', check: 'digit' },
+  '413': { label: 'Ship For - Deliver For GLN', format: 'N13', type: 'string', check: 'digit' },
+  '414': { label: 'Physical Location GLN', format: 'N13', type: 'string', check: 'digit' },
+  '415': { label: 'Invoicing Party GLN', format: 'N13', type: 'string', check: 'digit' },
+  '416': { label: 'Production or Service Location GLN', format: 'N13', type: 'string', check: 'digit' },
+  '417': { label: 'Party GLN', format: 'N13', type: 'string', check: 'digit' },
+  '420': { label: 'Ship To Postal Code', format: 'X..20', type: 'string' },
+  '421': { label: 'Ship To Postal Code with Country', format: 'N3+X..9', type: 'string' },
+  '422': { label: 'Country of Origin', format: 'N3', type: 'string' },
+  '423': { label: 'Country of Initial Processing', format: 'N3+N..12', type: 'string' },
+  '424': { label: 'Country of Processing', format: 'N3', type: 'string' },
+  '425': { label: 'Country of Disassembly', format: 'N3+N..12', type: 'string' },
+  '426': { label: 'Country of Full Process Chain', format: 'N3', type: 'string' },
+  '427': { label: 'Country Subdivision of Origin', format: 'X..3', type: 'string' },
+  '4300': { label: 'Ship To Company Name', format: 'X..35', type: 'string' },
+  '4301': { label: 'Ship To Contact', format: 'X..35', type: 'string' },
+  '4302': { label: 'Ship To Address Line 1', format: 'X..70', type: 'string' },
+  '4303': { label: 'Ship To Address Line 2', format: 'X..70', type: 'string' },
+  '4304': { label: 'Ship To Suburb', format: 'X..70', type: 'string' },
+  '4305': { label: 'Ship To Locality', format: 'X..70', type: 'string' },
+  '4306': { label: 'Ship To Region', format: 'X..70', type: 'string' },
+  '4307': { label: 'Ship To Country Code', format: 'X2', type: 'string' },
+  '4308': { label: 'Ship To Telephone', format: 'X..30', type: 'string' },
+  '4309': { label: 'Ship To Geolocation', format: 'N20', type: 'string' },
+  '4310': { label: 'Return To Company Name', format: 'X..35', type: 'string' },
+  '4311': { label: 'Return To Contact', format: 'X..35', type: 'string' },
+  '4312': { label: 'Return To Address Line 1', format: 'X..70', type: 'string' },
+  '4313': { label: 'Return To Address Line 2', format: 'X..70', type: 'string' },
+  '4314': { label: 'Return To Suburb', format: 'X..70', type: 'string' },
+  '4315': { label: 'Return To Locality', format: 'X..70', type: 'string' },
+  '4316': { label: 'Return To Region', format: 'X..70', type: 'string' },
+  '4317': { label: 'Return To Country Code', format: 'X2', type: 'string' },
+  '4318': { label: 'Return To Postal Code', format: 'X..20', type: 'string' },
+  '4319': { label: 'Return To Telephone', format: 'X..30', type: 'string' },
+  '4320': { label: 'Service Code Description', format: 'X..35', type: 'string' },
+  '4321': { label: 'Dangerous Goods Flag', format: 'N1', type: 'number' },
+  '4322': { label: 'Authority to Leave Flag', format: 'N1', type: 'number' },
+  '4323': { label: 'Signature Required Flag', format: 'N1', type: 'number' },
+  '4324': { label: 'Not Before Delivery Date/Time', format: 'N10', type: 'string' },
+  '4325': { label: 'Not After Delivery Date/Time', format: 'N10', type: 'string' },
+  '4326': { label: 'Release Date', format: 'N6', type: 'date' },
+  '4330': { label: 'Maximum Temperature (°F)', format: 'N6+[X1]', type: 'string' },
+  '4331': { label: 'Maximum Temperature (°C)', format: 'N6+[X1]', type: 'string' },
+  '4332': { label: 'Minimum Temperature (°F)', format: 'N6+[X1]', type: 'string' },
+  '4333': { label: 'Minimum Temperature (°C)', format: 'N6+[X1]', type: 'string' },
+  '7001': { label: 'NATO Stock Number', format: 'N13', type: 'string' },
+  '7002': { label: 'UNECE Meat Carcasses and Cuts Classification', format: 'X..30', type: 'string' },
+  '7003': { label: 'Expiration Time', format: 'N10', type: 'date' },
+  '7004': { label: 'Active Potency', format: 'N..4', type: 'number' },
+  '7005': { label: 'Catch Area', format: 'X..12', type: 'string' },
+  '7006': { label: 'First Freeze Date', format: 'N6', type: 'date' },
+  '7007': { label: 'Harvest Date', format: 'N6..12', type: 'date' },
+  '7008': { label: 'Species for Fishery Purposes', format: 'X..3', type: 'string' },
+  '7009': { label: 'Fishing Gear Type', format: 'X..10', type: 'string' },
+  '7010': { label: 'Production Method', format: 'X..2', type: 'string' },
+  '7011': { label: 'Test by Date', format: 'N6+[N4]', type: 'date' },
+  '7020': { label: 'Refurbishment Lot ID', format: 'X..20', type: 'string' },
+  '7021': { label: 'Functional Status', format: 'X..20', type: 'string' },
+  '7022': { label: 'Revision Status', format: 'X..20', type: 'string' },
+  '7023': { label: 'GIAI of an Assembly', format: 'X..30', type: 'string' },
+  '7040': { label: 'GS1 UIC with Extension 1 and Importer Index', format: 'N1+X3', type: 'string' },
+  '7041': { label: 'UN/CEFACT Freight Unit Type', format: 'X..4', type: 'string' },
+  '710': { label: 'NHRN Germany (PZN)', format: 'X..20', type: 'string' },
+  '711': { label: 'NHRN France (CIP)', format: 'X..20', type: 'string' },
+  '712': { label: 'NHRN Spain (CN)', format: 'X..20', type: 'string' },
+  '713': { label: 'NHRN Brazil (DRN)', format: 'X..20', type: 'string' },
+  '714': { label: 'NHRN Portugal (AIM)', format: 'X..20', type: 'string' },
+  '715': { label: 'NHRN United States (NDC)', format: 'X..20', type: 'string' },
+  '716': { label: 'NHRN Italy (AIC)', format: 'X..20', type: 'string' },
+  '7240': { label: 'Protocol ID', format: 'X..20', type: 'string' },
+  '7241': { label: 'AIDC Media Type', format: 'N2', type: 'string' },
+  '7242': { label: 'Version Control Number', format: 'X..25', type: 'string' },
+  '7250': { label: 'Date of Birth (YYYYMMDD)', format: 'N8', type: 'string' },
+  '7251': { label: 'Date and Time of Birth', format: 'N12', type: 'string' },
+  '7252': { label: 'Biological Sex', format: 'N1', type: 'number' },
+  '7253': { label: 'Family Name', format: 'X..40', type: 'string' },
+  '7254': { label: 'Given Name', format: 'X..40', type: 'string' },
+  '7255': { label: 'Name Suffix', format: 'X..10', type: 'string' },
+  '7256': { label: 'Full Name', format: 'X..90', type: 'string' },
+  '7257': { label: 'Address', format: 'X..70', type: 'string' },
+  '7258': { label: 'Baby Birth Sequence Indicator', format: 'N1+X1+N1', type: 'string' },
+  '7259': { label: 'Baby of Family Name', format: 'X..40', type: 'string' },
+  '8001': { label: 'Roll Products (Width, Length, Diameter, Direction, Splices)', format: 'N14', type: 'string' },
+  '8002': { label: 'Cellular Mobile Telephone Identifier', format: 'X..20', type: 'string' },
+  '8003': { label: 'GRAI (Global Returnable Asset Identifier)', format: 'N14+X..16', type: 'string', check: 'digit' },
+  '8004': { label: 'GIAI (Global Individual Asset Identifier)', format: 'X..30', type: 'string' },
+  '8005': { label: 'Price per Unit of Measure', format: 'N6', type: 'number' },
+  '8006': { label: 'ITIP (Component/Part)', format: 'N14+N2+N2', type: 'string', check: 'digit' },
+  '8007': { label: 'IBAN (International Bank Account Number)', format: 'X..34', type: 'string' },
+  '8008': { label: 'Date and Time of Production', format: 'N8+N..4', type: 'string' },
+  '8009': { label: 'Optically Readable Sensor Indicator', format: 'X..50', type: 'string' },
+  '8010': { label: 'CPID (Component/Part Identifier)', format: 'Y..30', type: 'string' },
+  '8011': { label: 'CPID Serial Number', format: 'N..12', type: 'string' },
+  '8012': { label: 'Software Version', format: 'X..20', type: 'string' },
+  '8013': { label: 'GMN (Global Model Number)', format: 'X..25', type: 'string', check: 'pair' },
+  '8014': { label: 'MUDI (Highly Individualised Device Registration ID)', format: 'X..25', type: 'string', check: 'pair' },
+  '8017': { label: 'GSRN of Service Provider', format: 'N18', type: 'string', check: 'digit' },
+  '8018': { label: 'GSRN of Service Recipient', format: 'N18', type: 'string', check: 'digit' },
+  '8019': { label: 'Service Relation Instance Number', format: 'N..10', type: 'string' },
+  '8020': { label: 'Payment Slip Reference Number', format: 'X..25', type: 'string' },
+  '8026': { label: 'ITIP of Contained Trade Items', format: 'N14+N2+N2', type: 'string', check: 'digit' },
+  '8030': { label: 'Digital Signature', format: 'Z..90', type: 'string' },
+  '8110': { label: 'Coupon Code (North America)', format: 'X..70', type: 'string' },
+  '8111': { label: 'Loyalty Points of a Coupon', format: 'N4', type: 'number' },
+  '8112': { label: 'Paperless Coupon Code (North America)', format: 'X..70', type: 'string' },
+  '8200': { label: 'Extended Packaging URL', format: 'X..70', type: 'string' },
+  '90': { label: 'Mutually Agreed Information', format: 'X..30', type: 'string' },
 };
 
 /**
- * Generate rules for weight AIs (3100-3105, etc)
+ * Generate the numbered AI families: 7030-7039 processors, 7230-7239 certifications and 91-99 company internal
  */
-for (let i = 0; i <= 5; i++) {
-  AI_RULES[`310${i}`] = { label: 'Net Weight (kg)', fixedLength: 6, type: 'weight', decimalPos: i };
-  AI_RULES[`320${i}`] = { label: 'Net Weight (lb)', fixedLength: 6, type: 'weight', decimalPos: i };
+for (let i = 0; i <= 9; i++) {
+  AI_RULES[`703${i}`] = { label: `Approval Number of Processor ${i}`, format: 'N3+X..27', type: 'string' };
+  AI_RULES[`723${i}`] = { label: `Certification Reference ${i}`, format: 'X2+X..28', type: 'string' };
+  if (i > 0) AI_RULES[`9${i}`] = { label: 'Company Internal Information', format: 'X..90', type: 'string' };
 }
 
+// Measure AIs 31nn-36nn: the fourth digit is the number of decimal places in the six-digit value
+const MEASURES: [string, string, string][] = [
+  ['310', 'Net Weight', 'kg'], ['311', 'Length', 'm'], ['312', 'Width', 'm'], ['313', 'Depth', 'm'],
+  ['314', 'Area', 'm²'], ['315', 'Net Volume', 'l'], ['316', 'Net Volume', 'm³'],
+  ['320', 'Net Weight', 'lb'], ['321', 'Length', 'in'], ['322', 'Length', 'ft'], ['323', 'Length', 'yd'],
+  ['324', 'Width', 'in'], ['325', 'Width', 'ft'], ['326', 'Width', 'yd'],
+  ['327', 'Depth', 'in'], ['328', 'Depth', 'ft'], ['329', 'Depth', 'yd'],
+  ['330', 'Gross Weight', 'kg'], ['331', 'Logistic Length', 'm'], ['332', 'Logistic Width', 'm'], ['333', 'Logistic Depth', 'm'],
+  ['334', 'Logistic Area', 'm²'], ['335', 'Logistic Volume', 'l'], ['336', 'Logistic Volume', 'm³'], ['337', 'Weight per Area', 'kg/m²'],
+  ['340', 'Gross Weight', 'lb'], ['341', 'Logistic Length', 'in'], ['342', 'Logistic Length', 'ft'], ['343', 'Logistic Length', 'yd'],
+  ['344', 'Logistic Width', 'in'], ['345', 'Logistic Width', 'ft'], ['346', 'Logistic Width', 'yd'],
+  ['347', 'Logistic Depth', 'in'], ['348', 'Logistic Depth', 'ft'], ['349', 'Logistic Depth', 'yd'],
+  ['350', 'Area', 'in²'], ['351', 'Area', 'ft²'], ['352', 'Area', 'yd²'],
+  ['353', 'Logistic Area', 'in²'], ['354', 'Logistic Area', 'ft²'], ['355', 'Logistic Area', 'yd²'],
+  ['356', 'Net Weight', 'troy oz'], ['357', 'Net Weight or Volume', 'oz'],
+  ['360', 'Net Volume', 'qt'], ['361', 'Net Volume', 'gal'], ['362', 'Logistic Volume', 'qt'], ['363', 'Logistic Volume', 'gal'],
+  ['364', 'Net Volume', 'in³'], ['365', 'Net Volume', 'ft³'], ['366', 'Net Volume', 'yd³'],
+  ['367', 'Logistic Volume', 'in³'], ['368', 'Logistic Volume', 'ft³'], ['369', 'Logistic Volume', 'yd³']
+];
+
+MEASURES.forEach(([prefix, label, unit]) => {
+  for (let i = 0; i <= 5; i++) {
+    AI_RULES[`${prefix}${i}`] = { label: `${label} (${unit})`, format: 'N6', type: 'measure', decimalPos: i, unit };
+  }
+});
+
 /**
- * Helper: Validate GTIN Check Digit
+ * Generate price AIs 390n-395n; 391n and 393n carry an ISO 4217 currency code before the amount
+ */
+for (let i = 0; i <= 9; i++) {
+  AI_RULES[`390${i}`] = { label: 'Amount Payable', format: 'N..15', type: 'price', decimalPos: i };
+  AI_RULES[`391${i}`] = { label: 'Amount Payable with Currency', format: 'N3+N..15', type: 'price', decimalPos: i };
+  AI_RULES[`392${i}`] = { label: 'Amount Payable (Variable Measure Item)', format: 'N..15', type: 'price', decimalPos: i };
+  AI_RULES[`393${i}`] = { label: 'Amount Payable with Currency (Variable Measure Item)', format: 'N3+N..15', type: 'price', decimalPos: i };
+  if (i <= 3) AI_RULES[`394${i}`] = { label: 'Percentage Discount of a Coupon', format: 'N4', type: 'price', decimalPos: i, unit: '%' };
+  if (i <= 5) AI_RULES[`395${i}`] = { label: 'Amount Payable per Unit of Measure', format: 'N6', type: 'price', decimalPos: i };
+}
+
+/**
+ * AIs whose element length is predefined by their first two digits (GS1 General Specifications, figure 5.10.1-2).
+ * Lengths include the AI. Only these may be followed by another element without an FNC1 separator;
+ * every other AI, even one with fixed-length data, must be terminated with FNC1 unless it ends the barcode.
+ */
+const PREDEFINED_LENGTHS: Record<string, number> = {
+  '00': 20, '01': 16, '02': 16, '03': 16, '04': 18,
+  '11': 8, '12': 8, '13': 8, '14': 8, '15': 8, '16': 8, '17': 8, '18': 8, '19': 8,
+  '20': 4, '31': 10, '32': 10, '33': 10, '34': 10, '35': 10, '36': 10, '41': 16
+};
+
+// AI length by its first two digits, so an element whose AI is missing from the table can still be stepped over
+const AI_LENGTHS: [RegExp, number][] = [
+  [/^(0\d|1\d|2[0-2]|30|37|9\d)/, 2],
+  [/^(2[3-9]|4[0-24-9]|71)/, 3],
+  [/^(3[1-689]|43|7[02-9]|8[0-2])/, 4]
+];
+
+const GS = String.fromCharCode(29); // FNC1 as transmitted by the scanner
+
+// Characters of CSET 82 and CSET 32, indexed for the GMN check character pair
+const CSET82 = '!"%&\'()*+,-./0123456789:;<=>?ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz';
+const CSET32 = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+const PRIMES = [2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41, 43, 47, 53, 59, 61, 67, 71, 73, 79, 83];
+
+interface FormatPart {
+  charset: GS1Charset;
+  min: number;
+  max: number;
+  optional: boolean;
+}
+
+// 'N13+X..17' -> [{ N, 13, 13 }, { X, 1, 17 }]; 'N6..12' -> [{ N, 6, 12 }]
+const parseFormat = (format: string): FormatPart[] =>
+  format.split('+').map(part => {
+    const optional = part.startsWith('[');
+    const [, charset, min, max] = part.match(/^\[?([NXYZ])(\d*)(?:\.\.(\d+))?\]?$/)!;
+    return {
+      charset: charset as GS1Charset,
+      min: min && max ? parseInt(min) : max ? 1 : parseInt(min),
+      max: parseInt(max || min),
+      optional
+    };
+  });
+
+const getMaxLength = (rule: AIRule) => parseFormat(rule.format).reduce((sum, part) => sum + part.max, 0);
+
+/**
+ * Helper: Length of the AI at the start of a GS1 element string, from its first two digits
+ */
+const getAILength = (stream: string): number | undefined =>
+  AI_LENGTHS.find(([prefix]) => prefix.test(stream))?.[1];
+
+/**
+ * Helper: Validate a mod 10 check digit (GTIN, SSCC, GLN, GSRN and the other numeric keys)
+ */
+export const validateCheckDigit = (digits: string): boolean => {
+  if (!digits || digits.length < 2 || !/^\d+$/.test(digits)) return false;
+  const values = digits.split('').map(Number);
+  const checkDigit = values.pop()!;
+  const sum = values.reverse().reduce((acc, digit, index) => acc + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return checkDigit === (10 - (sum % 10)) % 10;
+};
+
+/**
+ * Helper: Validate the two check characters ending a GMN (AI 8013) or MUDI (AI 8014)
  */
-export const validateGTIN = (gtin: string): boolean => {
-  if (!gtin || gtin.length !== 14 || !/^\d+$/.test(gtin)) return false;
-  const digits = gtin.split('').map(Number);
-  const checkDigit = digits.pop()!;
-  const sum = digits.reverse().reduce((acc, digit, index) => acc + digit * (index % 2 === 0 ? 3 : 1), 0);
-  const nearestTen = Math.ceil(sum / 10) * 10;
-  return checkDigit === (nearestTen - sum);
+export const validateCheckPair = (value: string): boolean => {
+  const data = value.slice(0, -2);
+  if (data.length < 1 || data.length > PRIMES.length) return false;
+  const sum = data.split('').reduce((acc, char, index) => acc + CSET82.indexOf(char) * PRIMES[data.length - 1 - index], 0) % 1021;
+  return value.slice(-2) === CSET32[sum >> 5] + CSET32[sum & 31];
 };
 
+/**
+ * Helper: Problem with an element's data against its AI format, or '' when it conforms
+ */
+const checkFormat = (rule: AIRule, value: string): string => {
+  let pos = 0;
+  for (const part of parseFormat(rule.format)) {
+    const remaining = value.length - pos;
+    if (remaining === 0 && part.optional) break;
+    const length = part.min === part.max ? part.max : Math.min(remaining, part.max);
+    const piece = value.substring(pos, pos + length);
+    if (piece.length < part.min) return 'is too short';
+    if (!CHARSETS[part.charset].test(piece)) return part.charset === 'N' ? 'must be numeric' : 'contains characters not allowed by GS1';
+    pos += length;
+  }
+  return pos < value.length ? 'is too long' : '';
+};
+
+/**
+ * Helper: Validate GTIN Check Digit
+ */
+export const validateGTIN = (gtin: string): boolean =>
+  !!gtin && gtin.length === 14 && validateCheckDigit(gtin);
+
 /**
  * Helper: Parse GS1 Date (YYMMDD) to ISO
  */
@@ -193,66 +439,15 @@ export const parseBarcode = (input: string): GS1ParsedData => {
     }
   } else {
     // FNC1 / Raw Stream Parsing
-    // Sort AIs by length descending to prevent partial matching (e.g. match 400 before 40)
-    const aiKeys = Object.keys(AI_RULES).sort((a, b) => b.length - a.length);
+    // The AI's first two digits give its length; the predefined-length table says whether the element
+    // is fixed or runs to the next FNC1. AIs missing from the table are kept and stepped over.
+    stream = stream.replace(/^\x1D+/, '');
 
     let loopSafety = 0;
     while (stream.length > 0 && loopSafety < 50) {
       loopSafety++;
-      let aiFound = false;
-
-      for (const ai of aiKeys) {
-        if (stream.startsWith(ai)) {
-          const rule = AI_RULES[ai];
-          let value = '';
-          let nextStream = '';
-
-          if (rule.fixedLength) {
-             if (stream.length >= ai.length + rule.fixedLength) {
-               value = stream.substring(ai.length, ai.length + rule.fixedLength);
-               nextStream = stream.substring(ai.length + rule.fixedLength);
-             } else {
-               break; // Stream too short for this fixed AI
-             }
-          } else if (rule.maxLength) {
-             // Variable Length
-             const rawVal = stream.substring(ai.length);
-             const gsIndex = rawVal.indexOf(String.fromCharCode(29)); // FNC1
-             
-             if (gsIndex !== -1) {
-                 value = rawVal.substring(0, gsIndex);
-                 nextStream = rawVal.substring(gsIndex + 1);
-             } else {
-                 // No Separator: greedy capture up to maxLength, or end of string
-                 // Note: If this is the last element, take it all.
-                 // If there are more elements but no FNC1, valid GS1 requires fixed length preceding variable.
-                 // If variable is last, it takes rest.
-                 // However, "Greedy" parsing without FNC1 is risky. We limit to maxLength.
-                 
-                 if (rawVal.length <= rule.maxLength) {
-                     value = rawVal;
-                     nextStream = '';
-                 } else {
-                     // Try to match next AI? Heuristic needed here if FNC1 missing.
-                     // For this engine, we assume strict GS1 compliance or end of stream.
-                     value = rawVal.substring(0, rule.maxLength);
-                     nextStream = rawVal.substring(rule.maxLength);
-                     warnings.push(`Variable length AI (${ai}) matched max length without FNC1 separator. Check data integrity.`);
-                 }
-             }
-          }
-
-          if (value) {
-            processAI(ai, value, result, warnings);
-            stream = nextStream;
-            aiFound = true;
-          }
-          break; // Break inner loop, match found
-        }
-      }
-
-      if (!aiFound) {
-         // Skip unrecognized char or terminate
+      const aiLength = getAILength(stream);
+      if (!aiLength || stream.length <= aiLength) {
          // Often garbage data follows valid data in some scans
          if (Object.keys(result.elements).length > 0) {
             warnings.push(`Unparsed trailing data: ${stream}`);
@@ -261,6 +456,40 @@ export const parseBarcode = (input: string): GS1ParsedData => {
          }
          break;
       }
+
+      const ai = stream.substring(0, aiLength);
+      const rule = AI_RULES[ai];
+      const predefinedLength = PREDEFINED_LENGTHS[ai.substring(0, 2)];
+      let value = '';
+      let nextStream = '';
+
+      if (predefinedLength) {
+         value = stream.substring(aiLength, predefinedLength);
+         nextStream = stream.substring(predefinedLength);
+         // A redundant FNC1 after a predefined-length element is allowed
+         if (nextStream.startsWith(GS)) nextStream = nextStream.substring(1);
+      } else {
+         // Variable length, or fixed length outside the predefined table: runs to FNC1 or the end of the data
+         const rawVal = stream.substring(aiLength);
+         const gsIndex = rawVal.indexOf(GS);
+         const maxLength = rule ? getMaxLength(rule) : rawVal.length;
+
+         if (gsIndex !== -1 && gsIndex <= maxLength) {
+             value = rawVal.substring(0, gsIndex);
+             nextStream = rawVal.substring(gsIndex + 1);
+         } else if (rawVal.length <= maxLength) {
+             value = rawVal;
+             nextStream = '';
+         } else {
+             // For this engine, we assume strict GS1 compliance; a missing FNC1 is cut at max length
+             value = rawVal.substring(0, maxLength);
+             nextStream = rawVal.substring(maxLength);
+             warnings.push(`AI (${ai}) matched max length without FNC1 separator. Check data integrity.`);
+         }
+      }
+
+      processAI(ai, value, result, warnings);
+      stream = nextStream;
     }
   }
 
@@ -318,15 +547,27 @@ export const parseBarcode = (input: string): GS1ParsedData => {
  */
 const processAI = (ai: string, value: string, result: GS1ParsedData, warnings: string[]) => {
   const rule = AI_RULES[ai];
+
+  if (!rule) {
+    warnings.push(`Unknown AI (${ai}) skipped.`);
+    result.elements[ai] = { ai, label: 'Unknown AI', value, rawValue: value, isValid: false };
+    return;
+  }
+
   let isValid = true;
   let formattedValue = value;
 
-  if (!rule) return;
-
-  // Specific Validation
-  if (ai === '01' || ai === '02') {
-     isValid = validateGTIN(value);
+  // Format, character set and check character validation
+  const formatProblem = checkFormat(rule, value);
+  if (formatProblem) {
+     isValid = false;
+     warnings.push(`AI (${ai}) ${formatProblem}.`);
+  } else if (rule.check === 'digit') {
+     isValid = validateCheckDigit(value.substring(0, parseFormat(rule.format)[0].max));
      if (!isValid) warnings.push(`Invalid Check Digit for AI (${ai})`);
+  } else if (rule.check === 'pair') {
+     isValid = validateCheckPair(value);
+     if (!isValid) warnings.push(`Invalid Check Characters for AI (${ai})`);
   }
 
   if (rule.type === 'date') {
@@ -338,11 +579,11 @@ const processAI = (ai: string, value: string, result: GS1ParsedData, warnings: s
      }
   }
 
-  if (rule.type === 'weight' && rule.decimalPos !== undefined) {
-      const numVal = parseInt(value);
-      if (!isNaN(numVal)) {
-          formattedValue = (numVal / Math.pow(10, rule.decimalPos)).toFixed(rule.decimalPos) + ' kg';
-      }
+  if ((rule.type === 'measure' || rule.type === 'price') && isValid && rule.decimalPos !== undefined) {
+      // 391n and 393n start with the ISO 4217 currency code
+      const hasCurrency = ai.startsWith('391') || ai.startsWith('393');
+      const amount = (parseInt(value.substring(hasCurrency ? 3 : 0)) / Math.pow(10, rule.decimalPos)).toFixed(rule.decimalPos);
+      formattedValue = [hasCurrency ? value.substring(0, 3) : '', amount, rule.unit].filter(Boolean).join(' ');
   }
 
   result.elements[ai] = {
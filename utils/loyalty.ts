@@ -0,0 +1,64 @@
+import { CartItem, Customer, LoyaltyRules, LoyaltyTierRule, Sale, SaleReturn, Tender } from '../types';
+import { lineNet } from './pricing';
+
+const pointsTenderTotal = (tenders: Tender[]) =>
+  tenders.filter(t => t.method === 'POINTS').reduce((sum, t) => sum + t.amount, 0);
+
+/**
+ * Helper: Highest tier whose threshold the balance reaches
+ */
+export const getTierForPoints = (points: number, rules: LoyaltyRules): Customer['tier'] => {
+  const reached = [...rules.tiers]
+    .sort((a, b) => b.minPoints - a.minPoints)
+    .find(t => points >= t.minPoints);
+  return reached?.tier || 'Silver';
+};
+
+/**
+ * Helper: Earn rule for a tier, falling back to the base rate
+ */
+export const getTierRule = (tier: Customer['tier'], rules: LoyaltyRules): LoyaltyTierRule =>
+  rules.tiers.find(t => t.tier === tier) || { tier, minPoints: 0, earnMultiplier: 1 };
+
+/**
+ * Points earned on a sale.
+ * Only the part paid with money earns, and spend on excluded categories is left out in
+ * proportion to its share of the net line value.
+ */
+export const calculateEarnedPoints = (items: CartItem[], total: number, tenders: Tender[], tier: Customer['tier'], rules: LoyaltyRules): number => {
+  if (!rules.enabled || rules.kyatsPerPoint <= 0) return 0;
+
+  const linesTotal = items.reduce((sum, i) => sum + lineNet(i), 0);
+  const eligibleLines = items
+    .filter(i => !rules.excludedCategories.includes(i.category))
+    .reduce((sum, i) => sum + lineNet(i), 0);
+  if (linesTotal <= 0 || eligibleLines <= 0) return 0;
+
+  const paid = Math.max(0, total - pointsTenderTotal(tenders));
+  const eligibleSpend = paid * (eligibleLines / linesTotal);
+  return Math.floor((eligibleSpend / rules.kyatsPerPoint) * getTierRule(tier, rules).earnMultiplier);
+};
+
+/**
+ * Points to move back when part of a sale is refunded.
+ * Earned points are reversed for the money refunded; redeemed points come back for what the POINTS tender refunded.
+ */
+export const getReturnPointsAdjustment = (sale: Sale, refundTenders: Tender[], previousReturns: SaleReturn[]) => {
+  const earned = sale.pointsEarned || 0;
+  const redeemed = sale.pointsRedeemed || 0;
+  const alreadyReversed = previousReturns.reduce((sum, r) => sum + (r.pointsReversed || 0), 0);
+  const alreadyRestored = previousReturns.reduce((sum, r) => sum + (r.pointsRestored || 0), 0);
+
+  const salePoints = pointsTenderTotal(sale.tenders);
+  const salePaid = sale.total - salePoints;
+  const refundPoints = pointsTenderTotal(refundTenders);
+  const refundPaid = refundTenders.reduce((sum, t) => sum + t.amount, 0) - refundPoints;
+
+  const reversed = salePaid > 0 ? Math.round(earned * refundPaid / salePaid) : 0;
+  const restored = salePoints > 0 ? Math.round(redeemed * refundPoints / salePoints) : 0;
+
+  return {
+    reversed: Math.max(0, Math.min(reversed, earned - alreadyReversed)),
+    restored: Math.max(0, Math.min(restored, redeemed - alreadyRestored))
+  };
+};
@@ -0,0 +1,188 @@
+// Myanmar text helpers: Zawgyi detection and conversion, and a search key that ignores
+// the order marks were typed in. Zawgyi is the legacy font encoding many phones and keyboards
+// still use; it reuses Unicode code points with other meanings, so it must be converted, not just rendered.
+
+// Code points or sequences that only appear in Zawgyi-encoded Burmese
+const ZAWGYI_SIGNS = [
+  /[\u105A\u1060-\u1097]/,                  // Zawgyi stacked forms; Mon/Shan letters in Unicode, unused in Burmese
+  /[\u1033\u1034]/,                         // Zawgyi u / uu; Mon vowels in Unicode
+  /(^|[\s\u104A\u104B])[\u1031\u103B]/,     // Vowel E or ya-yit typed before its consonant
+  /\u1031[\u103B-\u103E]/,                  // Medial after vowel E
+  /\u1039(?![\u1000-\u1021])/               // Zawgyi asat; the Unicode virama is always followed by a consonant
+];
+
+/**
+ * Helper: Heuristic check for Zawgyi-encoded text. Unicode and non-Myanmar text return false.
+ */
+export const isZawgyi = (text: string): boolean =>
+  /[\u1000-\u109F]/.test(text) && ZAWGYI_SIGNS.some(sign => sign.test(text));
+
+// Zawgyi to Unicode rewrite rules, applied in order (after the Rabbit converter's rule set)
+const ZG_TO_UNI: [RegExp, string][] = ([
+  ['\u200B', ''],
+  ['(\u103D|\u1087)', '\u103E'],
+  ['\u103C', '\u103D'],
+  ['(\u103B|\u107E|\u107F|\u1080|\u1081|\u1082|\u1083|\u1084)', '\u103C'],
+  ['(\u103A|\u107D)', '\u103B'],
+  ['\u1039', '\u103A'],
+  ['(\u1066|\u1067)', '\u1039\u1006'],
+  ['\u106A', '\u1009'],
+  ['\u106B', '\u100A'],
+  ['\u106C', '\u1039\u100B'],
+  ['\u106D', '\u1039\u100C'],
+  ['\u106E', '\u100D\u1039\u100D'],
+  ['\u106F', '\u100D\u1039\u100E'],
+  ['\u1070', '\u1039\u100F'],
+  ['(\u1071|\u1072)', '\u1039\u1010'],
+  ['\u1060', '\u1039\u1000'],
+  ['\u1061', '\u1039\u1001'],
+  ['\u1062', '\u1039\u1002'],
+  ['\u1063', '\u1039\u1003'],
+  ['\u1065', '\u1039\u1005'],
+  ['\u1068', '\u1039\u1007'],
+  ['\u1069', '\u1039\u1008'],
+  ['(\u1073|\u1074)', '\u1039\u1011'],
+  ['\u1075', '\u1039\u1012'],
+  ['\u1076', '\u1039\u1013'],
+  ['\u1077', '\u1039\u1014'],
+  ['\u1078', '\u1039\u1015'],
+  ['\u1079', '\u1039\u1016'],
+  ['\u107A', '\u1039\u1017'],
+  ['\u107C', '\u1039\u1019'],
+  ['\u1085', '\u1039\u101C'],
+  ['\u1033', '\u102F'],
+  ['\u1034', '\u1030'],
+  ['\u103F', '\u1030'],
+  ['\u1086', '\u103F'],
+  ['\u1036\u1088', '\u1088\u1036'],
+  ['\u1088', '\u103E\u102F'],
+  ['\u1089', '\u103E\u1030'],
+  ['\u108A', '\u103D\u103E'],
+  ['\u103B\u1064', '\u1064\u103B'],
+  ['(\u1031)?([\u1000-\u1021])\u1064', '\u1004\u103A\u1039$1$2'],
+  ['(\u1031)?([\u1000-\u1021])\u108B', '\u1004\u103A\u1039$1$2\u102D'],
+  ['(\u1031)?([\u1000-\u1021])\u108C', '\u1004\u103A\u1039$1$2\u102E'],
+  ['(\u1031)?([\u1000-\u1021])\u108D', '\u1004\u103A\u1039$1$2\u1036'],
+  ['\u108E', '\u102D\u1036'],
+  ['\u108F', '\u1014'],
+  ['\u1090', '\u101B'],
+  ['\u1091', '\u100F\u1039\u100D'],
+  ['\u1092', '\u100B\u1039\u100C'],
+  ['\u1019\u102C(\u107B|\u1093)', '\u1019\u1039\u1018\u102C'],
+  ['(\u107B|\u1093)', '\u1039\u1018'],
+  ['(\u1094|\u1095)', '\u1037'],
+  ['([\u1000-\u1021])\u1037\u1032', '$1\u1032\u1037'],
+  ['\u1096', '\u1039\u1010\u103D'],
+  ['\u1097', '\u100B\u1039\u100B'],
+  ['\u103C([\u1000-\u1021])([\u1000-\u1021])?', '$1\u103C$2'],
+  ['([\u1000-\u1021])\u103C\u103A', '\u103C$1\u103A'],
+  ['\u1031\u1047', '\u1031\u101B'],
+  ['\u1040(\u102E|\u102F|\u102D\u102F|\u1030|\u1036|\u103D|\u103E)', '\u101D$1'],
+  ['([^\u1040-\u1049])\u1040\u102B', '$1\u101D\u102B'],
+  ['^\u1040(?=\u102B)', '\u101D'],
+  ['([^\u1040-\u1049])\u1040([^\u1040-\u1049 ]|[\u104A\u104B])', '$1\u101D$2'],
+  ['([^\u1040-\u1049])\u1040$', '$1\u101D'],
+  ['\u1031([\u1000-\u1021\u103F])(\u103E)?(\u103B)?', '$1$2$3\u1031'],
+  ['([\u1000-\u1021])\u1031([\u103B\u103C\u103D\u103E]+)', '$1$2\u1031'],
+  ['\u1032\u103D', '\u103D\u1032'],
+  ['([\u102D\u102E])\u103B', '\u103B$1'],
+  ['\u103D\u103B', '\u103B\u103D'],
+  ['\u103A\u1037', '\u1037\u103A'],
+  ['\u102F(\u102D|\u102E|\u1036|\u1037)\u102F', '\u102F$1'],
+  ['(\u102F|\u1030)(\u102D|\u102E)', '$2$1'],
+  ['(\u103E)(\u103B|\u103C)', '$2$1'],
+  ['\u1025(?=[\u1037]?[\u103A\u102C])', '\u1009'],
+  ['\u1025\u102E', '\u1026'],
+  ['\u1005\u103B', '\u1008'],
+  ['\u1036(\u102F|\u1030)', '$1\u1036'],
+  ['\u1031\u1037\u103E', '\u103E\u1031\u1037'],
+  ['\u1031\u103E\u102C', '\u103E\u1031\u102C'],
+  ['\u105A', '\u102B\u103A'],
+  ['\u1031\u103B\u103E', '\u103B\u103E\u1031'],
+  ['(\u102D|\u102E)(\u103D|\u103E)', '$2$1'],
+  ['\u102C\u1039([\u1000-\u1021])', '\u1039$1\u102C'],
+  ['\u103C\u1039([\u1000-\u1021])', '\u1039$1\u103C'],
+  ['\u1036\u1039([\u1000-\u1021])', '\u1039$1\u1036'],
+  ['\u104E', '\u104E\u1004\u103A\u1038'],
+  ['\u1040(\u102B|\u102C|\u1036)', '\u101D$1'],
+  ['\u1025\u1039', '\u1009\u1039'],
+  ['([\u1000-\u1021])\u103C\u1031\u103D', '$1\u103C\u103D\u1031'],
+  ['([\u1000-\u1021])\u103B\u1031\u103D(\u103E)?', '$1\u103B\u103D$2\u1031'],
+  ['([\u1000-\u1021])\u103D\u1031\u103B', '$1\u103B\u103D\u1031'],
+  ['([\u1000-\u1021])\u1031(\u1039[\u1000-\u1021])', '$1$2\u1031'],
+  ['\u1038\u103A', '\u103A\u1038'],
+  ['\u102D\u103A|\u103A\u102D', '\u102D'],
+  ['\u102D\u102F\u103A', '\u102D\u102F'],
+  [' \u1037', '\u1037'],
+  ['\u1037\u1036', '\u1036\u1037'],
+  ['\u102D+', '\u102D'],
+  ['\u103A+', '\u103A'],
+  ['\u103D+', '\u103D'],
+  ['\u1037+', '\u1037'],
+  ['\u102E+', '\u102E'],
+  ['\u102D\u102E|\u102E\u102D', '\u102E'],
+  ['\u102F\u102D', '\u102D\u102F'],
+  ['\u1032\u1032', '\u1032'],
+  ['\u1044\u1004\u103A\u1038', '\u104E\u1004\u103A\u1038'],
+  ['([\u102D\u102E])\u1039([\u1000-\u1021])', '\u1039$2$1'],
+  ['(\u103C\u1031)\u1039([\u1000-\u1021])', '\u1039$2$1'],
+  ['\u1036\u103D', '\u103D\u1036'],
+  ['\u1047(?=[\u102C-\u1030\u1032\u1036-\u1038\u103D])', '\u101B']
+] as [string, string][]).map(([from, to]) => [new RegExp(from, 'gm'), to]);
+
+/**
+ * Convert Zawgyi-encoded text to Unicode. Only for text detected as Zawgyi;
+ * running it over Unicode text scrambles it.
+ */
+export const zawgyiToUnicode = (text: string): string =>
+  ZG_TO_UNI.reduce((out, [from, to]) => out.replace(from, to), text);
+
+/**
+ * Helper: Unicode form of Myanmar text in either encoding; other text is returned unchanged
+ */
+export const toUnicode = (text: string): string => (isZawgyi(text) ? zawgyiToUnicode(text) : text);
+
+// Storage order of the marks after a consonant (UTN #11); 1039 + consonant stacks break a run
+const MARK_ORDER = '\u103B\u103C\u103D\u103E\u1031\u102D\u102E\u1032\u102F\u1030\u102B\u102C\u1036\u1037\u103A\u1038';
+const MARK_RUN = /[\u102B-\u1038\u103A-\u103E]{2,}/g;
+
+/**
+ * Search key for Myanmar text: Unicode, no zero-width characters, and the marks after each
+ * consonant in one fixed order, so a word gives the same key whatever order its marks were typed in.
+ * Digits typed for their look-alike letters (၀ for ဝ, ၇ for ရ) are read as the letters.
+ */
+export const normalizeMyanmar = (text: string): string =>
+  toUnicode(text)
+    .normalize('NFC')
+    .replace(/[\u200B-\u200D\uFEFF]/g, '')
+    .replace(/\u1040(?=[\u102B-\u103E])/g, '\u101D')
+    .replace(/\u1047(?=[\u102B-\u103E])/g, '\u101B')
+    .replace(/\u1025\u102E/g, '\u1026')
+    .replace(MARK_RUN, run => Array.from(run).sort((a, b) => MARK_ORDER.indexOf(a) - MARK_ORDER.indexOf(b)).join(''));
+
+/**
+ * Convert every Zawgyi string inside a value, walking objects and arrays.
+ * Returns the converted copy and how many strings changed; other values pass through untouched.
+ */
+export const repairZawgyi = <T>(value: T): { value: T; converted: number } => {
+  let converted = 0;
+  const walk = (v: any): any => {
+    if (typeof v === 'string') {
+      if (!isZawgyi(v)) return v;
+      converted++;
+      return zawgyiToUnicode(v);
+    }
+    if (Array.isArray(v)) return v.map(walk);
+    if (v && typeof v === 'object' && Object.getPrototypeOf(v) === Object.prototype) {
+      return Object.fromEntries(Object.entries(v).map(([k, item]) => [k, walk(item)]));
+    }
+    return v;
+  };
+  const result = walk(value);
+  return { value: result, converted };
+};
+
+/**
+ * Helper: Copy of a record with any Zawgyi text stored as Unicode, for saving form input
+ */
+export const toUnicodeDeep = <T>(value: T): T => repairZawgyi(value).value;
@@ -0,0 +1,28 @@
+import { DocumentType } from '../types';
+
+const LOCK_NAME = 'parami-document-numbering';
+
+/**
+ * Helper: Counter a document number is drawn from; null year when sequences never reset
+ */
+export const getSequenceKey = (branchId: string, docType: DocumentType, year: number | null) =>
+  `${branchId}|${docType}|${year ?? 'ALL'}`;
+
+/**
+ * Helper: Human-readable number, e.g. PARAMI-1/INV/2026/000123
+ */
+export const formatDocumentNumber = (branchCode: string, docType: DocumentType, year: number, sequence: number) =>
+  `${branchCode.toUpperCase()}/${docType}/${year}/${String(sequence).padStart(6, '0')}`;
+
+/**
+ * Run a task while holding the numbering lock, so two tabs on this machine never read the same counter.
+ * Browsers without the Web Locks API run it directly, which is still safe within a single tab.
+ */
+export const withNumberingLock = <T>(task: () => Promise<T> | T): Promise<T> => {
+  if (typeof navigator === 'undefined' || !navigator.locks) return Promise.resolve().then(task);
+  const locks = navigator.locks;
+  // The lock is held until the task settles
+  return new Promise<T>((resolve, reject) => {
+    locks.request(LOCK_NAME, () => Promise.resolve().then(task).then(resolve, reject));
+  });
+};
@@ -0,0 +1,23 @@
+import { PriceList, Product, ProductUnit } from '../types';
+import { getSellingUnits } from './units';
+
+/**
+ * Price of one selling unit under a price list, retail when there is no list.
+ * A fixed entry price is per base unit; pack units scale with it so they keep their own pack discount.
+ */
+export const getListPrice = (product: Product, unit: ProductUnit, priceList?: PriceList | null): number => {
+  if (!priceList) return unit.price;
+  const entry = priceList.entries.find(e => e.sku === product.sku);
+
+  if (entry?.price !== undefined) {
+    return product.price > 0 ? Math.round((unit.price * entry.price) / product.price) : entry.price * unit.factor;
+  }
+  const percent = Math.min(100, Math.max(0, entry?.percentOff ?? priceList.percentOff));
+  return Math.round((unit.price * (100 - percent)) / 100);
+};
+
+/**
+ * Helper: Base-unit price of a product under a price list
+ */
+export const getProductListPrice = (product: Product, priceList?: PriceList | null): number =>
+  getListPrice(product, getSellingUnits(product)[0], priceList);
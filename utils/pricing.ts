@@ -0,0 +1,140 @@
+import { AppliedPromotion, CartDiscount, CartItem, CartTotals, Customer, Promotion } from '../types';
+import { calculateLineTaxes, TaxSettings } from './tax';
+
+const todayISO = () => new Date().toISOString().split('T')[0];
+
+/**
+ * Helper: Ks amount of a cashier-entered discount, never more than the base it applies to
+ */
+export const discountAmount = (base: number, type: CartDiscount['type'] | undefined, value: number): number => {
+  if (!value || value <= 0) return 0;
+  const amount = type === 'PERCENT' ? (base * Math.min(value, 100)) / 100 : value;
+  return Math.min(base, Math.round(amount));
+};
+
+export const lineGross = (item: CartItem) => item.price * item.quantity;
+
+export const lineDiscount = (item: CartItem) => discountAmount(lineGross(item), item.discountType, item.discount);
+
+export const lineNet = (item: CartItem) => lineGross(item) - lineDiscount(item);
+
+/**
+ * Helper: Is the promotion running on the given date?
+ */
+export const isPromotionLive = (promo: Promotion, date: string = todayISO()): boolean => {
+  if (!promo.active) return false;
+  if (promo.startDate && date < promo.startDate) return false;
+  if (promo.endDate && date > promo.endDate) return false;
+  return true;
+};
+
+/**
+ * Promotions Engine
+ * Line promotions (buy X get Y, category %) are evaluated on each line after its manual discount;
+ * customer-tier promotions apply to what is left of the whole cart.
+ */
+export const applyPromotions = (items: CartItem[], promotions: Promotion[], customer?: Customer | null, date: string = todayISO()): AppliedPromotion[] => {
+  const applied: AppliedPromotion[] = [];
+  const live = promotions.filter(p => isPromotionLive(p, date));
+  const remainingByLine = new Map(items.map(i => [i.cartId, lineNet(i)]));
+
+  for (const promo of live) {
+    if (promo.type === 'BUY_X_GET_Y' && promo.buyQuantity && promo.freeQuantity) {
+      const bundle = promo.buyQuantity + promo.freeQuantity;
+      items.filter(i => i.id === promo.productId).forEach(item => {
+        const freeUnits = Math.floor(item.quantity / bundle) * promo.freeQuantity!;
+        const amount = Math.min(remainingByLine.get(item.cartId) || 0, freeUnits * item.price);
+        if (amount > 0) {
+          applied.push({ promotionId: promo.id, name: promo.name, cartId: item.cartId, amount });
+          remainingByLine.set(item.cartId, (remainingByLine.get(item.cartId) || 0) - amount);
+        }
+      });
+    }
+
+    if (promo.type === 'CATEGORY_PERCENT' && promo.percent) {
+      items.filter(i => i.category === promo.category).forEach(item => {
+        const remaining = remainingByLine.get(item.cartId) || 0;
+        const amount = Math.round((remaining * promo.percent!) / 100);
+        if (amount > 0) {
+          applied.push({ promotionId: promo.id, name: promo.name, cartId: item.cartId, amount });
+          remainingByLine.set(item.cartId, remaining - amount);
+        }
+      });
+    }
+  }
+
+  const cartRemaining = Array.from(remainingByLine.values()).reduce((sum, v) => sum + v, 0);
+  live
+    .filter(p => p.type === 'TIER_PERCENT' && p.percent && customer && p.tier === customer.tier)
+    .forEach(promo => {
+      const amount = Math.round((cartRemaining * promo.percent!) / 100);
+      if (amount > 0) applied.push({ promotionId: promo.id, name: promo.name, amount });
+    });
+
+  return applied;
+};
+
+const NO_TAX: TaxSettings = { pricesIncludeTax: true, defaultTaxRate: 0, taxRates: [] };
+
+/**
+ * What each line finally costs: its net after line promotions, less its share of the cart-wide
+ * reduction (tier promotions and the cart discount). The rounding remainder goes to the largest line.
+ */
+const finalLineAmounts = (items: CartItem[], applied: AppliedPromotion[], cartReduction: number): Map<string, number> => {
+  const amounts = new Map(items.map(i => [
+    i.cartId,
+    Math.max(0, lineNet(i) - applied.filter(p => p.cartId === i.cartId).reduce((sum, p) => sum + p.amount, 0))
+  ]));
+  const base = Array.from(amounts.values()).reduce((sum, v) => sum + v, 0);
+  if (base <= 0 || cartReduction <= 0) return amounts;
+
+  let spread = 0;
+  items.forEach(i => {
+    const share = Math.round((amounts.get(i.cartId)! * cartReduction) / base);
+    amounts.set(i.cartId, amounts.get(i.cartId)! - share);
+    spread += share;
+  });
+  const largest = items.reduce((a, b) => (amounts.get(b.cartId)! > amounts.get(a.cartId)! ? b : a));
+  amounts.set(largest.cartId, Math.max(0, amounts.get(largest.cartId)! - (cartReduction - spread)));
+  return amounts;
+};
+
+/**
+ * Full cart pricing: line discounts -> promotions -> cart discount -> tax
+ */
+export const calculateCartTotals = (
+  items: CartItem[],
+  cartDiscount: CartDiscount | null,
+  promotions: Promotion[],
+  customer?: Customer | null,
+  tax: TaxSettings = NO_TAX
+): CartTotals => {
+  const subtotal = items.reduce((sum, i) => sum + lineGross(i), 0);
+  const lineDiscountTotal = items.reduce((sum, i) => sum + lineDiscount(i), 0);
+  const applied = applyPromotions(items, promotions, customer);
+  const promotionDiscount = applied.reduce((sum, p) => sum + p.amount, 0);
+
+  const afterPromotions = Math.max(0, subtotal - lineDiscountTotal - promotionDiscount);
+  const cartDiscountAmount = cartDiscount ? discountAmount(afterPromotions, cartDiscount.type, cartDiscount.value) : 0;
+
+  const manualDiscount = lineDiscountTotal + cartDiscountAmount;
+  const discountTotal = manualDiscount + promotionDiscount;
+
+  const cartWidePromotions = applied.filter(p => !p.cartId).reduce((sum, p) => sum + p.amount, 0);
+  const taxes = calculateLineTaxes(items, finalLineAmounts(items, applied, cartWidePromotions + cartDiscountAmount), tax);
+  const taxTotal = taxes.reduce((sum, t) => sum + t.tax, 0);
+  const afterDiscounts = Math.max(0, subtotal - discountTotal);
+
+  return {
+    subtotal,
+    lineDiscount: lineDiscountTotal,
+    promotionDiscount,
+    cartDiscount: cartDiscountAmount,
+    discountTotal,
+    manualDiscountPercent: subtotal > 0 ? (manualDiscount / subtotal) * 100 : 0,
+    promotions: applied,
+    taxTotal,
+    taxes,
+    total: tax.pricesIncludeTax ? afterDiscounts : afterDiscounts + taxTotal
+  };
+};
@@ -0,0 +1,72 @@
+import { AppSettings, Branch, Quotation, Sale } from '../types';
+import { encodeEscPos, getReceiptPaper, renderQuotationHTML, renderReceiptHTML } from './receipt';
+
+/**
+ * Helper: Print an HTML document through a hidden iframe so the POS page stays put
+ */
+export const printHTML = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const doc = frame.contentWindow?.document;
+  if (!doc) {
+    frame.remove();
+    return;
+  }
+  doc.open();
+  doc.write(html);
+  doc.close();
+
+  // Give web fonts (Myanmar) a moment to load before the dialog snapshots the page
+  setTimeout(() => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  }, 250);
+};
+
+/**
+ * Send raw ESC/POS bytes to a USB/serial receipt printer via the Web Serial API.
+ * Resolves false when the browser has no serial support or the user declines a port.
+ */
+export const sendEscPos = async (bytes: Uint8Array): Promise<boolean> => {
+  const serial = (navigator as any).serial;
+  if (!serial) return false;
+
+  try {
+    const ports = await serial.getPorts();
+    const port = ports[0] || await serial.requestPort();
+    await port.open({ baudRate: 9600 });
+    const writer = port.writable.getWriter();
+    await writer.write(bytes);
+    writer.releaseLock();
+    await port.close();
+    return true;
+  } catch (e) {
+    console.error('ESC/POS print failed', e);
+    return false;
+  }
+};
+
+/**
+ * Print a sale with the Printing & POS settings.
+ * Thermal printers get ESC/POS; A4, "System Default" or a failed serial write use the browser print view.
+ */
+export const printReceipt = async (sale: Sale, settings: AppSettings, branch?: Branch) => {
+  const options = { settings, branch };
+  const useEscPos = settings.defaultPrinter !== 'System Default' && getReceiptPaper(settings.paperSize) !== 'A4';
+
+  if (useEscPos && await sendEscPos(encodeEscPos(sale, options))) return;
+  printHTML(renderReceiptHTML(sale, options));
+};
+
+/**
+ * Print a quotation through the browser print view; it is handed to the customer, so no cash drawer kick
+ */
+export const printQuotation = (quotation: Quotation, settings: AppSettings, branch?: Branch) => {
+  printHTML(renderQuotationHTML(quotation, { settings, branch }));
+};
@@ -0,0 +1,87 @@
+import { CartItem, LimitApproval, QuantityLimit, Sale, SaleReturn } from '../types';
+import { toBaseQuantity } from './units';
+
+export interface LimitViolation {
+  limit: QuantityLimit;
+  kind: LimitApproval['kind'];
+  allowed: number;   // Base units the limit allows in this check
+  requested: number; // Base units the cart would take it to
+  message: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Helper: Whether a limit covers a product
+ */
+export const limitApplies = (limit: QuantityLimit, product: Pick<CartItem, 'sku' | 'category'>) =>
+  limit.scope === 'PRODUCT' ? limit.target === product.sku : limit.target === product.category;
+
+const describeTarget = (limit: QuantityLimit, items: CartItem[]) =>
+  limit.scope === 'CATEGORY' ? `${limit.target} medicines` : items.find(i => i.sku === limit.target)?.nameEn || limit.target;
+
+/**
+ * Base units of a limit's products the customer bought in the period, net of returns.
+ * Sales from every branch count; the sale lines keep the SKU and category they were sold under.
+ */
+export const getPeriodUsage = (limit: QuantityLimit, customerId: string, sales: Sale[], returns: SaleReturn[], now = new Date()): number => {
+  const since = now.getTime() - limit.periodDays * DAY_MS;
+  const inPeriod = sales.filter(s => s.customer?.id === customerId && new Date(s.date).getTime() >= since);
+
+  return inPeriod.reduce((sum, sale) => {
+    const lines = sale.items.filter(i => limitApplies(limit, i));
+    const sold = lines.reduce((q, i) => q + toBaseQuantity(i), 0);
+    const returned = returns
+      .filter(r => r.saleId === sale.id)
+      .flatMap(r => r.items)
+      .filter(ri => lines.some(l => l.cartId === ri.cartId))
+      .reduce((q, ri) => q + ri.quantity * (ri.unitFactor || 1), 0);
+    return sum + Math.max(0, sold - returned);
+  }, 0);
+};
+
+/**
+ * Limits the cart breaks, checked per sale and, when a customer is on the sale, against their
+ * recent purchases. A sign-off covers its limit and kind of check up to the quantity that was approved.
+ */
+export const findLimitViolations = (
+  items: CartItem[],
+  limits: QuantityLimit[],
+  history: { customerId?: string; sales: Sale[]; returns: SaleReturn[] },
+  approvals: LimitApproval[] = []
+): LimitViolation[] => {
+  const violations: LimitViolation[] = [];
+
+  limits.forEach(limit => {
+    const lines = items.filter(i => limitApplies(limit, i));
+    if (lines.length === 0) return;
+    const inCart = lines.reduce((sum, i) => sum + toBaseQuantity(i), 0);
+    const approved = (kind: LimitApproval['kind']) => approvals.find(a => a.limitId === limit.id && a.kind === kind)?.quantity ?? 0;
+    const target = describeTarget(limit, lines);
+
+    if (limit.maxPerSale !== undefined && inCart > limit.maxPerSale && inCart > approved('SALE')) {
+      violations.push({
+        limit,
+        kind: 'SALE',
+        allowed: limit.maxPerSale,
+        requested: inCart,
+        message: `${target}: ${inCart} units in this sale, limit is ${limit.maxPerSale} per sale.`
+      });
+    }
+
+    if (limit.maxPerPeriod !== undefined && history.customerId) {
+      const previous = getPeriodUsage(limit, history.customerId, history.sales, history.returns);
+      if (previous + inCart > limit.maxPerPeriod && inCart > approved('PERIOD')) {
+        violations.push({
+          limit,
+          kind: 'PERIOD',
+          allowed: Math.max(0, limit.maxPerPeriod - previous),
+          requested: inCart,
+          message: `${target}: customer already bought ${previous} units in the last ${limit.periodDays} days; ${inCart} more would pass the limit of ${limit.maxPerPeriod}.`
+        });
+      }
+    }
+  });
+
+  return violations;
+};
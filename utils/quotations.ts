@@ -0,0 +1,79 @@
+import { CartItem, DistributionItem, PriceList, Product, Quotation, QuotedPriceChange } from '../types';
+import { getListPrice, getProductListPrice } from './priceLists';
+import { getSellingUnits } from './units';
+
+// Days a new quotation stays valid unless the cashier picks another date
+export const DEFAULT_QUOTATION_DAYS = 14;
+
+/**
+ * Helper: Default validity date for a quotation made today, as YYYY-MM-DD
+ */
+export const getDefaultValidUntil = (from = new Date()): string => {
+  const date = new Date(from);
+  date.setDate(date.getDate() + DEFAULT_QUOTATION_DAYS);
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Helper: A quotation can be converted up to and including its validity date
+ */
+export const isQuotationExpired = (quotation: Quotation, today = new Date()): boolean =>
+  quotation.validUntil < today.toISOString().split('T')[0];
+
+/**
+ * Re-price quoted cart lines at today's product price and the customer's current price list.
+ * Lines are rebuilt from the live product so batches and stock are current; the quoted batch,
+ * scan data and manual price overrides are dropped because nothing was held for the quote.
+ */
+export const repriceCartItems = (items: CartItem[], products: Product[], priceList?: PriceList | null) => {
+  const changes: QuotedPriceChange[] = [];
+  const missing: string[] = [];
+  const repriced: CartItem[] = [];
+
+  items.forEach(item => {
+    const product = products.find(p => p.id === item.id);
+    const sellingUnit = product && getSellingUnits(product).find(u => u.unit === (item.saleUnit || item.unit));
+    if (!product || !sellingUnit) {
+      missing.push(item.nameEn);
+      return;
+    }
+    const price = getListPrice(product, sellingUnit, priceList);
+    if (price !== item.price) changes.push({ name: item.nameEn, quoted: item.price, current: price });
+
+    repriced.push({
+      ...product,
+      cartId: item.cartId,
+      quantity: item.quantity,
+      discount: item.discount,
+      discountType: item.discountType,
+      saleUnit: item.saleUnit,
+      unitFactor: item.unitFactor,
+      price,
+      priceListId: priceList?.id
+    });
+  });
+
+  return { items: repriced, changes, missing };
+};
+
+/**
+ * Re-price quoted distribution lines, matched to products by name as the order form does
+ */
+export const repriceOrderItems = (items: DistributionItem[], products: Product[], priceList?: PriceList | null) => {
+  const changes: QuotedPriceChange[] = [];
+  const missing: string[] = [];
+  const repriced: DistributionItem[] = [];
+
+  items.forEach(item => {
+    const product = products.find(p => p.nameEn === item.name);
+    if (!product) {
+      missing.push(item.name);
+      return;
+    }
+    const price = getProductListPrice(product, priceList);
+    if (price !== item.price) changes.push({ name: item.name, quoted: item.price, current: price });
+    repriced.push({ ...item, price });
+  });
+
+  return { items: repriced, changes, missing };
+};
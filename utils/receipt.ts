@@ -0,0 +1,398 @@
+import { AppSettings, Branch, PAYMENT_METHODS, Quotation, ReceiptLanguage, Sale } from '../types';
+import { lineDiscount, lineGross } from './pricing';
+import { getUnitName } from './units';
+
+export type ReceiptPaper = '58mm' | '80mm' | 'A4';
+
+// Characters per line in the printer's standard font (Font A, 12x24)
+export const RECEIPT_COLUMNS: Record<ReceiptPaper, number> = { '58mm': 32, '80mm': 48, 'A4': 96 };
+
+// Printable width in dots at 203 dpi, used for raster lines
+const PRINT_DOTS: Record<Exclude<ReceiptPaper, 'A4'>, number> = { '58mm': 384, '80mm': 576 };
+
+/**
+ * Helper: Map the Printing & POS paper size option to a layout
+ */
+export const getReceiptPaper = (paperSize: string): ReceiptPaper => {
+  if (paperSize.startsWith('58')) return '58mm';
+  if (paperSize.startsWith('A4')) return 'A4';
+  return '80mm';
+};
+
+const LABELS = {
+  invoice: { en: 'Invoice', mm: 'ပြေစာ' },
+  quotation: { en: 'Quotation', mm: 'ဈေးနှုန်းတင်ပြလွှာ' },
+  validUntil: { en: 'Valid Until', mm: 'သက်တမ်းကုန်ဆုံးရက်' },
+  date: { en: 'Date', mm: 'ရက်စွဲ' },
+  cashier: { en: 'Cashier', mm: 'ငွေကိုင်' },
+  customer: { en: 'Customer', mm: 'ဝယ်သူ' },
+  taxId: { en: 'Tax ID', mm: 'အခွန်မှတ်ပုံတင်' },
+  batch: { en: 'Batch', mm: 'အသုတ်' },
+  expiry: { en: 'Exp', mm: 'သက်တမ်း' },
+  subtotal: { en: 'Subtotal', mm: 'စုစုပေါင်း' },
+  discount: { en: 'Discount', mm: 'လျှော့ဈေး' },
+  tax: { en: 'Commercial Tax', mm: 'ကုန်သွယ်လုပ်ငန်းခွန်' },
+  taxIncluded: { en: 'Incl. Commercial Tax', mm: 'ကုန်သွယ်လုပ်ငန်းခွန် ပါဝင်' },
+  total: { en: 'Total', mm: 'ပေးရန်' },
+  change: { en: 'Change', mm: 'ပြန်အမ်းငွေ' },
+  phone: { en: 'Tel', mm: 'ဖုန်း' },
+  pointsEarned: { en: 'Points Earned', mm: 'ရရှိသောပွိုင့်' },
+  pointsRedeemed: { en: 'Points Redeemed', mm: 'သုံးစွဲသောပွိုင့်' },
+  quoteNote: { en: 'Prices are checked again when the order is placed. Stock is not reserved.', mm: 'အော်ဒါတင်ချိန်တွင် ဈေးနှုန်းကို ပြန်စစ်ပါမည်။ ပစ္စည်းကို ကြိုတင်သိမ်းမထားပါ။' }
+};
+
+type LabelKey = keyof typeof LABELS;
+
+const label = (key: LabelKey, language: ReceiptLanguage) => {
+  const { en, mm } = LABELS[key];
+  if (language === 'EN') return en;
+  if (language === 'MM') return mm;
+  return `${en} ${mm}`;
+};
+
+const money = (n: number) => Math.round(n).toLocaleString('en-US');
+
+// --- Receipt Model ---
+// One layout description rendered both to HTML (browser print) and to ESC/POS bytes
+
+export type ReceiptLine =
+  | { kind: 'text'; text: string; align?: 'left' | 'center' | 'right'; bold?: boolean; large?: boolean }
+  | { kind: 'pair'; left: string; right: string; bold?: boolean; large?: boolean }
+  | { kind: 'item'; names: string[]; qty: number; unit?: string; price: number; amount: number; details: string[] }
+  | { kind: 'rule' }
+  | { kind: 'barcode'; value: string };
+
+const qtyText = (line: Extract<ReceiptLine, { kind: 'item' }>) => line.unit ? `${line.qty} ${line.unit}` : String(line.qty);
+
+export interface ReceiptOptions {
+  settings: AppSettings;
+  branch?: Branch;
+}
+
+// Shop name, branch and contact details at the top of every printed document
+const buildHeaderLines = ({ settings, branch }: ReceiptOptions): ReceiptLine[] => {
+  const language = settings.receiptLanguage || 'BOTH';
+  const lines: ReceiptLine[] = [];
+  lines.push({ kind: 'text', text: settings.shopNameReceipt || settings.companyName, align: 'center', bold: true, large: true });
+  if (branch) lines.push({ kind: 'text', text: branch.name, align: 'center' });
+  const address = branch?.address || settings.address;
+  if (address) lines.push({ kind: 'text', text: address, align: 'center' });
+  const phone = branch?.phone || settings.phone;
+  if (phone) lines.push({ kind: 'text', text: `${label('phone', 'EN')}: ${phone}`, align: 'center' });
+  if (settings.taxId) lines.push({ kind: 'text', text: `${label('taxId', language)}: ${settings.taxId}`, align: 'center' });
+  lines.push({ kind: 'rule' });
+  return lines;
+};
+
+export const buildReceiptLines = (sale: Sale, { settings, branch }: ReceiptOptions): ReceiptLine[] => {
+  const language = settings.receiptLanguage || 'BOTH';
+  const lines: ReceiptLine[] = buildHeaderLines({ settings, branch });
+
+  // Sale details
+  lines.push({ kind: 'pair', left: label('invoice', language), right: sale.invoiceNumber });
+  lines.push({ kind: 'pair', left: label('date', language), right: new Date(sale.date).toLocaleString('en-GB') });
+  lines.push({ kind: 'pair', left: label('cashier', language), right: sale.cashierName });
+  if (sale.customer) lines.push({ kind: 'pair', left: label('customer', language), right: sale.customer.name });
+  lines.push({ kind: 'rule' });
+
+  // Lines
+  sale.items.forEach(item => {
+    const names = language === 'EN' ? [item.nameEn] : language === 'MM' ? [item.nameMm] : [item.nameEn, item.nameMm];
+    const details: string[] = [];
+    if (settings.showBatchOnReceipt) {
+      item.allocations.forEach(a => details.push(`${label('batch', 'EN')} ${a.batchNumber}  ${label('expiry', 'EN')} ${a.expiryDate}${item.allocations.length > 1 ? `  x${a.quantity}` : ''}`));
+    }
+    const discount = lineDiscount(item);
+    if (discount > 0) details.push(`${label('discount', 'EN')} -${money(discount)}`);
+    (sale.promotions || []).filter(p => p.cartId === item.cartId).forEach(p => details.push(`${p.name} -${money(p.amount)}`));
+    const lineTax = sale.taxes?.find(t => t.cartId === item.cartId);
+    if (lineTax && lineTax.tax > 0) details.push(`${label('tax', 'EN')} ${lineTax.rate}% ${money(lineTax.tax)}`);
+
+    const unit = item.packUnits?.length ? getUnitName(item.saleUnit || item.unit) : undefined;
+    lines.push({ kind: 'item', names, qty: item.quantity, unit, price: item.price, amount: lineGross(item) - discount, details });
+  });
+  lines.push({ kind: 'rule' });
+
+  // Totals
+  const subtotal = sale.subtotal ?? sale.total;
+  const taxByRate = new Map<number, number>();
+  (sale.taxes || []).filter(t => t.tax > 0).forEach(t => taxByRate.set(t.rate, (taxByRate.get(t.rate) || 0) + t.tax));
+  const taxAdded = !sale.pricesIncludeTax && taxByRate.size > 0;
+
+  if (sale.discountTotal > 0 || taxAdded) {
+    lines.push({ kind: 'pair', left: label('subtotal', language), right: money(subtotal) });
+  }
+  if (sale.discountTotal > 0) {
+    (sale.promotions || []).filter(p => !p.cartId).forEach(p => lines.push({ kind: 'pair', left: p.name, right: `-${money(p.amount)}` }));
+    lines.push({ kind: 'pair', left: label('discount', language), right: `-${money(sale.discountTotal)}` });
+  }
+  if (taxAdded) {
+    taxByRate.forEach((tax, rate) => lines.push({ kind: 'pair', left: `${label('tax', language)} ${rate}%`, right: `+${money(tax)}` }));
+  }
+  lines.push({ kind: 'pair', left: label('total', language), right: `${money(sale.total)} Ks`, bold: true, large: true });
+  if (!taxAdded) {
+    taxByRate.forEach((tax, rate) => lines.push({ kind: 'pair', left: `${label('taxIncluded', language)} ${rate}%`, right: money(tax) }));
+  }
+
+  sale.tenders.forEach(t => {
+    const method = PAYMENT_METHODS.find(m => m.code === t.method);
+    const name = method ? (language === 'MM' ? method.nameMm : method.nameEn) : t.method;
+    lines.push({ kind: 'pair', left: `${name}${t.reference ? ` #${t.reference}` : ''}`, right: money(t.tendered || t.amount) });
+  });
+  if (sale.change > 0) lines.push({ kind: 'pair', left: label('change', language), right: money(sale.change) });
+  if (sale.pointsRedeemed) lines.push({ kind: 'pair', left: label('pointsRedeemed', language), right: `-${money(sale.pointsRedeemed)}` });
+  if (sale.pointsEarned) lines.push({ kind: 'pair', left: label('pointsEarned', language), right: `+${money(sale.pointsEarned)}` });
+  lines.push({ kind: 'rule' });
+
+  // Footer
+  if (settings.receiptFooter) lines.push({ kind: 'text', text: settings.receiptFooter, align: 'center' });
+  lines.push({ kind: 'barcode', value: sale.invoiceNumber });
+
+  return lines;
+};
+
+/**
+ * Quotation layout: same header and item lines as a receipt, no tenders, and the validity date
+ */
+export const buildQuotationLines = (quotation: Quotation, { settings, branch }: ReceiptOptions): ReceiptLine[] => {
+  const language = settings.receiptLanguage || 'BOTH';
+  const lines: ReceiptLine[] = buildHeaderLines({ settings, branch });
+
+  lines.push({ kind: 'text', text: label('quotation', language), align: 'center', bold: true });
+  lines.push({ kind: 'pair', left: label('quotation', language), right: quotation.id });
+  lines.push({ kind: 'pair', left: label('date', language), right: new Date(quotation.createdAt).toLocaleDateString('en-GB') });
+  lines.push({ kind: 'pair', left: label('validUntil', language), right: new Date(quotation.validUntil).toLocaleDateString('en-GB'), bold: true });
+  lines.push({ kind: 'pair', left: label('customer', language), right: quotation.customerName });
+  lines.push({ kind: 'rule' });
+
+  (quotation.items || []).forEach(item => {
+    const names = language === 'EN' ? [item.nameEn] : language === 'MM' ? [item.nameMm] : [item.nameEn, item.nameMm];
+    const discount = lineDiscount(item);
+    const details = discount > 0 ? [`${label('discount', 'EN')} -${money(discount)}`] : [];
+    const unit = item.packUnits?.length ? getUnitName(item.saleUnit || item.unit) : undefined;
+    lines.push({ kind: 'item', names, qty: item.quantity, unit, price: item.price, amount: lineGross(item) - discount, details });
+  });
+  (quotation.order?.itemsList || []).forEach(item => {
+    lines.push({ kind: 'item', names: [item.name], qty: item.quantity, price: item.price, amount: item.price * item.quantity, details: [] });
+  });
+  lines.push({ kind: 'rule' });
+
+  if (quotation.discountTotal > 0) {
+    lines.push({ kind: 'pair', left: label('subtotal', language), right: money(quotation.subtotal) });
+    lines.push({ kind: 'pair', left: label('discount', language), right: `-${money(quotation.discountTotal)}` });
+  }
+  lines.push({ kind: 'pair', left: label('total', language), right: `${money(quotation.total)} Ks`, bold: true, large: true });
+  lines.push({ kind: 'rule' });
+  lines.push({ kind: 'text', text: label('quoteNote', language), align: 'center' });
+  lines.push({ kind: 'barcode', value: quotation.id });
+
+  return lines;
+};
+
+// --- Browser Print View ---
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const renderLinesHTML = (lines: ReceiptLine[], title: string, options: ReceiptOptions): string => {
+  const paper = getReceiptPaper(options.settings.paperSize);
+  const isA4 = paper === 'A4';
+
+  const body = lines.map(line => {
+    switch (line.kind) {
+      case 'text':
+        return `<div class="${line.align || 'left'}${line.bold ? ' b' : ''}${line.large ? ' lg' : ''}">${escapeHtml(line.text)}</div>`;
+      case 'pair':
+        return `<div class="pair${line.bold ? ' b' : ''}${line.large ? ' lg' : ''}"><span>${escapeHtml(line.left)}</span><span>${escapeHtml(line.right)}</span></div>`;
+      case 'item':
+        return `<div class="item">
+          <div class="pair"><span>${line.names.map(escapeHtml).join('<br/>')}</span>${isA4 ? `<span class="num">${qtyText(line)} × ${money(line.price)}</span>` : ''}<span class="num">${money(line.amount)}</span></div>
+          ${isA4 ? '' : `<div class="sub">${qtyText(line)} × ${money(line.price)}</div>`}
+          ${line.details.map(d => `<div class="sub">${escapeHtml(d)}</div>`).join('')}
+        </div>`;
+      case 'rule':
+        return '<hr/>';
+      case 'barcode':
+        return `<div class="center code">${escapeHtml(line.value)}</div>`;
+    }
+  }).join('\n');
+
+  const width = isA4 ? '190mm' : paper === '58mm' ? '48mm' : '72mm';
+  const fontSize = isA4 ? '12pt' : paper === '58mm' ? '9pt' : '10pt';
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"/><title>${escapeHtml(title)}</title>
+<style>
+  @page { size: ${isA4 ? 'A4' : `${paper} auto`}; margin: ${isA4 ? '10mm' : '2mm'}; }
+  body { margin: 0; font-family: 'Pyidaungsu', 'Padauk', 'Noto Sans Myanmar', Arial, sans-serif; font-size: ${fontSize}; color: #000; }
+  .receipt { width: ${width}; margin: 0 auto; }
+  .left { text-align: left; } .center { text-align: center; } .right { text-align: right; }
+  .b { font-weight: bold; } .lg { font-size: 1.3em; }
+  .pair { display: flex; justify-content: space-between; gap: 8px; }
+  .pair > span:first-child { flex: 1; }
+  .num { white-space: nowrap; font-variant-numeric: tabular-nums; ${isA4 ? 'min-width: 120px; text-align: right;' : ''} }
+  .item { margin: 3px 0; }
+  .sub { font-size: 0.85em; padding-left: 8px; }
+  .code { font-family: monospace; font-size: 1.2em; letter-spacing: 2px; margin-top: 6px; }
+  hr { border: 0; border-top: 1px dashed #000; margin: 4px 0; }
+</style></head>
+<body><div class="receipt">
+${body}
+</div></body></html>`;
+};
+
+export const renderReceiptHTML = (sale: Sale, options: ReceiptOptions): string =>
+  renderLinesHTML(buildReceiptLines(sale, options), sale.invoiceNumber, options);
+
+export const renderQuotationHTML = (quotation: Quotation, options: ReceiptOptions): string =>
+  renderLinesHTML(buildQuotationLines(quotation, options), quotation.id, options);
+
+// --- ESC/POS ---
+// Command set shared by EPSON TM-T82 and Xprinter XP-80C. Printer code pages have no Myanmar glyphs,
+// so any line with non-ASCII text is drawn on a canvas and sent as a raster image (GS v 0).
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const isAscii = (s: string) => /^[\x20-\x7e]*$/.test(s);
+
+const asciiBytes = (s: string) => Array.from(s).map(c => (c.charCodeAt(0) < 128 ? c.charCodeAt(0) : 0x3f));
+
+const fitPair = (left: string, right: string, width: number) => {
+  const room = Math.max(1, width - right.length - 1);
+  const l = left.length > room ? left.slice(0, room) : left;
+  return l + ' '.repeat(width - l.length - right.length) + right;
+};
+
+const wrap = (text: string, width: number): string[] => {
+  if (text.length <= width) return [text];
+  const out: string[] = [];
+  let line = '';
+  text.split(' ').forEach(word => {
+    if ((line + (line ? ' ' : '') + word).length > width && line) {
+      out.push(line);
+      line = word;
+    } else {
+      line += (line ? ' ' : '') + word;
+    }
+  });
+  if (line) out.push(line);
+  return out.flatMap(l => (l.length > width ? l.match(new RegExp(`.{1,${width}}`, 'g')) || [] : [l]));
+};
+
+/**
+ * Helper: Draw one line of text to a 1-bit raster for GS v 0. Returns null outside a browser.
+ */
+const rasterLine = (dots: number, left: string, right = '', opts: { align?: 'left' | 'center' | 'right'; bold?: boolean; large?: boolean } = {}): number[] | null => {
+  if (typeof document === 'undefined') return null;
+  const canvas = document.createElement('canvas');
+  const fontPx = opts.large ? 34 : 24;
+  const height = Math.ceil(fontPx * 1.6); // Myanmar stacks vowels above and below the base line
+  canvas.width = dots;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, dots, height);
+  ctx.fillStyle = '#000';
+  ctx.font = `${opts.bold ? 'bold ' : ''}${fontPx}px Pyidaungsu, Padauk, "Noto Sans Myanmar", sans-serif`;
+  ctx.textBaseline = 'middle';
+
+  if (right) {
+    ctx.textAlign = 'left';
+    ctx.fillText(left, 0, height / 2, dots - ctx.measureText(right).width - 12);
+    ctx.textAlign = 'right';
+    ctx.fillText(right, dots, height / 2);
+  } else {
+    ctx.textAlign = opts.align || 'left';
+    const x = opts.align === 'center' ? dots / 2 : opts.align === 'right' ? dots : 0;
+    ctx.fillText(left, x, height / 2, dots);
+  }
+
+  const pixels = ctx.getImageData(0, 0, dots, height).data;
+  const widthBytes = dots / 8;
+  const bytes = [GS, 0x76, 0x30, 0x00, widthBytes & 0xff, widthBytes >> 8, height & 0xff, height >> 8];
+  for (let y = 0; y < height; y++) {
+    for (let xb = 0; xb < widthBytes; xb++) {
+      let byte = 0;
+      for (let bit = 0; bit < 8; bit++) {
+        const i = (y * dots + xb * 8 + bit) * 4;
+        if (pixels[i] < 128) byte |= 0x80 >> bit;
+      }
+      bytes.push(byte);
+    }
+  }
+  return bytes;
+};
+
+export const encodeEscPos = (sale: Sale, options: ReceiptOptions): Uint8Array => {
+  const paper = getReceiptPaper(options.settings.paperSize);
+  const escPaper = paper === 'A4' ? '80mm' : paper; // A4 goes through the browser; fall back to 80mm if forced
+  const width = RECEIPT_COLUMNS[escPaper];
+  const dots = PRINT_DOTS[escPaper];
+  const out: number[] = [ESC, 0x40]; // Initialize
+
+  const align = (a: 'left' | 'center' | 'right' = 'left') => out.push(ESC, 0x61, a === 'center' ? 1 : a === 'right' ? 2 : 0);
+  const bold = (on: boolean) => out.push(ESC, 0x45, on ? 1 : 0);
+  const size = (large: boolean) => out.push(GS, 0x21, large ? 0x11 : 0x00);
+  const text = (s: string) => out.push(...asciiBytes(s), LF);
+
+  // Non-ASCII goes out as raster; without a canvas the Myanmar part is dropped rather than printed as '?'
+  const textOrRaster = (s: string, opts: { align?: 'left' | 'center' | 'right'; bold?: boolean; large?: boolean }, right = '') => {
+    if (isAscii(s) && isAscii(right)) {
+      align(right ? 'left' : opts.align);
+      bold(!!opts.bold);
+      size(!!opts.large);
+      const cols = opts.large ? Math.floor(width / 2) : width;
+      if (right) text(fitPair(s, right, cols));
+      else wrap(s, cols).forEach(text);
+      size(false);
+      bold(false);
+      return;
+    }
+    const raster = rasterLine(dots, s, right, opts);
+    if (raster) {
+      align('left');
+      out.push(...raster);
+      return;
+    }
+    const strip = (v: string) => v.replace(/[^\x20-\x7e]+/g, '').replace(/\s+/g, ' ').trim();
+    if (strip(s) || strip(right)) textOrRaster(strip(s), opts, strip(right));
+  };
+
+  buildReceiptLines(sale, options).forEach(line => {
+    switch (line.kind) {
+      case 'text':
+        textOrRaster(line.text, line);
+        break;
+      case 'pair':
+        textOrRaster(line.left, line, line.right);
+        break;
+      case 'item':
+        line.names.forEach((name, idx) => textOrRaster(name, {}, idx === 0 ? money(line.amount) : ''));
+        textOrRaster(`  ${qtyText(line)} x ${money(line.price)}`, {});
+        line.details.forEach(d => textOrRaster(`  ${d}`, {}));
+        break;
+      case 'rule':
+        align('left');
+        text('-'.repeat(width));
+        break;
+      case 'barcode': {
+        // CODE128, subset B, human-readable text below
+        const data = asciiBytes(line.value);
+        align('center');
+        out.push(GS, 0x68, 60, GS, 0x77, 2, GS, 0x48, 2);
+        out.push(GS, 0x6b, 73, data.length + 2, 0x7b, 0x42, ...data);
+        out.push(LF);
+        break;
+      }
+    }
+  });
+
+  // Open the cash drawer on cash sales, feed and partial cut
+  if (sale.tenders.some(t => t.method === 'CASH')) out.push(ESC, 0x70, 0x00, 0x19, 0xfa);
+  out.push(LF, LF, LF, GS, 0x56, 0x42, 0x00);
+
+  return new Uint8Array(out);
+};
@@ -0,0 +1,88 @@
+import { BatchAllocation, Sale, SaleItem, SaleReturn, Tender } from '../types';
+import { lineNet } from './pricing';
+import { toBaseQuantity } from './units';
+
+/**
+ * Helper: Units of each sale line already returned, keyed by cartId
+ */
+export const getReturnedQuantities = (returns: SaleReturn[]): Map<string, number> => {
+  const returned = new Map<string, number>();
+  returns.forEach(r => r.items.forEach(i => returned.set(i.cartId, (returned.get(i.cartId) || 0) + i.quantity)));
+  return returned;
+};
+
+/**
+ * Net amount the customer paid per unit of a line.
+ * Line promotions come off the line itself; cart-level discounts (tier promotions, cart discount)
+ * are spread over the lines in proportion to their value. Sales that recorded tax per line already
+ * hold that split, tax included.
+ */
+export const getUnitRefund = (sale: Sale, item: SaleItem): number => {
+  const lineTax = sale.taxes?.find(t => t.cartId === item.cartId);
+  if (lineTax) return item.quantity > 0 ? (lineTax.net + lineTax.tax) / item.quantity : 0;
+
+  const lineAfterPromotions = (i: SaleItem) =>
+    lineNet(i) - (sale.promotions || []).filter(p => p.cartId === i.cartId).reduce((sum, p) => sum + p.amount, 0);
+
+  const linesTotal = sale.items.reduce((sum, i) => sum + lineAfterPromotions(i), 0);
+  if (linesTotal <= 0 || item.quantity <= 0) return 0;
+
+  const share = lineAfterPromotions(item) * (sale.total / linesTotal);
+  return share / item.quantity;
+};
+
+/**
+ * Batches the returned units go back to, in base units.
+ * Walks the line's original allocations, skipping units that earlier returns already put back.
+ */
+export const getReturnAllocations = (item: SaleItem, quantity: number, previousReturns: SaleReturn[]): BatchAllocation[] => {
+  const alreadyBack = new Map<string, number>();
+  previousReturns.forEach(r => r.items
+    .filter(i => i.cartId === item.cartId)
+    .forEach(i => i.allocations.forEach(a => alreadyBack.set(a.batchId, (alreadyBack.get(a.batchId) || 0) + a.quantity))));
+
+  const result: BatchAllocation[] = [];
+  let remaining = toBaseQuantity({ quantity, unitFactor: item.unitFactor });
+  for (const allocation of item.allocations) {
+    if (remaining <= 0) break;
+    const available = allocation.quantity - (alreadyBack.get(allocation.batchId) || 0);
+    if (available <= 0) continue;
+    const take = Math.min(available, remaining);
+    result.push({ ...allocation, quantity: take });
+    remaining -= take;
+  }
+  return result;
+};
+
+/**
+ * Split a refund over the tenders the sale was paid with, in proportion to what is
+ * still refundable on each. Cash change given back is not refundable.
+ */
+export const allocateRefundTenders = (sale: Sale, amount: number, previousReturns: SaleReturn[]): Tender[] => {
+  const refunded = new Map<number, number>();
+  previousReturns.forEach(r => r.tenders.forEach((t, idx) => {
+    // Refund tenders are stored in the same order as the sale tenders
+    refunded.set(idx, (refunded.get(idx) || 0) + t.amount);
+  }));
+
+  const capacity = sale.tenders.map((t, idx) => Math.max(0, t.amount - (refunded.get(idx) || 0)));
+  const totalCapacity = capacity.reduce((sum, c) => sum + c, 0);
+  const refund = Math.min(amount, totalCapacity);
+  if (refund <= 0) return sale.tenders.map(t => ({ method: t.method, amount: 0, reference: t.reference }));
+
+  const tenders = sale.tenders.map((t, idx) => ({
+    method: t.method,
+    amount: Math.floor((refund * capacity[idx]) / totalCapacity),
+    reference: t.reference
+  }));
+
+  // Put the rounding remainder on the first tender that can take it
+  let remainder = refund - tenders.reduce((sum, t) => sum + t.amount, 0);
+  for (let idx = 0; idx < tenders.length && remainder > 0; idx++) {
+    const room = capacity[idx] - tenders[idx].amount;
+    const add = Math.min(room, remainder);
+    tenders[idx].amount += add;
+    remainder -= add;
+  }
+  return tenders;
+};
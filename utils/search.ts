@@ -0,0 +1,100 @@
+import { Product, Sale } from '../types';
+import { normalizeMyanmar } from './myanmar';
+
+// Match quality of one query word; results sort by the weakest word, then by sales frequency
+const MATCH_SCORE = { EXACT: 4, PREFIX: 3, CONTAINS: 2, FUZZY: 1 } as const;
+
+export interface ProductSearchEntry {
+  product: Product;
+  words: string[];     // Brand and generic name words, lower case
+  codes: string[];     // SKU and GTIN; matched exactly or by prefix, never fuzzily
+  myanmar: string;     // Normalised Myanmar name with spaces removed
+  frequency: number;   // Sales this product appeared on
+}
+
+const isMyanmar = (text: string) => /[\u1000-\u109F]/.test(text);
+
+const toWords = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+/**
+ * Helper: Number of sales each product appeared on, keyed by product id
+ */
+export const getSalesFrequency = (sales: Sale[]): Record<string, number> => {
+  const frequency: Record<string, number> = {};
+  sales.forEach(sale => {
+    new Set(sale.items.map(i => i.id)).forEach(id => { frequency[id] = (frequency[id] || 0) + 1; });
+  });
+  return frequency;
+};
+
+/**
+ * Build the search index once per product or sales change; searching it is cheap enough for every keystroke
+ */
+export const buildSearchIndex = (products: Product[], frequency: Record<string, number> = {}): ProductSearchEntry[] =>
+  products.map(product => ({
+    product,
+    words: [...toWords(product.nameEn), ...toWords(product.genericName || '')],
+    codes: [product.sku, product.gtin].filter((c): c is string => !!c).map(c => c.toLowerCase()),
+    myanmar: normalizeMyanmar(product.nameMm || '').replace(/\s+/g, ''),
+    frequency: frequency[product.id] || 0
+  }));
+
+/**
+ * Edit distance with adjacent swaps counted as one edit (optimal string alignment)
+ */
+const editDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Typos allowed for a query word of this length; short words must be typed right
+const allowedTypos = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+const scoreWord = (query: string, entry: ProductSearchEntry): number => {
+  if (isMyanmar(query)) {
+    const key = normalizeMyanmar(query);
+    if (entry.myanmar.startsWith(key)) return MATCH_SCORE.PREFIX;
+    return entry.myanmar.includes(key) ? MATCH_SCORE.CONTAINS : 0;
+  }
+
+  let best = 0;
+  entry.codes.forEach(code => {
+    if (code === query) best = Math.max(best, MATCH_SCORE.EXACT);
+    else if (code.startsWith(query)) best = Math.max(best, MATCH_SCORE.PREFIX);
+  });
+
+  const typos = allowedTypos(query.length);
+  entry.words.forEach(word => {
+    if (word === query) best = Math.max(best, MATCH_SCORE.EXACT);
+    else if (word.startsWith(query)) best = Math.max(best, MATCH_SCORE.PREFIX);
+    else if (word.includes(query)) best = Math.max(best, MATCH_SCORE.CONTAINS);
+    // Compare with the word cut to the query's length too, so a misspelt half-typed name still matches
+    else if (typos > 0 && Math.min(editDistance(query, word), editDistance(query, word.slice(0, query.length))) <= typos) {
+      best = Math.max(best, MATCH_SCORE.FUZZY);
+    }
+  });
+  return best;
+};
+
+/**
+ * Search products by brand, generic, Myanmar name, SKU or GTIN.
+ * Every query word must match; Myanmar may be typed in Zawgyi or Unicode. Better matches come first,
+ * and among equal matches the products sold most often. An empty query lists everything by sales.
+ */
+export const searchProducts = (index: ProductSearchEntry[], query: string): Product[] => {
+  const queryWords = query.trim().split(/\s+/).flatMap(word => (isMyanmar(word) ? [word] : toWords(word)));
+
+  return index
+    .map(entry => ({ entry, score: queryWords.length === 0 ? 0 : Math.min(...queryWords.map(w => scoreWord(w, entry))) }))
+    .filter(r => queryWords.length === 0 || r.score > 0)
+    .sort((a, b) => b.score - a.score || b.entry.frequency - a.entry.frequency || a.entry.product.nameEn.localeCompare(b.entry.product.nameEn))
+    .map(r => r.entry.product);
+};
@@ -0,0 +1,58 @@
+import { PAYMENT_METHODS, PaymentMethod, Sale, SaleReturn, Shift, ShiftReport } from '../types';
+
+/**
+ * Helper: Manager overrides on a sale (expired items sold, re-priced lines, discounts approved above the limit)
+ */
+export const countOverrides = (sale: Sale): number =>
+  sale.items.filter(i => i.manager_override || i.originalPrice !== undefined).length + (sale.discountApprovedBy ? 1 : 0);
+
+/**
+ * Build the X/Z report for a shift.
+ * Expected drawer cash = float + cash sales - cash refunds + cash in - cash out.
+ * Other tenders are expected at what the sales applied less what was refunded to them.
+ */
+export const buildShiftReport = (
+  shift: Shift,
+  sales: Sale[],
+  returns: SaleReturn[],
+  counted?: Partial<Record<PaymentMethod, number>>
+): ShiftReport => {
+  const shiftSales = sales.filter(s => shift.saleIds.includes(s.id));
+  const shiftReturns = returns.filter(r => shift.returnIds.includes(r.id));
+
+  const cashIn = shift.movements.filter(m => m.type === 'CASH_IN').reduce((sum, m) => sum + m.amount, 0);
+  const cashOut = shift.movements.filter(m => m.type === 'CASH_OUT').reduce((sum, m) => sum + m.amount, 0);
+
+  const byMethod = (method: PaymentMethod) => {
+    const taken = shiftSales.reduce((sum, s) => sum + s.tenders.filter(t => t.method === method).reduce((a, t) => a + t.amount, 0), 0);
+    const refunded = shiftReturns.reduce((sum, r) => sum + r.tenders.filter(t => t.method === method).reduce((a, t) => a + t.amount, 0), 0);
+    return taken - refunded;
+  };
+
+  const tenders = PAYMENT_METHODS.map(m => {
+    const expected = m.code === 'CASH'
+      ? shift.openingFloat + byMethod('CASH') + cashIn - cashOut
+      : byMethod(m.code);
+    const countedAmount = counted?.[m.code];
+    return {
+      method: m.code,
+      expected,
+      counted: countedAmount,
+      variance: countedAmount !== undefined ? countedAmount - expected : undefined
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    openingFloat: shift.openingFloat,
+    cashIn,
+    cashOut,
+    salesCount: shiftSales.length,
+    grossSales: shiftSales.reduce((sum, s) => sum + s.total, 0),
+    discountTotal: shiftSales.reduce((sum, s) => sum + (s.discountTotal || 0), 0),
+    refundsCount: shiftReturns.length,
+    refundsTotal: shiftReturns.reduce((sum, r) => sum + r.refundTotal, 0),
+    overrideCount: shiftSales.reduce((sum, s) => sum + countOverrides(s), 0),
+    tenders
+  };
+};
@@ -0,0 +1,35 @@
+import { SHORTCUT_ACTIONS, ShortcutAction } from '../types';
+
+const KEY_NAMES: Record<string, string> = { Escape: 'ESC', ' ': 'SPACE', Enter: 'ENTER', Delete: 'DEL' };
+
+/**
+ * Helper: Key event as a binding string, e.g. "F2", "ESC", "CTRL+K". Null for a bare modifier press.
+ */
+export const normalizeKey = (e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>): string | null => {
+  if (['Control', 'Alt', 'Shift', 'Meta'].includes(e.key)) return null;
+  const key = KEY_NAMES[e.key] || e.key.toUpperCase();
+  const modifiers = [e.ctrlKey || e.metaKey ? 'CTRL' : '', e.altKey ? 'ALT' : '', e.shiftKey ? 'SHIFT' : ''].filter(Boolean);
+  return [...modifiers, key].join('+');
+};
+
+/**
+ * Helper: Key currently bound to an action, remap first
+ */
+export const getShortcutKey = (action: ShortcutAction, bindings: Record<string, string>): string =>
+  bindings[action.id] || action.defaultKey;
+
+// Global actions are live on every page, so they clash with everything
+const canBeLiveTogether = (a: ShortcutAction, b: ShortcutAction) =>
+  a.scope === b.scope || a.scope === 'global' || b.scope === 'global';
+
+/**
+ * Actions that can be live at the same time and share a key
+ */
+export const findShortcutConflicts = (bindings: Record<string, string>, actions: ShortcutAction[] = SHORTCUT_ACTIONS) => {
+  const conflicts: { key: string; actions: ShortcutAction[] }[] = [];
+  actions.forEach((a, i) => actions.slice(i + 1).forEach(b => {
+    const key = getShortcutKey(a, bindings);
+    if (key === getShortcutKey(b, bindings) && canBeLiveTogether(a, b)) conflicts.push({ key, actions: [a, b] });
+  }));
+  return conflicts;
+};
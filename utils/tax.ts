@@ -0,0 +1,76 @@
+import { AppSettings, CartItem, LineTax, ReturnItem, Sale, SaleReturn, TaxSummaryRow } from '../types';
+
+export type TaxSettings = Pick<AppSettings, 'pricesIncludeTax' | 'defaultTaxRate' | 'taxRates'>;
+
+/**
+ * Helper: Commercial tax rate (percent) for a product category, falling back to the default rate
+ */
+export const getTaxRate = (category: string, settings: TaxSettings): number =>
+  settings.taxRates.find(r => r.category === category)?.rate ?? settings.defaultTaxRate;
+
+/**
+ * Tax on each line.
+ * `amounts` holds what each line costs after every discount; tax-inclusive prices have the tax taken
+ * out of that amount, tax-exclusive prices have it added on top.
+ */
+export const calculateLineTaxes = (items: CartItem[], amounts: Map<string, number>, settings: TaxSettings): LineTax[] =>
+  items.map(item => {
+    const amount = amounts.get(item.cartId) || 0;
+    const rate = getTaxRate(item.category, settings);
+    const tax = rate > 0
+      ? Math.round(settings.pricesIncludeTax ? (amount * rate) / (100 + rate) : (amount * rate) / 100)
+      : 0;
+    return { cartId: item.cartId, rate, net: settings.pricesIncludeTax ? amount - tax : amount, tax };
+  });
+
+/**
+ * Helper: Net value and tax behind returned units, pro rata to the quantity sold on each line
+ */
+export const getReturnTax = (sale: Sale, items: Pick<ReturnItem, 'cartId' | 'quantity'>[]): { rate: number; net: number; tax: number }[] =>
+  items.flatMap(item => {
+    const line = sale.taxes?.find(t => t.cartId === item.cartId);
+    const sold = sale.items.find(i => i.cartId === item.cartId)?.quantity || 0;
+    if (!line || sold <= 0) return [];
+    const share = Math.min(item.quantity, sold) / sold;
+    return [{ rate: line.rate, net: Math.round(line.net * share), tax: Math.round(line.tax * share) }];
+  });
+
+/**
+ * Tax summary grouped by rate, returns netted off against the sales they came from.
+ * Sales recorded before tax was tracked are reported at 0% on their full value.
+ */
+export const buildTaxSummary = (sales: Sale[], returns: SaleReturn[], allSales: Sale[]): TaxSummaryRow[] => {
+  const rows = new Map<number, TaxSummaryRow>();
+  const row = (rate: number) => {
+    if (!rows.has(rate)) rows.set(rate, { rate, salesNet: 0, salesTax: 0, returnsNet: 0, returnsTax: 0 });
+    return rows.get(rate)!;
+  };
+
+  sales.forEach(sale => {
+    if (!sale.taxes) {
+      row(0).salesNet += sale.total;
+      return;
+    }
+    sale.taxes.forEach(t => {
+      const r = row(t.rate);
+      r.salesNet += t.net;
+      r.salesTax += t.tax;
+    });
+  });
+
+  const salesById = new Map(allSales.map(s => [s.id, s]));
+  returns.forEach(ret => {
+    const sale = salesById.get(ret.saleId);
+    if (!sale?.taxes) {
+      row(0).returnsNet += ret.refundTotal;
+      return;
+    }
+    getReturnTax(sale, ret.items).forEach(t => {
+      const r = row(t.rate);
+      r.returnsNet += t.net;
+      r.returnsTax += t.tax;
+    });
+  });
+
+  return Array.from(rows.values()).sort((a, b) => a.rate - b.rate);
+};
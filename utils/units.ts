@@ -0,0 +1,45 @@
+import { CartItem, Product, ProductUnit, UNIT_TYPES } from '../types';
+
+/**
+ * Helper: Every unit a product can be sold in, base unit first, then packs from smallest to largest
+ */
+export const getSellingUnits = (product: Product): ProductUnit[] => [
+  { unit: product.unit, factor: 1, price: product.price },
+  ...(product.packUnits || [])
+    .filter(u => u.unit !== product.unit && u.factor > 1)
+    .sort((a, b) => a.factor - b.factor)
+];
+
+/**
+ * Helper: Display name of a unit code, falling back to the code itself
+ */
+export const getUnitName = (code?: string, language: 'en' | 'mm' = 'en'): string => {
+  const unit = UNIT_TYPES.find(u => u.code === code?.toUpperCase());
+  if (!unit) return code || '';
+  return language === 'mm' ? unit.nameMm : unit.nameEn;
+};
+
+/**
+ * Helper: Cart or sale line quantity expressed in the product's base unit
+ */
+export const toBaseQuantity = (item: Pick<CartItem, 'quantity' | 'unitFactor'>): number =>
+  item.quantity * (item.unitFactor || 1);
+
+/**
+ * Helper: Base-unit stock broken down into the largest packs, e.g. "3 Box, 4 Strip, 2 Tablet"
+ */
+export const describeStock = (product: Product, baseQuantity: number): string => {
+  const units = getSellingUnits(product).reverse();
+  if (units.length === 1) return `${baseQuantity} ${getUnitName(product.unit)}`;
+
+  let remaining = baseQuantity;
+  const parts: string[] = [];
+  units.forEach(u => {
+    const count = Math.floor(remaining / u.factor);
+    if (count > 0) {
+      parts.push(`${count} ${getUnitName(u.unit)}`);
+      remaining -= count * u.factor;
+    }
+  });
+  return parts.length > 0 ? parts.join(', ') : `0 ${getUnitName(product.unit)}`;
+};